@@ -0,0 +1,27 @@
+/**
+ * Benchmark of the headless engine: plays whole games with a fixed input pattern and reports how many
+ * games and ticks it gets through per second. Run it with `npm run bench`.
+ */
+import {createConfig} from "../src/config.ts";
+import {createGame, Direction, Drop, Move, Phase, State} from "../src/engine.ts";
+
+/** The number of games played */
+const GAMES = 2000;
+
+/**
+ * Play a game to the end, moving and dropping every fourth tick.
+ * @param {number} seed - The seed of the game.
+ * @returns {State} - The state at game over.
+ */
+const play = (seed: number): State => {
+    const game = createGame(createConfig({readyTicks: 0}), seed);
+    for (let i = 0; game.getState().phase !== Phase.GAME_OVER && i < 10000; i++)
+        game.step(i % 4 === 0 ? [new Move(i % 8 === 0 ? Direction.LEFT : Direction.RIGHT, i % 5), new Drop()] : []);
+    return game.getState();
+}
+
+const start = performance.now();
+const ticks = Array.from({length: GAMES}, (_, seed) => play(seed).ticks).reduce((a, b) => a + b, 0);
+const seconds = (performance.now() - start) / 1000;
+console.log(`${GAMES} games, ${ticks} ticks in ${seconds.toFixed(2)} s: `
+    + `${Math.round(GAMES / seconds)} games/s, ${Math.round(ticks / seconds)} ticks/s`);
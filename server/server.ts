@@ -0,0 +1,262 @@
+/**
+ * Reference room server for online play, built on Node's http and crypto modules only.
+ * Run it with `npm run server`; it listens on the port in the PORT environment variable, 8080 by default.
+ * The rules of each room live in src/room.ts; this file only moves messages between sockets and rooms.
+ */
+import {createServer, IncomingMessage} from "node:http";
+import {createHash, randomUUID} from "node:crypto";
+import type {Duplex} from "node:stream";
+import {createConfig} from "../src/config.ts";
+import {encodeMessage, parseClientMessage, PROTOCOL_VERSION, ServerMessage} from "../src/protocol.ts";
+import {
+    createRoom,
+    Envelope,
+    expireSeats,
+    joinRoom,
+    leaveRoom,
+    readyUp,
+    receiveFrame,
+    receiveGarbage,
+    receiveInput,
+    Room,
+    roomEmpty,
+    RoomUpdate
+} from "../src/room.ts";
+
+/** The GUID the WebSocket handshake hashes the client's key with, from RFC 6455 */
+const HANDSHAKE_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+/** WebSocket frame opcodes */
+const Opcode = {
+    CONTINUATION: 0x0,
+    TEXT: 0x1,
+    CLOSE: 0x8,
+    PING: 0x9,
+    PONG: 0xa
+} as const;
+
+/** The largest message accepted, in bytes */
+const MAX_MESSAGE_BYTES = 1 << 20;
+
+/** The close code for a message too big to handle, from RFC 6455 */
+const CLOSE_TOO_BIG = 1009;
+
+/** How often rooms are checked for players who did not come back, in milliseconds */
+const EXPIRY_INTERVAL_MS = 1000;
+
+/**
+ * A connected client.
+ * @typedef Client
+ * @type {object}
+ * @property {Duplex} socket - The connection.
+ * @property {Buffer} buffer - The bytes received that do not make a whole frame yet.
+ * @property {Buffer[]} fragments - The payloads of a message sent over several frames.
+ * @property {number} fragmentBytes - The total length of those payloads.
+ * @property {(string|null)} room - The room the client has joined, null before joining.
+ * @property {(number|null)} seat - The seat of the client in the room.
+ */
+type Client = {
+    socket: Duplex,
+    buffer: Buffer,
+    fragments: Buffer[],
+    fragmentBytes: number,
+    room: string | null,
+    seat: number | null
+};
+
+const rooms = new Map<string, Room>();
+const clients = new Set<Client>();
+
+/**
+ * Frame a payload to send. Frames from the server are not masked.
+ * @param {number} opcode - The opcode of the frame.
+ * @param {Buffer} payload - The payload.
+ * @returns {Buffer} - The frame.
+ */
+const frame = (opcode: number, payload: Buffer): Buffer => {
+    const length = payload.length;
+    const header = length < 126 ? Buffer.alloc(2) : length < 1 << 16 ? Buffer.alloc(4) : Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    if (length < 126) {
+        header[1] = length;
+    } else if (length < 1 << 16) {
+        header[1] = 126;
+        header.writeUInt16BE(length, 2);
+    } else {
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(length), 2);
+    }
+    return Buffer.concat([header, payload]);
+}
+
+/**
+ * Send a message to a client.
+ * @param {Client} client - The client.
+ * @param {ServerMessage} message - The message.
+ */
+const send = (client: Client, message: ServerMessage) => {
+    if (!client.socket.destroyed)
+        client.socket.write(frame(Opcode.TEXT, Buffer.from(encodeMessage(message))));
+}
+
+/**
+ * Store the new state of a room and deliver its messages to the clients seated in it.
+ * @param {string} name - The name of the room.
+ * @param {RoomUpdate} update - The new room and its messages.
+ */
+const commit = (name: string, {room, outbox}: RoomUpdate) => {
+    if (roomEmpty(room) && room.game === null) rooms.delete(name);
+    else rooms.set(name, room);
+    outbox.forEach(({to, message}: Envelope) =>
+        clients.forEach(client => client.room === name && client.seat === to && send(client, message)));
+}
+
+/**
+ * Handle a message from a client.
+ * @param {Client} client - The client.
+ * @param {string} text - The message.
+ */
+const receive = (client: Client, text: string) => {
+    const message = parseClientMessage(text);
+    if (message === null) return send(client, {type: "error", message: "Malformed message"});
+
+    if (message.type === "join") {
+        if (message.version !== PROTOCOL_VERSION)
+            return send(client, {type: "error", message: `This server speaks protocol version ${PROTOCOL_VERSION}`});
+        if (client.room !== null) leave(client);
+        const name = message.room.trim().slice(0, 32) || "lobby";
+        const room = rooms.get(name) ?? createRoom(name, Date.now(), createConfig({mode: "versus"}));
+        const joined = joinRoom(room, message.name.trim().slice(0, 32) || "Player", message.session, randomUUID());
+        if (joined.seat === null) return send(client, {type: "error", message: "The room is full"});
+        // A client rejoining from a new connection takes the seat over from the old one
+        clients.forEach(other => other.room === name && other.seat === joined.seat && (other.room = other.seat = null));
+        client.room = name;
+        client.seat = joined.seat;
+        return commit(name, joined);
+    }
+
+    const room = client.room === null ? undefined : rooms.get(client.room);
+    if (!room || client.seat === null) return send(client, {type: "error", message: "Join a room first"});
+    switch (message.type) {
+        case "ready": return commit(room.name, readyUp(room, client.seat, Date.now()));
+        case "input": return commit(room.name, receiveInput(room, client.seat, message.tick, message.action, Date.now()));
+        case "garbage": return commit(room.name, receiveGarbage(room, client.seat, message.tick, Date.now()));
+        case "frame": return commit(room.name, receiveFrame(room, client.seat, message.tick, message.hash, Date.now()));
+    }
+}
+
+/**
+ * Take a client out of its room.
+ * @param {Client} client - The client.
+ */
+const leave = (client: Client) => {
+    const room = client.room === null ? undefined : rooms.get(client.room);
+    if (room && client.seat !== null) commit(room.name, leaveRoom(room, client.seat, Date.now()));
+    client.room = client.seat = null;
+}
+
+/**
+ * Read the whole frames received from a client.
+ * @param {Client} client - The client.
+ */
+const readFrames = (client: Client) => {
+    while (client.buffer.length >= 2) {
+        const {buffer} = client;
+        const fin = (buffer[0] & 0x80) !== 0;
+        const opcode = buffer[0] & 0x0f;
+        const masked = (buffer[1] & 0x80) !== 0;
+        const short = buffer[1] & 0x7f;
+        const lengthBytes = short === 126 ? 2 : short === 127 ? 8 : 0;
+        const headerLength = 2 + lengthBytes + (masked ? 4 : 0);
+        if (buffer.length < headerLength) return;
+        const length = short === 126 ? buffer.readUInt16BE(2)
+            : short === 127 ? Number(buffer.readBigUInt64BE(2))
+                : short;
+        // Clients must mask their frames
+        if (!masked || length > MAX_MESSAGE_BYTES) return client.socket.destroy();
+        if (buffer.length < headerLength + length) return;
+
+        const mask = buffer.subarray(headerLength - 4, headerLength);
+        const payload = Buffer.from(buffer.subarray(headerLength, headerLength + length).map((byte, i) => byte ^ mask[i % 4]));
+        client.buffer = buffer.subarray(headerLength + length);
+
+        switch (opcode) {
+            case Opcode.TEXT:
+            case Opcode.CONTINUATION:
+                client.fragments.push(payload);
+                client.fragmentBytes += payload.length;
+                // Every frame may be small while the message they make up is not
+                if (client.fragmentBytes > MAX_MESSAGE_BYTES) {
+                    const code = Buffer.alloc(2);
+                    code.writeUInt16BE(CLOSE_TOO_BIG);
+                    client.fragments = [];
+                    client.socket.end(frame(Opcode.CLOSE, code));
+                    return;
+                }
+                if (fin) {
+                    const text = Buffer.concat(client.fragments).toString("utf8");
+                    client.fragments = [];
+                    client.fragmentBytes = 0;
+                    // A message the rooms cannot handle is dropped, so that one client cannot bring the server down
+                    try {
+                        receive(client, text);
+                    } catch (error) {
+                        console.error("Dropped a message that could not be handled", error);
+                        send(client, {type: "error", message: "The message could not be handled"});
+                    }
+                }
+                break;
+            case Opcode.PING:
+                client.socket.write(frame(Opcode.PONG, payload));
+                break;
+            case Opcode.CLOSE:
+                client.socket.end(frame(Opcode.CLOSE, payload.subarray(0, 2)));
+                return;
+        }
+    }
+}
+
+/**
+ * Accept a WebSocket connection.
+ * @param {IncomingMessage} request - The upgrade request.
+ * @param {Duplex} socket - The connection.
+ */
+const upgrade = (request: IncomingMessage, socket: Duplex) => {
+    const key = request.headers["sec-websocket-key"];
+    if (typeof key !== "string" || request.headers.upgrade?.toLowerCase() !== "websocket")
+        return socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    const accept = createHash("sha1").update(key + HANDSHAKE_GUID).digest("base64");
+    socket.write([
+        "HTTP/1.1 101 Switching Protocols",
+        "Upgrade: websocket",
+        "Connection: Upgrade",
+        `Sec-WebSocket-Accept: ${accept}`,
+        "\r\n"
+    ].join("\r\n"));
+
+    const client: Client = {socket, buffer: Buffer.alloc(0), fragments: [], fragmentBytes: 0, room: null, seat: null};
+    clients.add(client);
+    socket.on("data", (data: Buffer) => {
+        // Once the connection is closing, nothing more is read
+        if (socket.writableEnded) return;
+        client.buffer = Buffer.concat([client.buffer, data]);
+        readFrames(client);
+    });
+    socket.on("close", () => {
+        leave(client);
+        clients.delete(client);
+    });
+    socket.on("error", () => socket.destroy());
+}
+
+const server = createServer((_, response) => {
+    response.writeHead(426, {"Content-Type": "text/plain"});
+    response.end("This is a Tetris room server. Connect with a WebSocket.\n");
+});
+server.on("upgrade", upgrade);
+
+// Players who left a game forfeit it once they have been gone too long, and a room nobody is left in is closed
+setInterval(() => rooms.forEach((room, name) => commit(name, expireSeats(room, Date.now()))), EXPIRY_INTERVAL_MS);
+
+const port = Number(process.env.PORT ?? 8080);
+server.listen(port, () => console.log(`Room server listening on ws://localhost:${port}`));
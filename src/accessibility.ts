@@ -0,0 +1,126 @@
+/** Screen reader support: announcements of what happens in a game, a spoken readout of the board, and menus */
+import {GameEvent, State} from "./state.ts";
+import {columnHeights} from "./bot.ts";
+import {cellsOf} from "./view.ts";
+
+/**
+ * How much is announced: nothing, what changes the game (holds, clears, levels and game over),
+ * or every piece as it comes in too.
+ * @typedef Verbosity
+ * @type {"off"|"brief"|"full"}
+ */
+type Verbosity = "off" | "brief" | "full";
+
+/**
+ * Something to tell the player.
+ * @typedef Announcement
+ * @type {object}
+ * @property {string} text - What to say.
+ * @property {number} priority - How much it matters, higher first when there is too much to say.
+ */
+type Announcement = Readonly<{
+    text: string,
+    priority: number
+}>;
+
+/** How often the live region is updated, so that fast play does not drown the screen reader */
+const ANNOUNCE_INTERVAL_MS = 1000;
+
+/** The most announcements read out at once, the rest being dropped */
+const MAX_ANNOUNCED = 3;
+
+/**
+ * The announcements of game events.
+ * @param {GameEvent[]} events - The events, oldest first.
+ * @param {Verbosity} verbosity - How much to announce.
+ * @returns {Announcement[]} - The announcements, in the order of the events.
+ */
+const announcementsFor = (events: ReadonlyArray<GameEvent>, verbosity: Verbosity): Announcement[] =>
+    verbosity === "off" ? [] : events.flatMap((event): Announcement[] => {
+        switch (event.type) {
+            case "spawn":
+                return verbosity === "full" ? [{text: `${event.tetromino.kind} piece`, priority: 0}] : [];
+            case "hold":
+                return [{text: `Held ${event.tetromino.kind}`, priority: 1}];
+            case "clear":
+                return [{text: event.clear.label, priority: 2}];
+            case "levelUp":
+                return [{text: `Level ${event.level}`, priority: 2}];
+            case "gameOver":
+                return [{text: event.completed ? "Complete" : "Game over", priority: 3}];
+            case "move":
+            case "rotate":
+            case "lock":
+            case "hardDrop":
+                return [];
+        }
+    });
+
+/**
+ * Put the announcements gathered since the live region was last updated into one message.
+ * When there are too many, the ones that matter least are dropped; the rest keep their order.
+ * @param {Announcement[]} announcements - The announcements, oldest first.
+ * @param {number} limit - The most announcements to keep.
+ * @returns {string} - The message.
+ */
+const summarize = (announcements: ReadonlyArray<Announcement>, limit: number = MAX_ANNOUNCED): string => {
+    const kept = [...announcements].sort((a, b) => b.priority - a.priority).slice(0, limit);
+    return announcements.filter(announcement => kept.includes(announcement)).map(({text}) => text).join(". ");
+}
+
+/**
+ * List numbers in words, e.g. "3, 5 and 7".
+ * @param {number[]} numbers - The numbers.
+ * @returns {string} - The list.
+ */
+const listOf = (numbers: ReadonlyArray<number>): string =>
+    numbers.length < 2 ? numbers.join("") : `${numbers.slice(0, -1).join(", ")} and ${numbers[numbers.length - 1]}`;
+
+/**
+ * Describe a game in words: the piece in play and where it is, the next pieces, the held piece,
+ * the height of each column and the holes in the stack. Columns are counted from 1 on the left.
+ * @param {State} s - The game.
+ * @returns {string} - The readout.
+ */
+const boardReadout = (s: State): string => {
+    const heights = columnHeights(s.grid);
+    const holes = heights.map((h, x) => s.grid.slice(s.grid.length - h).filter(row => row[x] === null).length);
+    const holed = holes.flatMap((count, x) => count > 0 ? [x + 1] : []);
+    const total = holes.reduce((sum, count) => sum + count, 0);
+    const columns = [...new Set(cellsOf(s.currentTetromino, 0).map(({x}) => x + 1))].sort((a, b) => a - b);
+    return [
+        `${s.currentTetromino.kind} piece over column${columns.length > 1 ? "s" : ""} ${listOf(columns)}`,
+        `Next: ${s.nextQueue.map(t => t.kind).join(", ")}`,
+        `Holding: ${s.heldElement?.kind ?? "nothing"}`,
+        `Column heights: ${heights.join(", ")}`,
+        total === 0 ? "No holes" : `${total} hole${total > 1 ? "s" : ""}, in column${holed.length > 1 ? "s" : ""} ${listOf(holed)}`
+    ].join(". ");
+}
+
+/**
+ * Move the focus through the items of a menu with the arrow keys, Home and End. The arrows wrap around.
+ * @param {string} key - The key pressed, as in `KeyboardEvent.key`.
+ * @param {number} index - The item focused, -1 when none is.
+ * @param {number} count - The number of items.
+ * @returns {(number|null)} - The item to focus, null when the key does not move the focus.
+ */
+const menuFocus = (key: string, index: number, count: number): number | null => {
+    if (count === 0) return null;
+    switch (key) {
+        case "ArrowDown":
+        case "ArrowRight":
+            return (index + 1) % count;
+        case "ArrowUp":
+        case "ArrowLeft":
+            return index < 0 ? count - 1 : (index - 1 + count) % count;
+        case "Home":
+            return 0;
+        case "End":
+            return count - 1;
+        default:
+            return null;
+    }
+}
+
+export {ANNOUNCE_INTERVAL_MS, MAX_ANNOUNCED, announcementsFor, summarize, boardReadout, menuFocus}
+export type {Verbosity, Announcement}
@@ -0,0 +1,360 @@
+/** Sound: effects for game events and a background track, synthesized with Web Audio */
+import type {GameEvent} from "./state.ts";
+import {RNG} from "./randomizer.ts";
+import {Spin} from "./scoring.ts";
+
+/**
+ * A sound effect.
+ * @typedef Sound
+ * @type {"move"|"rotate"|"hold"|"lock"|"single"|"double"|"triple"|"tetris"|"tSpin"|"levelUp"|"topOut"}
+ */
+type Sound = "move" | "rotate" | "hold" | "lock" | "single" | "double" | "triple" | "tetris" | "tSpin" | "levelUp" | "topOut";
+
+/**
+ * A note played by a single oscillator, fading out over its duration.
+ * @typedef Tone
+ * @type {object}
+ * @property {OscillatorType} wave - The shape of the wave.
+ * @property {number} frequency - The pitch the note starts at, in hertz.
+ * @property {(number|null)} slide - The pitch the note slides to by its end, null to hold its pitch.
+ * @property {number} start - When the note starts, from the start of the sound.
+ * @property {number} duration - How long the note lasts.
+ * @property {number} gain - The volume the note starts at, from 0 to 1.
+ */
+type Tone = Readonly<{
+    wave: OscillatorType,
+    frequency: number,
+    slide: number | null,
+    start: number,
+    duration: number,
+    gain: number
+}>;
+
+/**
+ * Volumes, from 0 to 1, and whether the background track plays.
+ * @typedef AudioSettings
+ * @type {object}
+ * @property {number} master - The volume of everything.
+ * @property {number} sfx - The volume of sound effects.
+ * @property {number} music - The volume of the background track.
+ * @property {boolean} playMusic - Whether the background track plays during games.
+ * @property {boolean} muted - Whether every sound is silenced, whatever the volumes.
+ */
+type AudioSettings = Readonly<{
+    master: number,
+    sfx: number,
+    music: number,
+    playMusic: boolean,
+    muted: boolean
+}>;
+
+/**
+ * The audio settings used until the player changes them.
+ * @constant {AudioSettings}
+ */
+const defaultAudioSettings: AudioSettings = {
+    master: 0.8,
+    sfx: 0.8,
+    music: 0.4,
+    playMusic: false,
+    muted: false
+};
+
+/**
+ * The background track of a game.
+ * @typedef Track
+ * @type {object}
+ * @property {number} seed - The seed the tune is composed from.
+ * @property {number} level - The level of the game, which sets the tempo.
+ */
+type Track = Readonly<{
+    seed: number,
+    level: number
+}>;
+
+/**
+ * Plays the sounds of a game. Implementations can use Web Audio, or do nothing at all.
+ * @interface GameAudio
+ */
+interface GameAudio {
+    /**
+     * Play sound effects, all at once.
+     * @param {Sound[]} sounds - The sounds.
+     */
+    play(sounds: ReadonlyArray<Sound>): void;
+
+    /**
+     * Play the background track of a game, or stop it. A change of level changes the tempo from the next bar.
+     * @param {(Track|null)} track - The track, null to stop.
+     */
+    music(track: Track | null): void;
+
+    /**
+     * Change the volumes, and stop the background track if it is turned off.
+     * @param {AudioSettings} settings - The audio settings.
+     */
+    configure(settings: AudioSettings): void;
+}
+
+/**
+ * The pitch of a note.
+ * @param {number} semitones - The number of semitones above A4, negative for notes below it.
+ * @returns {number} - The frequency, in hertz.
+ */
+const pitch = (semitones: number): number => 440 * Math.pow(2, semitones / 12);
+
+/**
+ * A run of short notes, one after the other.
+ * @param {OscillatorType} wave - The shape of the wave.
+ * @param {number[]} notes - The notes, in semitones above A4.
+ * @param {number} step - The time between two notes, in seconds.
+ * @param {number} gain - The volume of each note.
+ * @returns {Tone[]} - The notes.
+ */
+const arpeggio = (wave: OscillatorType, notes: ReadonlyArray<number>, step: number, gain: number): Tone[] =>
+    notes.map((note, i) => ({wave, frequency: pitch(note), slide: null, start: i * step, duration: step * 2, gain}));
+
+/**
+ * The notes of each sound effect, timed in seconds.
+ * @constant {Record<Sound, Tone[]>}
+ */
+const SOUNDS: Readonly<Record<Sound, ReadonlyArray<Tone>>> = {
+    move: [{wave: "square", frequency: pitch(-12), slide: null, start: 0, duration: 0.03, gain: 0.08}],
+    rotate: [{wave: "triangle", frequency: pitch(0), slide: pitch(7), start: 0, duration: 0.05, gain: 0.2}],
+    hold: [{wave: "sine", frequency: pitch(3), slide: pitch(10), start: 0, duration: 0.08, gain: 0.25}],
+    lock: [{wave: "triangle", frequency: pitch(-21), slide: pitch(-31), start: 0, duration: 0.08, gain: 0.4}],
+    single: arpeggio("square", [3], 0.06, 0.15),
+    double: arpeggio("square", [3, 7], 0.06, 0.15),
+    triple: arpeggio("square", [3, 7, 10], 0.06, 0.15),
+    tetris: arpeggio("square", [3, 7, 10, 15, 19], 0.06, 0.18),
+    tSpin: [
+        {wave: "sawtooth", frequency: pitch(-9), slide: pitch(15), start: 0, duration: 0.2, gain: 0.15},
+        ...arpeggio("triangle", [15, 22], 0.08, 0.2).map(tone => ({...tone, start: tone.start + 0.15}))
+    ],
+    levelUp: arpeggio("triangle", [-2, 3, 7, 10, 15], 0.08, 0.25),
+    topOut: [{wave: "sawtooth", frequency: pitch(-5), slide: pitch(-36), start: 0, duration: 0.8, gain: 0.25}]
+};
+
+/** The sound of a clear of 1 to 4 lines */
+const LINE_SOUNDS: ReadonlyArray<Sound> = ["single", "double", "triple", "tetris"];
+
+/**
+ * The sound effects of game events. Hard drops are heard through the lock that follows them, and spawns are silent.
+ * @param {GameEvent[]} events - The events, oldest first.
+ * @returns {Sound[]} - The sounds to play.
+ */
+const soundsFor = (events: ReadonlyArray<GameEvent>): Sound[] =>
+    events.flatMap((event): Sound[] => {
+        switch (event.type) {
+            case "move":
+            case "rotate":
+            case "hold":
+            case "lock":
+                return [event.type];
+            case "clear":
+                if (event.clear.spin !== Spin.NONE) return ["tSpin"];
+                return event.clear.rowsCleared > 0 ? [LINE_SOUNDS[Math.min(event.clear.rowsCleared, 4) - 1]] : [];
+            case "levelUp":
+                return ["levelUp"];
+            case "gameOver":
+                return event.completed ? [] : ["topOut"];
+            case "hardDrop":
+            case "spawn":
+                return [];
+        }
+    });
+
+/**
+ * Keep track of the events already heard, so that a state drawn again is silent.
+ * Events stay on the state for a tick after they happen, so new ones are told apart by identity.
+ * @returns {function(GameEvent[]): GameEvent[]} - Gives the events of a state not in the state before.
+ */
+const eventTracker = () => {
+    let heard: ReadonlyArray<GameEvent> = [];
+    return (events: ReadonlyArray<GameEvent>): GameEvent[] => {
+        const fresh = events.filter(event => !heard.includes(event));
+        heard = events;
+        return fresh;
+    };
+};
+
+/** The tempo of the background track at level 1, in beats per minute */
+const MUSIC_TEMPO = 96;
+/** How much faster the background track gets each level, in beats per minute */
+const MUSIC_TEMPO_STEP = 8;
+/** The fastest the background track gets, in beats per minute */
+const MAX_MUSIC_TEMPO = 200;
+/** The number of beats in a bar of the background track */
+const BEATS_PER_BAR = 4;
+/** The number of bars before the background track repeats */
+const MUSIC_BARS = 8;
+/** The notes of the tune, in semitones above A4: a major pentatonic scale from C4 */
+const MUSIC_SCALE: ReadonlyArray<number> = [-9, -7, -5, -2, 0, 3, 5, 7, 10, 12];
+/** The roots of the bass line, a bar each, in semitones above A4 */
+const MUSIC_BASS: ReadonlyArray<number> = [-33, -28, -30, -26];
+
+/**
+ * The tempo of the background track, which rises with the level as gravity does.
+ * @param {number} level - The level of the game.
+ * @returns {number} - The tempo, in beats per minute.
+ */
+const musicTempo = (level: number): number =>
+    Math.min(MUSIC_TEMPO + (Math.max(level, 1) - 1) * MUSIC_TEMPO_STEP, MAX_MUSIC_TEMPO);
+
+/**
+ * Compose a bar of the background track: a tune of eighth notes wandering up and down the scale over a bass line.
+ * The same seed always gives the same track, which repeats every `MUSIC_BARS` bars.
+ * @param {number} seed - The seed of the track.
+ * @param {number} bar - The number of the bar, from 0.
+ * @returns {Tone[]} - The notes of the bar, timed in beats.
+ */
+const composeBar = (seed: number, bar: number): Tone[] => {
+    const loop = bar % MUSIC_BARS;
+    const start = RNG.randomInt(RNG.hash(seed + loop), 0, MUSIC_SCALE.length - 1);
+    const tune = Array.from({length: BEATS_PER_BAR * 2}).reduce<{notes: number[], degree: number, seed: number}>(acc => {
+        const step = RNG.randomInt(acc.seed, -2, 2);
+        const degree = Math.max(0, Math.min(acc.degree + step.value, MUSIC_SCALE.length - 1));
+        return {notes: acc.notes.concat(MUSIC_SCALE[degree]), degree, seed: step.seed};
+    }, {notes: [], degree: start.value, seed: start.seed}).notes;
+    const root = MUSIC_BASS[loop % MUSIC_BASS.length];
+    return [
+        ...tune.map((note, i): Tone =>
+            ({wave: "square", frequency: pitch(note), slide: null, start: i / 2, duration: 0.45, gain: 0.12})),
+        ...[0, 2].map((beat): Tone =>
+            ({wave: "triangle", frequency: pitch(root), slide: null, start: beat, duration: 1.8, gain: 0.3}))
+    ];
+};
+
+/**
+ * Audio that makes no sound, for tests and browsers without Web Audio.
+ * @constant {GameAudio}
+ */
+const silentAudio: GameAudio = {
+    play() {},
+    music() {},
+    configure() {}
+};
+
+/** How often the background track is scheduled, in milliseconds */
+const SCHEDULE_INTERVAL_MS = 100;
+/** How far ahead the background track is scheduled, in seconds */
+const SCHEDULE_AHEAD = 0.3;
+/** The volume a fading note stops at, since exponential fades cannot reach 0 */
+const SILENCE = 0.0001;
+
+/**
+ * Play sounds with Web Audio. Nothing is set up until the first sound, since browsers only let a page
+ * start audio after the player has interacted with it.
+ * @returns {GameAudio} - The audio.
+ */
+const createWebAudio = (): GameAudio => {
+    let graph: Readonly<{context: AudioContext, master: GainNode, sfx: GainNode, music: GainNode}> | null = null;
+    let settings = defaultAudioSettings;
+    let track: Track | null = null;
+    let bar = 0;
+    let barStart = 0;
+    let timer: ReturnType<typeof setInterval> | null = null;
+
+    /** Set the volume of each bus from the settings */
+    const applyVolumes = () => {
+        if (!graph) return;
+        graph.master.gain.value = settings.muted ? 0 : settings.master;
+        graph.sfx.gain.value = settings.sfx;
+        graph.music.gain.value = settings.music;
+    };
+
+    /** Make the audio graph on first use, and wake it up if the browser has suspended it */
+    const connect = () => {
+        if (!graph) {
+            const context = new AudioContext();
+            const master = context.createGain();
+            master.connect(context.destination);
+            const bus = () => {
+                const gain = context.createGain();
+                gain.connect(master);
+                return gain;
+            };
+            graph = {context, master, sfx: bus(), music: bus()};
+            applyVolumes();
+        }
+        if (graph.context.state === "suspended") graph.context.resume();
+        return graph;
+    };
+
+    /**
+     * Schedule notes on a bus.
+     * @param {Tone[]} tones - The notes, timed in seconds.
+     * @param {GainNode} bus - Where to play them.
+     * @param {number} at - When the first note is timed from, in the time of the audio context.
+     */
+    const schedule = (tones: ReadonlyArray<Tone>, bus: GainNode, at: number) => {
+        const {context} = connect();
+        tones.forEach(tone => {
+            const start = at + tone.start;
+            const end = start + tone.duration;
+            const oscillator = context.createOscillator();
+            oscillator.type = tone.wave;
+            oscillator.frequency.setValueAtTime(tone.frequency, start);
+            if (tone.slide !== null) oscillator.frequency.exponentialRampToValueAtTime(tone.slide, end);
+            const envelope = context.createGain();
+            envelope.gain.setValueAtTime(tone.gain, start);
+            envelope.gain.exponentialRampToValueAtTime(SILENCE, end);
+            oscillator.connect(envelope).connect(bus);
+            oscillator.start(start);
+            oscillator.stop(end);
+        });
+    };
+
+    /** Schedule the bars of the background track due to start soon */
+    const scheduleMusic = () => {
+        if (!graph || !track) return;
+        const beat = 60 / musicTempo(track.level);
+        // Bars missed while the page was asleep are skipped rather than played all at once
+        barStart = Math.max(barStart, graph.context.currentTime);
+        for (; barStart < graph.context.currentTime + SCHEDULE_AHEAD; bar++, barStart += BEATS_PER_BAR * beat)
+            schedule(composeBar(track.seed, bar)
+                .map(tone => ({...tone, start: tone.start * beat, duration: tone.duration * beat})), graph.music, barStart);
+    };
+
+    const stopMusic = () => {
+        if (timer !== null) clearInterval(timer);
+        timer = null;
+        track = null;
+    };
+
+    return {
+        play(sounds: ReadonlyArray<Sound>) {
+            if (sounds.length === 0 || settings.muted) return;
+            const {context, sfx} = connect();
+            sounds.forEach(sound => schedule(SOUNDS[sound], sfx, context.currentTime));
+        },
+
+        music(next: Track | null) {
+            if (next === null || !settings.playMusic) return stopMusic();
+            if (track?.seed !== next.seed) {
+                bar = 0;
+                barStart = 0;
+            }
+            track = next;
+            if (timer === null) timer = setInterval(scheduleMusic, SCHEDULE_INTERVAL_MS);
+        },
+
+        configure(next: AudioSettings) {
+            settings = next;
+            applyVolumes();
+            if (!settings.playMusic) stopMusic();
+        }
+    };
+};
+
+export {
+    SOUNDS,
+    defaultAudioSettings,
+    soundsFor,
+    eventTracker,
+    musicTempo,
+    composeBar,
+    silentAudio,
+    createWebAudio
+}
+export type {Sound, Tone, AudioSettings, Track, GameAudio}
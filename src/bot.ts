@@ -0,0 +1,261 @@
+/** Built-in AI: picks placements by searching the real actions and weighing the boards they leave */
+import {Action, GridCell, Phase, Tetromino} from "./types.ts";
+import {Drop, GameFlow, ghostTetromino, Hold, Move, reduceState, Rotate, State} from "./state.ts";
+import {Direction} from "./util.ts";
+import {Turn} from "./rotation.ts";
+
+/**
+ * What the bot does for the player.
+ * @typedef BotMode
+ * @type {"off"|"hint"|"autoplay"}
+ */
+type BotMode = "off" | "hint" | "autoplay";
+
+/**
+ * The measures of a board the bot weighs.
+ * @typedef Features
+ * @type {object}
+ * @property {number} height - The sum of the heights of the columns.
+ * @property {number} holes - The number of empty cells with a filled cell above them.
+ * @property {number} bumpiness - The sum of the height differences between neighbouring columns.
+ * @property {number} wells - The sum of the depths of the columns lower than both their neighbours.
+ * @property {number} lines - The number of lines cleared on the way to the board.
+ */
+type Features = Readonly<{
+    height: number,
+    holes: number,
+    bumpiness: number,
+    wells: number,
+    lines: number
+}>;
+
+/**
+ * How much each feature counts. Positive weights reward a feature, negative ones penalise it.
+ * @typedef Weights
+ * @type {Features}
+ */
+type Weights = Features;
+
+/**
+ * @typedef BotConfig
+ * @type {object}
+ * @property {Weights} weights - How much each feature of a board counts.
+ * @property {number} depth - The number of pieces to look ahead, the current one included.
+ * @property {boolean} hold - Whether the bot may use hold.
+ */
+type BotConfig = Readonly<{
+    weights: Weights,
+    depth: number,
+    hold: boolean
+}>;
+
+/**
+ * @typedef Placement
+ * @type {object}
+ * @property {Tetromino} tetromino - The piece at its landing position.
+ * @property {boolean} hold - Whether the piece is reached by holding first.
+ * @property {Action[]} inputs - The inputs that place the piece, ending with a hard drop.
+ * @property {number} score - The value of the placement, the best board reachable within the search depth.
+ */
+type Placement = Readonly<{
+    tetromino: Tetromino,
+    hold: boolean,
+    inputs: ReadonlyArray<Action>,
+    score: number
+}>;
+
+/**
+ * Weights tuned for long survival, after Yiyuan Lee's genetic search.
+ * @constant {Weights}
+ */
+const defaultWeights: Weights = {
+    height: -0.510066,
+    holes: -0.35663,
+    bumpiness: -0.184483,
+    wells: -0.05,
+    lines: 0.760666
+};
+
+/**
+ * @constant {BotConfig}
+ */
+const defaultBotConfig: BotConfig = {
+    weights: defaultWeights,
+    depth: 1,
+    hold: true
+};
+
+/** The rotations tried, as turns from the current one */
+const TURNS: ReadonlyArray<Turn | null> = [null, Turn.CLOCKWISE, Turn.HALF, Turn.COUNTER_CLOCKWISE];
+
+/**
+ * Measure the height of every column, from the floor to its highest filled cell.
+ * @param {GridCell[][]} grid - The grid.
+ * @returns {number[]} - The height of each column.
+ */
+const columnHeights = (grid: GridCell[][]): number[] =>
+    grid[0].map((_, x) => {
+        const top = grid.findIndex(row => row[x] !== null);
+        return top < 0 ? 0 : grid.length - top;
+    });
+
+/**
+ * Measure the features of a board.
+ * @param {GridCell[][]} grid - The grid.
+ * @param {number} lines - The number of lines cleared on the way to the board.
+ * @returns {Features} - The features of the board.
+ */
+const features = (grid: GridCell[][], lines: number): Features => {
+    const heights = columnHeights(grid);
+    // The walls count as infinitely high, so the edge columns can be wells too
+    const neighbour = (x: number) => x < 0 || x >= heights.length ? Infinity : heights[x];
+    return {
+        height: heights.reduce((sum, h) => sum + h, 0),
+        holes: heights.reduce((sum, h, x) =>
+            sum + grid.slice(grid.length - h).filter(row => row[x] === null).length, 0),
+        bumpiness: heights.slice(1).reduce((sum, h, x) => sum + Math.abs(h - heights[x]), 0),
+        wells: heights.reduce((sum, h, x) =>
+            sum + Math.max(Math.min(neighbour(x - 1), neighbour(x + 1)) - h, 0), 0),
+        lines
+    };
+}
+
+/**
+ * Weigh a board.
+ * @param {GridCell[][]} grid - The grid.
+ * @param {number} lines - The number of lines cleared on the way to the board.
+ * @param {Weights} weights - How much each feature counts.
+ * @returns {number} - The value of the board, higher is better.
+ */
+const evaluate = (grid: GridCell[][], lines: number, weights: Weights): number => {
+    const measured = features(grid, lines);
+    return (Object.keys(weights) as (keyof Features)[])
+        .reduce((sum, feature) => sum + weights[feature] * measured[feature], 0);
+}
+
+/**
+ * @typedef Route
+ * @type {object}
+ * @property {Action[]} inputs - The inputs that place the piece.
+ * @property {Tetromino} tetromino - The piece at its landing position.
+ * @property {State} state - The state once the piece has locked.
+ */
+type Route = Readonly<{ inputs: ReadonlyArray<Action>, tetromino: Tetromino, state: State }>;
+
+/**
+ * Slide the current Tetromino one cell at a time until it is blocked.
+ * @param {State} s - The state to slide from.
+ * @param {Direction} direction - The direction to slide in.
+ * @returns {State[]} - The state after each cell, nearest first.
+ */
+const slide = (s: State, direction: Direction): State[] => {
+    const moved = new Move(direction).apply(s);
+    return moved === s ? [] : [moved, ...slide(moved, direction)];
+}
+
+/**
+ * Wait out the line clear and entry delays after a lock, so that the next Tetromino can be placed.
+ * @param {State} s - The state after a lock.
+ * @returns {State} - The state once the next Tetromino has taken over, or the game has ended.
+ */
+const skipDelays = (s: State): State =>
+    s.phase === Phase.CLEARING || s.phase === Phase.ENTRY ? skipDelays(new GameFlow().apply(s)) : s;
+
+/**
+ * List every placement of the current Tetromino reachable by rotating, shifting and hard dropping.
+ * Placements reached by several routes are listed once.
+ * @param {State} s - The current state of the game.
+ * @param {Action[]} prefix - Inputs already applied to reach the state, e.g. a hold.
+ * @returns {Route[]} - The placements.
+ */
+const routes = (s: State, prefix: ReadonlyArray<Action>): Route[] => {
+    const turns = TURNS.slice(0, s.currentTetromino.shapes.length);
+    const candidates = turns.flatMap(turn => {
+        const turned = turn === null ? s : new Rotate(turn).apply(s);
+        if (turned === s && turn !== null) return [];
+        const rotation: ReadonlyArray<Action> = turn === null ? [] : [new Rotate(turn)];
+        const shifts = (direction: Direction) => slide(turned, direction)
+            .map((state, i) => ({state, inputs: rotation.concat(new Move(direction, i + 1))}));
+        return [{state: turned, inputs: rotation}, ...shifts(Direction.LEFT), ...shifts(Direction.RIGHT)];
+    });
+
+    const seen = new Set<string>();
+    return candidates.flatMap(({state, inputs}) => {
+        const tetromino = ghostTetromino(state);
+        const key = `${tetromino.rotation},${tetromino.position.x},${tetromino.position.y}`;
+        if (seen.has(key)) return [];
+        seen.add(key);
+        return [{
+            inputs: [...prefix, ...inputs, new Drop()],
+            tetromino,
+            state: skipDelays(new Drop().apply(state))
+        }];
+    });
+}
+
+/**
+ * List the placements of the current Tetromino, and of the one hold would bring in if hold is allowed.
+ * @param {State} s - The current state of the game.
+ * @param {BotConfig} config - The bot settings.
+ * @returns {Route[]} - The placements.
+ */
+const routesWithHold = (s: State, config: BotConfig): Route[] => {
+    const held = config.hold ? new Hold().apply(s) : s;
+    return held === s ? routes(s, []) : routes(s, []).concat(routes(held, [new Hold()]));
+}
+
+/**
+ * Find the value of the best board reachable from a state within a number of pieces.
+ * @param {State} s - The state to search from.
+ * @param {State} root - The state the search started from, to count the lines cleared since.
+ * @param {BotConfig} config - The bot settings.
+ * @param {number} depth - The number of pieces left to place.
+ * @returns {number} - The value of the best board, -Infinity if every placement loses.
+ */
+const search = (s: State, root: State, config: BotConfig, depth: number): number => {
+    if (s.phase === Phase.GAME_OVER && !s.completed) return -Infinity;
+    if (depth <= 0 || s.phase !== Phase.PLAYING)
+        return evaluate(s.grid, s.rowsCleared - root.rowsCleared, config.weights);
+    return routesWithHold(s, config)
+        .reduce((best, route) => Math.max(best, search(route.state, root, config, depth - 1)), -Infinity);
+}
+
+/**
+ * Pick the best placement for the current Tetromino. Ties go to the placement found first.
+ * @param {State} s - The current state of the game.
+ * @param {BotConfig} config - The bot settings.
+ * @returns {(Placement|null)} - The best placement, or null if the game is not being played.
+ */
+const bestPlacement = (s: State, config: BotConfig = defaultBotConfig): Placement | null => {
+    if (s.phase !== Phase.PLAYING) return null;
+    return routesWithHold(s, config).reduce<Placement | null>((best, route) => {
+        const score = search(route.state, s, config, config.depth - 1);
+        return best && best.score >= score ? best : {
+            tetromino: route.tetromino,
+            hold: route.inputs[0] instanceof Hold,
+            inputs: route.inputs,
+            score
+        };
+    }, null);
+}
+
+/**
+ * The inputs the bot plays next: those of its best placement, or none when the game is not being played.
+ * @param {State} s - The current state of the game.
+ * @param {BotConfig} config - The bot settings.
+ * @returns {Action[]} - The inputs, ending with a hard drop.
+ */
+const botInputs = (s: State, config: BotConfig = defaultBotConfig): ReadonlyArray<Action> =>
+    bestPlacement(s, config)?.inputs ?? [];
+
+/**
+ * Play a whole move for the bot.
+ * @param {State} s - The current state of the game.
+ * @param {BotConfig} config - The bot settings.
+ * @returns {State} - The state once the piece has locked.
+ */
+const botMove = (s: State, config: BotConfig = defaultBotConfig): State =>
+    botInputs(s, config).reduce(reduceState, s);
+
+export {defaultWeights, defaultBotConfig, columnHeights, features, evaluate, bestPlacement, botInputs, botMove}
+export type {BotMode, Features, Weights, BotConfig, Placement}
@@ -0,0 +1,137 @@
+/** Game configuration */
+import {
+    Constants,
+    I_TETROMINO,
+    J_TETROMINO,
+    L_TETROMINO,
+    LockDelay,
+    LockReset,
+    O_TETROMINO,
+    S_TETROMINO,
+    T_TETROMINO,
+    Tetromino,
+    Z_TETROMINO
+} from "./types.ts";
+import {Randomizer} from "./randomizer.ts";
+import {RotationSystem} from "./rotation.ts";
+import {GUIDELINE_SCORING, ScoringTable} from "./scoring.ts";
+import {AttackTable, DEFAULT_DIG, DigConfig, GUIDELINE_ATTACK} from "./garbage.ts";
+import type {ModeId} from "./modes.ts";
+
+/**
+ * @typedef GameConfig
+ * @type {object}
+ * @property {ModeId} mode - The game mode: goal, end condition and level curve.
+ * @property {number} width - The number of columns of the board.
+ * @property {number} height - The number of visible rows of the board.
+ * @property {number} hiddenRows - The number of rows above the visible board that pieces spawn into.
+ * @property {{ x: number, y: number }} spawn - The left column of the four-wide spawn area, and the spawn row
+ * counted from the top hidden row.
+ * @property {number[]} gravity - The number of ticks per row for each level, starting at level 1.
+ * The last entry applies to every level past the end of the table.
+ * @property {Tetromino[]} pieces - The piece set the randomizer draws from.
+ * @property {number} previewLength - The number of upcoming pieces shown, from 0 to 6.
+ * @property {ScoringTable} scoring - The points awarded for clears and drops.
+ * @property {AttackTable} attack - The garbage lines sent by clears, in versus games.
+ * @property {DigConfig} dig - The cheese dig games start with, and how often more rises.
+ * @property {Randomizer} randomizer - The algorithm used to pick the next piece.
+ * @property {RotationSystem} rotationSystem - The rules used to rotate and kick pieces.
+ * @property {LockDelay} lockDelay - How long a grounded piece waits before locking, and what resets the wait.
+ * @property {number} readyTicks - The length of the countdown before play starts or resumes, in ticks. 0 skips it.
+ * @property {number} clearDelay - How long cleared rows stay on the board after a lock, in ticks. 0 skips it.
+ * @property {number} entryDelay - How long the next piece waits to appear after a lock or a clear, in ticks. 0 skips it.
+ * @property {number} blockSize - The size of a cell on screen, in pixels.
+ */
+type GameConfig = Readonly<{
+    mode: ModeId,
+    width: number,
+    height: number,
+    hiddenRows: number,
+    spawn: Readonly<{ x: number, y: number }>,
+    gravity: ReadonlyArray<number>,
+    pieces: ReadonlyArray<Tetromino>,
+    previewLength: number,
+    scoring: ScoringTable,
+    attack: AttackTable,
+    dig: DigConfig,
+    randomizer: Randomizer,
+    rotationSystem: RotationSystem,
+    lockDelay: LockDelay,
+    readyTicks: number,
+    clearDelay: number,
+    entryDelay: number,
+    blockSize: number
+}>;
+
+/**
+ * The standard 10x20 game.
+ * @constant {GameConfig}
+ */
+const defaultConfig: GameConfig = {
+    mode: "endless",
+    width: 10,
+    height: 20,
+    hiddenRows: 2,
+    spawn: {x: 3, y: 1},
+    gravity: [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+    pieces: [O_TETROMINO, S_TETROMINO, L_TETROMINO, Z_TETROMINO, J_TETROMINO, I_TETROMINO, T_TETROMINO],
+    previewLength: 5,
+    scoring: GUIDELINE_SCORING,
+    attack: GUIDELINE_ATTACK,
+    dig: DEFAULT_DIG,
+    randomizer: Randomizer.BAG,
+    rotationSystem: RotationSystem.SRS,
+    lockDelay: {
+        ticks: Constants.LOCK_DELAY_TICKS,
+        resetLimit: Constants.LOCK_RESET_LIMIT,
+        reset: LockReset.MOVE
+    },
+    readyTicks: Constants.READY_TICKS,
+    clearDelay: Constants.CLEAR_DELAY_TICKS,
+    entryDelay: Constants.ENTRY_DELAY_TICKS,
+    blockSize: 20
+};
+
+/** The longest next queue that can be shown */
+const MAX_PREVIEW_LENGTH = 6;
+
+/**
+ * Create a game config from the default one.
+ * @param {Partial<GameConfig>} overrides - The settings that differ from the default.
+ * @returns {GameConfig} - The game config.
+ */
+const createConfig = (overrides: Partial<GameConfig> = {}): GameConfig => {
+    const config = {...defaultConfig, ...overrides};
+    return {
+        ...config,
+        previewLength: Math.max(0, Math.min(config.previewLength, MAX_PREVIEW_LENGTH))
+    };
+};
+
+/**
+ * Look up the number of ticks per row at a level.
+ * @param {GameConfig} config - The game config.
+ * @param {number} level - The level, starting at 1.
+ * @returns {number} - The number of ticks between two gravity steps.
+ */
+const gravityFor = (config: GameConfig, level: number): number =>
+    config.gravity[Math.min(Math.max(level, 1), config.gravity.length) - 1];
+
+/**
+ * Move a Tetromino to the spawn position, in its spawn orientation.
+ * Pieces are centred in the four columns starting at the spawn position, rounding to the left.
+ * @param {GameConfig} config - The game config.
+ * @param {Tetromino} tetromino - The Tetromino to spawn.
+ * @returns {Tetromino} - The spawned Tetromino.
+ */
+const spawnTetromino = (config: GameConfig, tetromino: Tetromino): Tetromino => ({
+    ...tetromino,
+    rotation: 0,
+    position: {
+        x: config.spawn.x + Math.floor((4 - tetromino.shapes[0][0].length) / 2),
+        y: config.spawn.y
+    }
+});
+
+export {MAX_PREVIEW_LENGTH, defaultConfig, createConfig, gravityFor, spawnTetromino}
+export type {GameConfig}
@@ -0,0 +1,73 @@
+/**
+ * Headless game engine. Nothing here touches the DOM, so bots, tests, replays and servers
+ * can run games in Node exactly as the browser does.
+ */
+import {Action} from "./types.ts";
+import {createInitialState, GameFlow, reduceState, State} from "./state.ts";
+import {defaultConfig, GameConfig} from "./config.ts";
+
+/**
+ * @typedef Game
+ * @type {object}
+ * @property {function(Action[]): State} step - Apply the inputs of a tick, then let the tick pass.
+ * @property {function(): State} getState - The current state of the game.
+ */
+type Game = Readonly<{
+    step: (inputs?: ReadonlyArray<Action>) => State,
+    getState: () => State
+}>;
+
+/**
+ * Play one tick: apply the inputs in order, then let gravity and the lock delay run.
+ * Inputs on a tick go before the tick itself, as they do in replays.
+ * @param {State} s - The current state of the game.
+ * @param {Action[]} inputs - The inputs of the tick.
+ * @returns {State} - The state after the tick.
+ */
+const stepState = (s: State, inputs: ReadonlyArray<Action> = []): State =>
+    reduceState(inputs.reduce(reduceState, s), new GameFlow());
+
+/**
+ * Start a game. The same config, seed and inputs always play out the same way.
+ * @param {GameConfig} config - The rules of the game.
+ * @param {number} seed - The seed of the piece generator.
+ * @returns {Game} - The running game.
+ */
+const createGame = (config: GameConfig = defaultConfig, seed: number = 0): Game => {
+    let state = createInitialState(seed, config);
+    return {
+        step: (inputs = []) => state = stepState(state, inputs),
+        getState: () => state
+    };
+}
+
+export {createGame, stepState}
+export type {Game}
+
+// The rules and actions, so that consumers of the engine need no other import
+export {
+    createInitialState,
+    reduceState,
+    ghostTetromino,
+    Move,
+    Rotate,
+    Drop,
+    Down,
+    SoftDrop,
+    Hold,
+    GameFlow,
+    Pause,
+    TogglePause,
+    Restart,
+    ReceiveGarbage
+} from "./state.ts";
+export type {State, GameEvent} from "./state.ts";
+export {createConfig, defaultConfig} from "./config.ts";
+export type {GameConfig} from "./config.ts";
+export {MODES, modeOf} from "./modes.ts";
+export type {ModeId, GameMode} from "./modes.ts";
+export {Direction} from "./util.ts";
+export {Turn, RotationSystem} from "./rotation.ts";
+export {Randomizer} from "./randomizer.ts";
+export {Phase, LockReset} from "./types.ts";
+export type {Action} from "./types.ts";
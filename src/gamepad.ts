@@ -0,0 +1,219 @@
+/** Gamepad input: button bindings and polling */
+import {Action} from "./types.ts";
+import {Control, frame, Handling, initialInput, InputState, press, release, releaseAll} from "./input.ts";
+
+/**
+ * The parts of a `Gamepad` that are read, so that tests can use a plain object.
+ * @typedef GamepadLike
+ * @type {object}
+ * @property {string} id - The name of the controller, the same every time it is plugged in.
+ * @property {number} index - The slot the controller is connected in.
+ * @property {{pressed: boolean}[]} buttons - The buttons, in the standard mapping where there is one.
+ * @property {number[]} axes - The analog sticks, from -1 to 1.
+ */
+type GamepadLike = Readonly<{
+    id: string,
+    index: number,
+    buttons: ReadonlyArray<Readonly<{ pressed: boolean }>>,
+    axes: ReadonlyArray<number>
+}>;
+
+/**
+ * The buttons bound to each control, by index in the standard mapping.
+ * @typedef ButtonBindings
+ * @type {Record<Control, number[]>}
+ */
+type ButtonBindings = Readonly<Record<Control, ReadonlyArray<number>>>;
+
+/**
+ * Buttons of the standard mapping.
+ * @enum
+ * @readonly
+ */
+enum Button {
+    A = 0,
+    B = 1,
+    X = 2,
+    Y = 3,
+    LB = 4,
+    RB = 5,
+    LT = 6,
+    RT = 7,
+    SELECT = 8,
+    START = 9,
+    L3 = 10,
+    R3 = 11,
+    UP = 12,
+    DOWN = 13,
+    LEFT = 14,
+    RIGHT = 15
+}
+
+/**
+ * The buttons used until the player remaps a controller.
+ * @constant {ButtonBindings}
+ */
+const defaultButtonBindings: ButtonBindings = {
+    left: [Button.LEFT],
+    right: [Button.RIGHT],
+    softDrop: [Button.DOWN],
+    hardDrop: [Button.UP],
+    rotateClockwise: [Button.B],
+    rotateCounterClockwise: [Button.A, Button.X],
+    rotateHalf: [Button.Y],
+    hold: [Button.LB, Button.RB],
+    pause: [Button.START],
+    restart: [Button.SELECT],
+    mute: [],
+    readout: []
+};
+
+/** How far a stick is pushed before it counts as the D-pad */
+const STICK_THRESHOLD = 0.5;
+
+/**
+ * List the buttons held down on a controller. The left stick counts as the D-pad.
+ * @param {GamepadLike} pad - The controller.
+ * @returns {number[]} - The indices of the buttons held.
+ */
+const pressedButtons = (pad: GamepadLike): number[] => {
+    const [x = 0, y = 0] = pad.axes;
+    const stick = [
+        x < -STICK_THRESHOLD ? Button.LEFT : null,
+        x > STICK_THRESHOLD ? Button.RIGHT : null,
+        y < -STICK_THRESHOLD ? Button.UP : null,
+        y > STICK_THRESHOLD ? Button.DOWN : null
+    ].filter((button): button is Button => button !== null);
+    const buttons = pad.buttons.flatMap((button, i) => button.pressed ? [i] : []);
+    return [...new Set(buttons.concat(stick))];
+}
+
+/**
+ * List the controls held down on a controller.
+ * @param {GamepadLike} pad - The controller.
+ * @param {ButtonBindings} bindings - The button bindings of the controller.
+ * @returns {Control[]} - The controls held.
+ */
+const pressedControls = (pad: GamepadLike, bindings: ButtonBindings): Control[] =>
+    controlsOf(pressedButtons(pad), bindings);
+
+/**
+ * List the controls some buttons are bound to.
+ * @param {number[]} buttons - The buttons.
+ * @param {ButtonBindings} bindings - The button bindings of the controller.
+ * @returns {Control[]} - The controls.
+ */
+const controlsOf = (buttons: ReadonlyArray<number>, bindings: ButtonBindings): Control[] =>
+    (Object.keys(bindings) as Control[]).filter(control => bindings[control].some(b => buttons.includes(b)));
+
+/**
+ * @typedef PadState
+ * @type {object}
+ * @property {InputState} input - The input state of the controller, for DAS and ARR.
+ * @property {Control[]} pressed - The controls held at the last poll.
+ * @property {number[]} ignored - The buttons held while a button was being rebound, ignored until they are let go.
+ */
+type PadState = Readonly<{
+    input: InputState,
+    pressed: ReadonlyArray<Control>,
+    ignored: ReadonlyArray<number>
+}>;
+
+const initialPad: PadState = {input: initialInput, pressed: [], ignored: []};
+
+/**
+ * Poll one controller: press and release the controls that changed since the last poll, then auto repeat.
+ * While a button is being rebound, the buttons held are ignored until they are let go, so that the press
+ * taken by the rebinding does not reach the game.
+ * @param {PadState} state - The state of the controller at the last poll.
+ * @param {GamepadLike} pad - The controller.
+ * @param {ButtonBindings} bindings - The button bindings of the controller.
+ * @param {number} time - The current time, in milliseconds.
+ * @param {Handling} handling - The player's handling settings.
+ * @param {boolean} rebinding - Whether a button is being rebound.
+ * @returns {{pad: PadState, actions: Action[]}} - The new state of the controller and the actions to apply.
+ */
+const pollPad = (
+    state: PadState,
+    pad: GamepadLike,
+    bindings: ButtonBindings,
+    time: number,
+    handling: Handling,
+    rebinding: boolean = false
+) => {
+    const buttons = pressedButtons(pad);
+    const ignored = rebinding ? buttons : state.ignored.filter(button => buttons.includes(button));
+    const pressed = controlsOf(buttons.filter(button => !ignored.includes(button)), bindings);
+    const released = state.pressed.filter(control => !pressed.includes(control));
+    const changed = [
+        ...released.map(control => (input: InputState) => release(input, control, time)),
+        ...pressed.filter(control => !state.pressed.includes(control))
+            .map(control => (input: InputState) => press(input, control, time, handling)),
+        (input: InputState) => frame(input, time, handling)
+    ].reduce<{ input: InputState, actions: ReadonlyArray<Action> }>((r, step) => {
+        const next = step(r.input);
+        return {input: next.input, actions: r.actions.concat(next.actions)};
+    }, {input: state.input, actions: []});
+    return {pad: {input: changed.input, pressed, ignored}, actions: changed.actions};
+}
+
+/**
+ * Poll every connected controller. Controllers unplugged since the last poll have their controls released.
+ * @param {Record<number, PadState>} states - The state of each controller at the last poll, by slot.
+ * @param {(GamepadLike|null)[]} pads - The connected controllers, as `navigator.getGamepads()` lists them.
+ * @param {function(string): ButtonBindings} bindingsFor - Look up the bindings of a controller by its id.
+ * @param {number} time - The current time, in milliseconds.
+ * @param {Handling} handling - The player's handling settings.
+ * @param {boolean} rebinding - Whether a button is being rebound, see {@link pollPad}.
+ * @returns {{pads: Record<number, PadState>, actions: Action[]}} - The new state of each controller and the actions to apply.
+ */
+const pollGamepads = (
+    states: Readonly<Record<number, PadState>>,
+    pads: ReadonlyArray<GamepadLike | null>,
+    bindingsFor: (id: string) => ButtonBindings,
+    time: number,
+    handling: Handling,
+    rebinding: boolean = false
+) => {
+    const connected = pads.filter((pad): pad is GamepadLike => pad !== null);
+    const unplugged = Object.keys(states).map(Number).filter(index => !connected.some(pad => pad.index === index));
+    const polled = connected.map(pad => ({
+        index: pad.index,
+        ...pollPad(states[pad.index] ?? initialPad, pad, bindingsFor(pad.id), time, handling, rebinding)
+    }));
+    return {
+        pads: Object.fromEntries(polled.map(({index, pad}) => [index, pad])) as Record<number, PadState>,
+        actions: [
+            ...unplugged.flatMap(index => releaseAll(states[index].input).actions),
+            ...polled.flatMap(({actions}) => actions)
+        ]
+    };
+}
+
+/**
+ * Find the buttons pressed since the last poll, for rebinding.
+ * @param {Record<number, number[]>} previous - The buttons held at the last poll, by slot.
+ * @param {(GamepadLike|null)[]} pads - The connected controllers.
+ * @returns {{held: Record<number, number[]>, presses: {id: string, button: number}[]}} - The buttons held now,
+ * and the buttons newly pressed with the id of their controller.
+ */
+const buttonPresses = (previous: Readonly<Record<number, ReadonlyArray<number>>>, pads: ReadonlyArray<GamepadLike | null>) => {
+    const connected = pads.filter((pad): pad is GamepadLike => pad !== null);
+    const held = connected.map(pad => ({pad, buttons: pressedButtons(pad)}));
+    return {
+        held: Object.fromEntries(held.map(({pad, buttons}) => [pad.index, buttons])) as Record<number, number[]>,
+        presses: held.flatMap(({pad, buttons}) => buttons
+            .filter(button => !(previous[pad.index] ?? []).includes(button))
+            .map(button => ({id: pad.id, button})))
+    };
+}
+
+/**
+ * Name a button for display.
+ * @param {number} button - The index of the button.
+ * @returns {string} - The name of the button.
+ */
+const buttonName = (button: number): string => Button[button] ?? `Button ${button}`;
+
+export {Button, defaultButtonBindings, initialPad, pressedButtons, pressedControls, pollPad, pollGamepads, buttonPresses, buttonName}
+export type {GamepadLike, ButtonBindings, PadState}
@@ -0,0 +1,213 @@
+/** Garbage: the lines a clear sends to the opponent, how they rise into a board, and the cheese dig games start with */
+import {GARBAGE_CELL, GridCell} from "./types.ts";
+import {ClearType, Spin} from "./scoring.ts";
+import {RNG} from "./randomizer.ts";
+
+/**
+ * @typedef AttackTable
+ * @type {object}
+ * @property {number[]} lines - Lines sent for clearing 0-4 lines without a spin.
+ * @property {number[]} tSpin - Lines sent for a T-spin clearing 0-3 lines.
+ * @property {number[]} miniTSpin - Lines sent for a mini T-spin clearing 0-2 lines.
+ * @property {number} backToBack - Extra lines sent by a back-to-back clear.
+ * @property {number[]} combo - Extra lines sent at each combo count. The last entry applies to longer combos.
+ * @property {number} perfectClear - Extra lines sent by a perfect clear.
+ */
+type AttackTable = Readonly<{
+    lines: ReadonlyArray<number>,
+    tSpin: ReadonlyArray<number>,
+    miniTSpin: ReadonlyArray<number>,
+    backToBack: number,
+    combo: ReadonlyArray<number>,
+    perfectClear: number
+}>;
+
+/**
+ * Guideline attack table.
+ * @constant {AttackTable}
+ */
+const GUIDELINE_ATTACK: AttackTable = {
+    lines: [0, 0, 1, 2, 4],
+    tSpin: [0, 2, 4, 6],
+    miniTSpin: [0, 0, 1],
+    backToBack: 1,
+    combo: [0, 0, 1, 1, 1, 2, 2, 3, 3, 4, 4, 4, 5],
+    perfectClear: 10
+};
+
+/**
+ * @typedef GarbageBatch
+ * @type {object}
+ * @property {number} lines - The number of garbage rows.
+ * @property {number} hole - The empty column of every row of the batch.
+ */
+type GarbageBatch = Readonly<{ lines: number, hole: number }>;
+
+/**
+ * How the holes of cheese rows are laid out.
+ * "clean" rows share their holes, so that they can be cleared down a single well;
+ * "messy" rows each get new holes, never right above those of the row below.
+ * @typedef CheeseStyle
+ * @type {"clean"|"messy"}
+ */
+type CheeseStyle = "clean" | "messy";
+
+/**
+ * @typedef DigConfig
+ * @type {object}
+ * @property {number} rows - The number of cheese rows a dig game starts with.
+ * @property {number} holes - The number of holes in each cheese row.
+ * @property {CheeseStyle} style - How the holes are laid out.
+ * @property {number} riseTicks - The number of ticks between two rows of garbage rising during play, 0 for none.
+ */
+type DigConfig = Readonly<{
+    rows: number,
+    holes: number,
+    style: CheeseStyle,
+    riseTicks: number
+}>;
+
+/**
+ * Ten rows of messy single-hole cheese, with nothing rising.
+ * @constant {DigConfig}
+ */
+const DEFAULT_DIG: DigConfig = {rows: 10, holes: 1, style: "messy", riseTicks: 0};
+
+/**
+ * Work out the number of lines a lock sends.
+ * @param {AttackTable} table - The attack table.
+ * @param {ClearType} clear - The clear type of the lock.
+ * @returns {number} - The number of garbage lines sent.
+ */
+const attackFor = (table: AttackTable, clear: ClearType): number => {
+    if (clear.rowsCleared === 0) return 0;
+    const base = clear.spin === Spin.FULL ? table.tSpin[clear.rowsCleared]
+        : clear.spin === Spin.MINI ? table.miniTSpin[clear.rowsCleared]
+            : table.lines[clear.rowsCleared];
+    return base
+        + (clear.backToBack ? table.backToBack : 0)
+        + table.combo[Math.min(Math.max(clear.combo, 0), table.combo.length - 1)]
+        + (clear.perfectClear ? table.perfectClear : 0);
+}
+
+/**
+ * Count the garbage rows waiting to rise.
+ * @param {GarbageBatch[]} batches - The garbage waiting.
+ * @returns {number} - The number of rows.
+ */
+const garbageLines = (batches: ReadonlyArray<GarbageBatch>): number =>
+    batches.reduce((sum, batch) => sum + batch.lines, 0);
+
+/**
+ * Use an attack to cancel the garbage waiting, oldest first.
+ * @param {GarbageBatch[]} pending - The garbage waiting to rise.
+ * @param {number} attack - The number of lines the lock sends.
+ * @returns {{pending: GarbageBatch[], attack: number}} - The garbage left waiting, and the lines left to send.
+ */
+const cancelGarbage = (
+    pending: ReadonlyArray<GarbageBatch>,
+    attack: number
+): { pending: ReadonlyArray<GarbageBatch>, attack: number } => {
+    const [first, ...rest] = pending;
+    if (!first || attack === 0) return {pending, attack};
+    return first.lines > attack
+        ? {pending: [{...first, lines: first.lines - attack}, ...rest], attack: 0}
+        : cancelGarbage(rest, attack - first.lines);
+}
+
+/**
+ * Build a garbage row.
+ * @param {number} width - The number of columns.
+ * @param {number[]} holes - The empty columns.
+ * @returns {GridCell[]} - The row.
+ */
+const garbageRow = (width: number, holes: ReadonlyArray<number>): GridCell[] =>
+    Array.from({length: width}, (_, x) => holes.includes(x) ? null : GARBAGE_CELL);
+
+/**
+ * Check whether a row holds garbage.
+ * @param {GridCell[]} row - The row.
+ * @returns {boolean} - True if any of its cells is garbage.
+ */
+const isGarbageRow = (row: ReadonlyArray<GridCell>): boolean => row.includes(GARBAGE_CELL);
+
+/**
+ * Count the rows of a grid that hold garbage.
+ * @param {GridCell[][]} grid - The grid.
+ * @returns {number} - The number of garbage rows.
+ */
+const garbageRows = (grid: GridCell[][]): number => grid.filter(isGarbageRow).length;
+
+/**
+ * Raise rows from the bottom of a grid, pushing the stack up.
+ * @param {GridCell[][]} grid - The grid.
+ * @param {GridCell[][]} rows - The rows, top first.
+ * @returns {{grid: GridCell[][], overflow: boolean}} - The new grid, and whether any of the stack was pushed off the top.
+ */
+const raiseRows = (grid: GridCell[][], rows: GridCell[][]) => {
+    const count = Math.min(rows.length, grid.length);
+    return {
+        grid: grid.slice(count).concat(rows.slice(rows.length - count)),
+        overflow: grid.slice(0, count).some(row => row.some(cell => cell !== null))
+    };
+}
+
+/**
+ * Raise garbage rows from the bottom of a grid, pushing the stack up.
+ * @param {GridCell[][]} grid - The grid.
+ * @param {GarbageBatch[]} batches - The garbage, the first batch rising first.
+ * @returns {{grid: GridCell[][], overflow: boolean}} - The new grid, and whether any of the stack was pushed off the top.
+ */
+const insertGarbage = (grid: GridCell[][], batches: ReadonlyArray<GarbageBatch>) =>
+    raiseRows(grid, batches.flatMap(({lines, hole}) =>
+        Array.from({length: lines}, () => garbageRow(grid[0].length, [hole]))));
+
+/**
+ * Pick distinct hole columns, avoiding some columns where there are enough others.
+ * @param {number} seed - The seed.
+ * @param {number} width - The number of columns.
+ * @param {number} count - The number of holes, at most one less than the number of columns.
+ * @param {number[]} avoid - The columns to keep filled if possible.
+ * @returns {{holes: number[], seed: number}} - The holes, and the next seed.
+ */
+const pickHoles = (seed: number, width: number, count: number, avoid: ReadonlyArray<number>) =>
+    Array.from({length: Math.min(Math.max(count, 1), width - 1)}).reduce<{ holes: number[], seed: number }>(acc => {
+        const open = Array.from({length: width}, (_, x) => x).filter(x => !acc.holes.includes(x));
+        const preferred = open.filter(x => !avoid.includes(x));
+        const choices = preferred.length ? preferred : open;
+        const {value, seed} = RNG.randomInt(acc.seed, 0, choices.length - 1);
+        return {holes: acc.holes.concat(choices[value]), seed};
+    }, {holes: [], seed});
+
+/**
+ * Generate rows of cheese from the bottom up.
+ * @param {number} seed - The seed.
+ * @param {number} width - The number of columns.
+ * @param {number} count - The number of rows.
+ * @param {DigConfig} dig - The number of holes per row and how they are laid out.
+ * @param {number[]} below - The holes of the row the new rows go on top of, if any.
+ * @returns {{rows: GridCell[][], holes: number[], seed: number}} - The rows, top first, the holes of the top row,
+ * and the next seed.
+ */
+const generateCheese = (seed: number, width: number, count: number, dig: DigConfig, below: ReadonlyArray<number> = []) =>
+    Array.from({length: count}).reduce<{ rows: GridCell[][], holes: ReadonlyArray<number>, seed: number }>(acc => {
+        const picked = dig.style === "clean" && acc.holes.length
+            ? {holes: acc.holes, seed: acc.seed}
+            : pickHoles(acc.seed, width, dig.holes, dig.style === "messy" ? acc.holes : []);
+        return {rows: [garbageRow(width, picked.holes), ...acc.rows], holes: picked.holes, seed: picked.seed};
+    }, {rows: [], holes: below, seed});
+
+export {
+    GUIDELINE_ATTACK,
+    GARBAGE_CELL,
+    DEFAULT_DIG,
+    attackFor,
+    garbageLines,
+    cancelGarbage,
+    isGarbageRow,
+    garbageRows,
+    raiseRows,
+    insertGarbage,
+    generateCheese
+}
+export type {AttackTable, GarbageBatch, CheeseStyle, DigConfig}
@@ -0,0 +1,327 @@
+/** Keyboard input: bindings, Delayed Auto Shift and Auto Repeat */
+import {Action, Key} from "./types.ts";
+import {Drop, Hold, Move, Restart, Rotate, SoftDrop, TogglePause} from "./state.ts";
+import {Direction} from "./util.ts";
+import {Turn} from "./rotation.ts";
+
+/**
+ * Something the player can do with a key.
+ * @typedef Control
+ * @type {"left"|"right"|"softDrop"|"hardDrop"|"rotateClockwise"|"rotateCounterClockwise"|"rotateHalf"|"hold"|"pause"|"restart"|"mute"|"readout"}
+ */
+type Control =
+    | "left"
+    | "right"
+    | "softDrop"
+    | "hardDrop"
+    | "rotateClockwise"
+    | "rotateCounterClockwise"
+    | "rotateHalf"
+    | "hold"
+    | "pause"
+    | "restart"
+    | "mute"
+    | "readout";
+
+/**
+ * The keys bound to each control. A control can have any number of keys.
+ * @typedef Bindings
+ * @type {Record<Control, Key[]>}
+ */
+type Bindings = Readonly<Record<Control, ReadonlyArray<Key>>>;
+
+/**
+ * @typedef Handling
+ * @type {object}
+ * @property {number} das - Delayed Auto Shift: how long a direction is held before it repeats, in milliseconds.
+ * @property {number} arr - Auto Repeat Rate: the time between repeated moves, in milliseconds. 0 moves to the wall at once.
+ * @property {number} softDropFactor - How many times faster than gravity soft drop falls.
+ */
+type Handling = Readonly<{
+    das: number,
+    arr: number,
+    softDropFactor: number
+}>;
+
+/**
+ * Every control, in the order they are listed to the player.
+ * @constant {Record<Control, string>}
+ */
+const CONTROL_NAMES: Readonly<Record<Control, string>> = {
+    left: "Left",
+    right: "Right",
+    softDrop: "Soft drop",
+    hardDrop: "Hard drop",
+    rotateClockwise: "Rotate right",
+    rotateCounterClockwise: "Rotate left",
+    rotateHalf: "Rotate 180",
+    hold: "Hold",
+    pause: "Pause",
+    restart: "Restart",
+    mute: "Mute",
+    readout: "Read board"
+};
+
+/**
+ * The keys used until the player remaps them.
+ * @constant {Bindings}
+ */
+const defaultBindings: Bindings = {
+    left: ["KeyA", "ArrowLeft"],
+    right: ["KeyD", "ArrowRight"],
+    softDrop: ["KeyS", "ArrowDown"],
+    hardDrop: ["Space"],
+    rotateClockwise: ["KeyW", "ArrowUp", "KeyX"],
+    rotateCounterClockwise: ["KeyQ", "KeyZ"],
+    rotateHalf: ["KeyE"],
+    hold: ["KeyC", "ShiftLeft"],
+    pause: ["KeyP"],
+    restart: ["KeyR", "Enter"],
+    mute: ["KeyM"],
+    readout: ["KeyB"]
+};
+
+/**
+ * The keys of each player when two share a keyboard. Only the first player pauses, restarts, mutes and
+ * reads the board out, since those act on the whole match.
+ * @constant {Bindings[]}
+ */
+const versusBindings: readonly [Bindings, Bindings] = [
+    {
+        left: ["KeyA"],
+        right: ["KeyD"],
+        softDrop: ["KeyS"],
+        hardDrop: ["KeyW"],
+        rotateClockwise: ["KeyE"],
+        rotateCounterClockwise: ["KeyQ"],
+        rotateHalf: ["KeyF"],
+        hold: ["ShiftLeft", "KeyC"],
+        pause: ["KeyP"],
+        restart: ["Enter"],
+        mute: ["KeyM"],
+        readout: ["KeyB"]
+    },
+    {
+        left: ["ArrowLeft"],
+        right: ["ArrowRight"],
+        softDrop: ["ArrowDown"],
+        hardDrop: ["ArrowUp"],
+        rotateClockwise: ["Period"],
+        rotateCounterClockwise: ["Comma"],
+        rotateHalf: ["Slash"],
+        hold: ["ShiftRight"],
+        pause: [],
+        restart: [],
+        mute: [],
+        readout: []
+    }
+];
+
+/**
+ * The handling used until the player changes it.
+ * @constant {Handling}
+ */
+const defaultHandling: Handling = {
+    das: 167,
+    arr: 33,
+    softDropFactor: 20
+};
+
+/** The distance of a move that goes all the way to the wall. Kept finite so that it survives JSON. */
+const SHIFT_TO_WALL = Number.MAX_SAFE_INTEGER;
+
+/**
+ * @typedef Shift
+ * @type {object}
+ * @property {Direction} direction - The direction being held.
+ * @property {number} since - When the direction was pressed.
+ * @property {number} repeats - The number of repeated moves already made.
+ */
+type Shift = Readonly<{
+    direction: Direction,
+    since: number,
+    repeats: number
+}>;
+
+/**
+ * @typedef InputState
+ * @type {object}
+ * @property {Control[]} held - The controls held down, pressed most recently last.
+ * @property {(Shift|null)} shift - The horizontal direction being auto shifted, null if none is held.
+ */
+type InputState = Readonly<{
+    held: ReadonlyArray<Control>,
+    shift: Shift | null
+}>;
+
+/**
+ * @typedef InputResult
+ * @type {object}
+ * @property {InputState} input - The new input state.
+ * @property {Action[]} actions - The game actions to apply, in order.
+ */
+type InputResult = Readonly<{
+    input: InputState,
+    actions: ReadonlyArray<Action>
+}>;
+
+const initialInput: InputState = {held: [], shift: null};
+
+/**
+ * Find the controls a key is bound to.
+ * @param {Bindings} bindings - The key bindings.
+ * @param {Key} key - The key.
+ * @returns {Control[]} - The controls bound to the key.
+ */
+const controlsFor = (bindings: Bindings, key: Key): Control[] =>
+    (Object.keys(bindings) as Control[]).filter(control => bindings[control].includes(key));
+
+/**
+ * Start shifting in a direction: move once now, and charge DAS from the current time.
+ * @param {Direction} direction - The direction.
+ * @param {number} time - The current time, in milliseconds.
+ * @returns {{shift: Shift, actions: Action[]}} - The new shift and the first move.
+ */
+const startShift = (direction: Direction, time: number) => ({
+    shift: {direction, since: time, repeats: 0},
+    actions: [new Move(direction)]
+});
+
+/** The one-off action of each control that does not repeat. Mute and the board readout act on the page, not the game. */
+const PRESS_ACTIONS: Partial<Record<Control, () => Action>> = {
+    hardDrop: () => new Drop(),
+    rotateClockwise: () => new Rotate(Turn.CLOCKWISE),
+    rotateCounterClockwise: () => new Rotate(Turn.COUNTER_CLOCKWISE),
+    rotateHalf: () => new Rotate(Turn.HALF),
+    hold: () => new Hold(),
+    pause: () => new TogglePause(),
+    restart: () => new Restart()
+};
+
+/**
+ * Handle a control being pressed.
+ * @param {InputState} input - The current input state.
+ * @param {Control} control - The control pressed.
+ * @param {number} time - The current time, in milliseconds.
+ * @param {Handling} handling - The player's handling settings.
+ * @returns {InputResult} - The new input state and the actions to apply.
+ */
+const press = (input: InputState, control: Control, time: number, handling: Handling): InputResult => {
+    if (input.held.includes(control)) return {input, actions: []};
+    const held = input.held.concat(control);
+
+    if (control === "left" || control === "right") {
+        // The last direction pressed wins
+        const {shift, actions} = startShift(control === "left" ? Direction.LEFT : Direction.RIGHT, time);
+        return {input: {held, shift}, actions};
+    }
+    if (control === "softDrop")
+        return {input: {...input, held}, actions: [new SoftDrop(handling.softDropFactor)]};
+
+    const action = PRESS_ACTIONS[control];
+    return {input: {...input, held}, actions: action ? [action()] : []};
+}
+
+/**
+ * Handle a control being released.
+ * @param {InputState} input - The current input state.
+ * @param {Control} control - The control released.
+ * @param {number} time - The current time, in milliseconds.
+ * @returns {InputResult} - The new input state and the actions to apply.
+ */
+const release = (input: InputState, control: Control, time: number): InputResult => {
+    if (!input.held.includes(control)) return {input, actions: []};
+    const held = input.held.filter(c => c !== control);
+
+    if (control === "softDrop")
+        return {input: {...input, held}, actions: [new SoftDrop(null)]};
+
+    if (control === "left" || control === "right") {
+        const direction = control === "left" ? Direction.LEFT : Direction.RIGHT;
+        if (input.shift?.direction !== direction) return {input: {...input, held}, actions: []};
+        // Fall back to the other direction if it is still held
+        const other = held.filter(c => c === "left" || c === "right").pop();
+        if (!other) return {input: {held, shift: null}, actions: []};
+        const {shift, actions} = startShift(other === "left" ? Direction.LEFT : Direction.RIGHT, time);
+        return {input: {held, shift}, actions};
+    }
+    return {input: {...input, held}, actions: []};
+}
+
+/**
+ * Handle a key going down, pressing every control bound to it.
+ * @param {InputState} input - The current input state.
+ * @param {Bindings} bindings - The key bindings.
+ * @param {Key} key - The key pressed.
+ * @param {number} time - The current time, in milliseconds.
+ * @param {Handling} handling - The player's handling settings.
+ * @returns {InputResult} - The new input state and the actions to apply.
+ */
+const pressKey = (input: InputState, bindings: Bindings, key: Key, time: number, handling: Handling): InputResult =>
+    controlsFor(bindings, key).reduce<InputResult>((r, control) => {
+        const next = press(r.input, control, time, handling);
+        return {input: next.input, actions: r.actions.concat(next.actions)};
+    }, {input, actions: []});
+
+/**
+ * Handle a key going up, releasing every control bound to it.
+ * @param {InputState} input - The current input state.
+ * @param {Bindings} bindings - The key bindings.
+ * @param {Key} key - The key released.
+ * @param {number} time - The current time, in milliseconds.
+ * @returns {InputResult} - The new input state and the actions to apply.
+ */
+const releaseKey = (input: InputState, bindings: Bindings, key: Key, time: number): InputResult =>
+    controlsFor(bindings, key).reduce<InputResult>((r, control) => {
+        const next = release(r.input, control, time);
+        return {input: next.input, actions: r.actions.concat(next.actions)};
+    }, {input, actions: []});
+
+/**
+ * Release every control, e.g. when the page loses focus and key releases would be missed.
+ * @param {InputState} input - The current input state.
+ * @returns {InputResult} - The new input state and the actions to apply.
+ */
+const releaseAll = (input: InputState): InputResult => ({
+    input: initialInput,
+    actions: input.held.includes("softDrop") ? [new SoftDrop(null)] : []
+});
+
+/**
+ * Handle the passing of time: auto repeat the held direction once DAS is charged.
+ * DAS keeps charging whatever the game is doing, so a direction held through a spawn
+ * or a countdown shifts the next piece as soon as it can move.
+ * @param {InputState} input - The current input state.
+ * @param {number} time - The current time, in milliseconds.
+ * @param {Handling} handling - The player's handling settings.
+ * @returns {InputResult} - The new input state and the actions to apply.
+ */
+const frame = (input: InputState, time: number, handling: Handling): InputResult => {
+    const {shift} = input;
+    const charged = shift ? time - shift.since - handling.das : -1;
+    if (!shift || charged < 0) return {input, actions: []};
+
+    if (handling.arr === 0)
+        return {input, actions: [new Move(shift.direction, SHIFT_TO_WALL)]};
+
+    const repeats = Math.floor(charged / handling.arr) + 1;
+    return repeats > shift.repeats
+        ? {input: {...input, shift: {...shift, repeats}}, actions: [new Move(shift.direction, repeats - shift.repeats)]}
+        : {input, actions: []};
+}
+
+export {
+    CONTROL_NAMES,
+    defaultBindings,
+    versusBindings,
+    defaultHandling,
+    initialInput,
+    controlsFor,
+    press,
+    release,
+    pressKey,
+    releaseKey,
+    releaseAll,
+    frame
+}
+export type {Control, Bindings, Handling, InputState, InputResult}
@@ -0,0 +1,181 @@
+/** Local leaderboard */
+import {ModeId, MODES, modeOf} from "./modes.ts";
+import {State} from "./state.ts";
+import {Store} from "./storage.ts";
+
+/**
+ * @typedef LeaderboardEntry
+ * @type {object}
+ * @property {string} name - The name of the player.
+ * @property {number} result - The result the game is ranked by, as measured by its mode.
+ * @property {number} score - The final score.
+ * @property {number} lines - The number of lines cleared.
+ * @property {number} level - The level reached.
+ * @property {number} duration - The length of the game, in ticks.
+ * @property {number} date - When the game ended, in milliseconds since the epoch.
+ */
+type LeaderboardEntry = Readonly<{
+    name: string,
+    result: number,
+    score: number,
+    lines: number,
+    level: number,
+    duration: number,
+    date: number
+}>;
+
+/**
+ * @typedef Leaderboard
+ * @type {object}
+ * @property {number} version - The version of the schema.
+ * @property {Record<ModeId, LeaderboardEntry[]>} entries - The best games of each mode, best first.
+ */
+type Leaderboard = Readonly<{
+    version: number,
+    entries: Readonly<Partial<Record<ModeId, ReadonlyArray<LeaderboardEntry>>>>
+}>;
+
+/**
+ * Upgrade stored data from one schema version to the next.
+ * @callback Migration
+ * @param {object} data - Data in the schema it upgrades from.
+ * @returns {object} - Data in the next schema.
+ */
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * The current version of the schema. Bump it whenever the schema changes, and add a migration from the previous one.
+ * @constant {number}
+ */
+const LEADERBOARD_VERSION = 1;
+
+/**
+ * Migrations keyed by the version they upgrade from.
+ * @constant {Record<number, Migration>}
+ */
+const MIGRATIONS: Record<number, Migration> = {};
+
+/** The number of games kept per mode */
+const LEADERBOARD_SIZE = 10;
+
+/** The key the leaderboard is stored under */
+const LEADERBOARD_KEY = "leaderboard";
+
+/** An empty leaderboard in the current schema */
+const emptyLeaderboard: Leaderboard = {version: LEADERBOARD_VERSION, entries: {}};
+
+/**
+ * Bring stored data up to the current schema.
+ * @param {object} data - The stored data.
+ * @param {Record<number, Migration>} migrations - Migrations keyed by the version they upgrade from.
+ * @returns {(Leaderboard|null)} - The leaderboard, or null if the data cannot be upgraded.
+ */
+const migrate = (data: Record<string, unknown>, migrations: Record<number, Migration>): Leaderboard | null => {
+    const version = data.version;
+    if (typeof version !== "number" || version > LEADERBOARD_VERSION) return null;
+    if (version === LEADERBOARD_VERSION) return data as Leaderboard;
+    const migration = migrations[version];
+    return migration ? migrate(migration(data), migrations) : null;
+}
+
+/**
+ * Load the leaderboard. Missing, corrupt or unreadable data gives an empty leaderboard.
+ * @param {Store} store - Where the leaderboard is kept.
+ * @param {Record<number, Migration>} migrations - Migrations keyed by the version they upgrade from.
+ * @returns {Leaderboard} - The leaderboard, in the current schema.
+ */
+const loadLeaderboard = (store: Store, migrations: Record<number, Migration> = MIGRATIONS): Leaderboard => {
+    const json = store.load(LEADERBOARD_KEY);
+    if (json === null) return emptyLeaderboard;
+    try {
+        const data: unknown = JSON.parse(json);
+        return (typeof data === "object" && data !== null && migrate(data as Record<string, unknown>, migrations))
+            || emptyLeaderboard;
+    } catch {
+        return emptyLeaderboard;
+    }
+}
+
+/**
+ * Save the leaderboard.
+ * @param {Store} store - Where the leaderboard is kept.
+ * @param {Leaderboard} board - The leaderboard.
+ */
+const saveLeaderboard = (store: Store, board: Leaderboard) =>
+    store.save(LEADERBOARD_KEY, JSON.stringify(board));
+
+/**
+ * Describe a finished game for the leaderboard.
+ * @param {State} s - The state of the finished game.
+ * @param {string} name - The name of the player.
+ * @param {number} date - When the game ended, in milliseconds since the epoch.
+ * @returns {(LeaderboardEntry|null)} - The entry, or null if the game has no result in its mode.
+ */
+const entryFor = (s: State, name: string, date: number): LeaderboardEntry | null => {
+    const result = modeOf(s).result(s);
+    return result === null ? null : {
+        name,
+        result,
+        score: s.score,
+        lines: s.rowsCleared,
+        level: s.level,
+        duration: s.ticks,
+        date
+    };
+}
+
+/**
+ * List the best games of a mode.
+ * @param {Leaderboard} board - The leaderboard.
+ * @param {ModeId} mode - The game mode.
+ * @returns {LeaderboardEntry[]} - The entries, best first.
+ */
+const topEntries = (board: Leaderboard, mode: ModeId): ReadonlyArray<LeaderboardEntry> =>
+    board.entries[mode] ?? [];
+
+/**
+ * Find the best result of a mode.
+ * @param {Leaderboard} board - The leaderboard.
+ * @param {ModeId} mode - The game mode.
+ * @returns {(number|null)} - The best result, or null if no game has been recorded.
+ */
+const bestOf = (board: Leaderboard, mode: ModeId): number | null =>
+    topEntries(board, mode)[0]?.result ?? null;
+
+/**
+ * Add a game to the leaderboard, keeping only the best games of its mode.
+ * Ties go to the earlier game.
+ * @param {Leaderboard} board - The leaderboard.
+ * @param {ModeId} mode - The mode the game was played in.
+ * @param {LeaderboardEntry} entry - The game.
+ * @param {number} size - The number of games kept per mode.
+ * @returns {{board: Leaderboard, rank: (number|null)}} - The new leaderboard, and the index of the game in it,
+ * null if it did not make the cut.
+ */
+const addEntry = (board: Leaderboard, mode: ModeId, entry: LeaderboardEntry, size: number = LEADERBOARD_SIZE) => {
+    const better = (a: LeaderboardEntry) =>
+        MODES[mode].lowerIsBetter ? a.result <= entry.result : a.result >= entry.result;
+    const entries = topEntries(board, mode);
+    const index = entries.filter(better).length;
+    const rank = index < size ? index : null;
+    return {
+        board: rank === null ? board : {
+            ...board,
+            entries: {...board.entries, [mode]: [...entries.slice(0, index), entry, ...entries.slice(index)].slice(0, size)}
+        },
+        rank
+    };
+}
+
+export {
+    LEADERBOARD_VERSION,
+    LEADERBOARD_SIZE,
+    emptyLeaderboard,
+    loadLeaderboard,
+    saveLeaderboard,
+    entryFor,
+    topEntries,
+    bestOf,
+    addEntry
+}
+export type {LeaderboardEntry, Leaderboard, Migration}
@@ -1,23 +1,128 @@
 
 import "./style.css";
 
-import {fromEvent, interval, merge} from "rxjs";
-import { map, filter, scan } from "rxjs/operators";
+import {BehaviorSubject, combineLatest, fromEvent, interval, merge, Observable, of, Subject} from "rxjs";
 import {
+    bufferTime,
+    map,
+    filter,
+    mergeMap,
+    pairwise,
+    scan,
+    share,
+    shareReplay,
+    startWith,
+    switchMap,
+    tap,
+    timestamp
+} from "rxjs/operators";
+import {
+    Action,
     Constants,
-    Viewport,
     Key,
+    Viewport,
+    Phase,
 } from "./types.ts";
 import {
     State,
-    initialState,
-    Move,
-    Rotate,
-    Drop,
-    reduceState, moveTetrominoDown, Down, GameFlow, Hold
-} from "./state.ts";
-import {show, hide, renderTetromino, clearSvgCanvas, renderGrid} from "./view.ts";
-import {Direction} from "./util.ts";
+    createInitialState,
+    GameFlow, Pause
+} from "./engine.ts";
+import {
+    show,
+    hide,
+    renderLeaderboard,
+    renderBindings,
+    keyName,
+    applyTheme,
+    renderStats
+} from "./view.ts";
+import {
+    buttonBindingsFor,
+    defaultSettings,
+    loadSettings,
+    saveSettings,
+    Settings,
+    toggleBinding
+} from "./settings.ts";
+import {buttonName, buttonPresses, GamepadLike, PadState, pollGamepads} from "./gamepad.ts";
+import {
+    Bindings,
+    Control,
+    controlsFor,
+    frame,
+    initialInput,
+    InputResult,
+    InputState,
+    press,
+    pressKey,
+    release,
+    releaseAll,
+    releaseKey,
+    versusBindings
+} from "./input.ts";
+import {
+    defaultGestureConfig,
+    Gesture,
+    GestureConfig,
+    GestureResult,
+    initialGesture,
+    touchEnd,
+    touchMove,
+    touchStart,
+    TouchPoint
+} from "./touch.ts";
+import {createConfig, defaultConfig} from "./config.ts";
+import {formatTicks, ModeId, MODES, modeOf} from "./modes.ts";
+import {LocalStore} from "./storage.ts";
+import {
+    addEntry,
+    bestOf,
+    entryFor,
+    LeaderboardEntry,
+    loadLeaderboard,
+    saveLeaderboard,
+    topEntries
+} from "./leaderboard.ts";
+import {
+    PlaybackTick,
+    reducePlayback,
+    reduceRecording,
+    Replay,
+    replayEvents,
+    Seek,
+    SetPlaybackSpeed,
+    startPlayback,
+    startRecording,
+    TogglePlayback
+} from "./replay.ts";
+import {bestPlacement, BotMode, botInputs, Placement} from "./bot.ts";
+import {createMatch, ForBoth, Match, matchWinner, PlayerIndex, playerAction, reduceMatch} from "./versus.ts";
+import {createSvgRenderer, Renderer} from "./renderer.ts";
+import {LocalInput, LocalTick, Online, online$} from "./online.ts";
+import {createWebAudio, eventTracker, GameAudio, silentAudio, soundsFor} from "./audio.ts";
+import {Theme, ThemeId, themeFor, THEMES} from "./theme.ts";
+import {
+    ANNOUNCE_INTERVAL_MS,
+    Announcement,
+    announcementsFor,
+    boardReadout,
+    menuFocus,
+    summarize,
+    Verbosity
+} from "./accessibility.ts";
+import {
+    EMPTY_TALLY,
+    formatRates,
+    statRows,
+    Stats,
+    statsOf,
+    Tally,
+    tallyAt,
+    tallyEvents,
+    TallyTimeline,
+    tallyTimeline
+} from "./stats.ts";
 
 /**
  * This is the function called on page load. Your main game loop
@@ -29,87 +134,944 @@ export function main() {
         HTMLElement;
     const preview = document.querySelector("#svgPreview") as SVGGraphicsElement &
         HTMLElement;
-    const gameover = document.querySelector("#gameOver") as SVGGraphicsElement &
+    const overlay = document.querySelector("#overlay") as SVGGraphicsElement &
         HTMLElement;
     const hold = document.querySelector("#svgHold") as SVGGraphicsElement &
         HTMLElement
     const container = document.querySelector("#main") as HTMLElement;
+    // The second player's board, shown in versus
+    const opponent = document.querySelector("#opponent") as HTMLElement;
+    const svg2 = document.querySelector("#svgCanvas2") as SVGGraphicsElement & HTMLElement;
+    const preview2 = document.querySelector("#svgPreview2") as SVGGraphicsElement & HTMLElement;
+    const overlay2 = document.querySelector("#overlay2") as SVGGraphicsElement & HTMLElement;
+    const hold2 = document.querySelector("#svgHold2") as SVGGraphicsElement & HTMLElement;
     const score = document.getElementById("scoreText");
     const level = document.getElementById("levelText");
-    const highScore = document.getElementById("highScoreText");
+    const best = document.getElementById("bestText");
+    const clear = document.getElementById("clearText");
+    const modeText = document.getElementById("modeText");
+    const goal = document.getElementById("goalText");
+    const time = document.getElementById("timeText");
+    const overlayTitle = document.getElementById("overlayTitle");
+    const overlayResult = document.getElementById("overlayResult");
+    const overlayStats = document.getElementById("overlayStats");
+    const overlayRates = document.getElementById("overlayRates");
+    const overlayHint = document.getElementById("overlayHint");
 
-    if (!score || !level || !highScore) return
+    if (!score || !level || !best || !clear || !modeText || !goal || !time ||
+        !overlayTitle || !overlayResult || !overlayStats || !overlayRates || !overlayHint) return
 
-    svg.setAttribute("height", `${Viewport.CANVAS_HEIGHT}`);
-    svg.setAttribute("width", `${Viewport.CANVAS_WIDTH}`);
-    preview.setAttribute("height", `${Viewport.PREVIEW_HEIGHT}`);
-    preview.setAttribute("width", `${Viewport.PREVIEW_WIDTH}`);
+    const config = defaultConfig;
+
+    /** The canvases of a player's board, what draws on them, and the title, result, stats, rates and hint lines of its overlay */
+    type Board = Readonly<{
+        svg: SVGGraphicsElement & HTMLElement,
+        preview: SVGGraphicsElement & HTMLElement,
+        overlay: SVGGraphicsElement & HTMLElement,
+        renderer: Renderer,
+        lines: ReadonlyArray<HTMLElement>
+    }>;
+    const boards: readonly [Board, Board] = [
+        {
+            svg,
+            preview,
+            overlay,
+            renderer: createSvgRenderer({svg, preview, hold, overlay}),
+            lines: [overlayTitle, overlayResult, overlayStats, overlayRates, overlayHint]
+        },
+        {
+            svg: svg2,
+            preview: preview2,
+            overlay: overlay2,
+            renderer: createSvgRenderer({svg: svg2, preview: preview2, hold: hold2, overlay: overlay2}),
+            lines: ["overlayTitle2", "overlayResult2", "overlayStats2", "overlayRates2", "overlayHint2"]
+                .map(id => document.getElementById(id) as HTMLElement)
+        }
+    ];
+
+    boards.forEach(board => {
+        board.svg.setAttribute("height", `${config.height * config.blockSize}`);
+        board.svg.setAttribute("width", `${config.width * config.blockSize}`);
+        // The view box lets the board scale down to fit small screens
+        board.svg.setAttribute("viewBox", `0 0 ${config.width * config.blockSize} ${config.height * config.blockSize}`);
+        board.preview.setAttribute("width", `${Viewport.PREVIEW_WIDTH}`);
+    });
 
     // Text fields
     const levelText = document.querySelector("#levelText") as HTMLElement;
     const scoreText = document.querySelector("#scoreText") as HTMLElement;
-    const highScoreText = document.querySelector("#highScoreText") as HTMLElement;
+    const bestText = document.querySelector("#bestText") as HTMLElement;
+
+    // Settings
+    const store = new LocalStore();
+    const ghostToggle = document.querySelector("#ghostToggle") as HTMLInputElement;
+    const touchToggle = document.querySelector("#touchToggle") as HTMLInputElement;
+    const touchButtons = document.querySelector("#touchButtons") as HTMLElement;
+    const botSelect = document.querySelector("#botSelect") as HTMLSelectElement;
+    const themeSelect = document.querySelector("#themeSelect") as HTMLSelectElement;
+    const announceSelect = document.querySelector("#announceSelect") as HTMLSelectElement;
+    const settingsPanel = document.querySelector("#settings") as HTMLElement;
+    Object.values(THEMES).forEach(theme => themeSelect.appendChild(new Option(theme.name, theme.id)));
+
+    /** Gestures are measured in cells of the board as it is drawn, whatever its scale */
+    const gestureConfig = (): GestureConfig => ({
+        ...defaultGestureConfig,
+        cellSize: svg.getBoundingClientRect().width / config.width
+    });
+    const bindingsTable = document.querySelector("#bindingsTable") as HTMLTableElement;
+    const dasInput = document.querySelector("#dasInput") as HTMLInputElement;
+    const arrInput = document.querySelector("#arrInput") as HTMLInputElement;
+    const sdfInput = document.querySelector("#sdfInput") as HTMLInputElement;
+    const resetControls = document.querySelector("#resetControls") as HTMLButtonElement;
+    const gamepadStatus = document.querySelector("#gamepadStatus") as HTMLElement;
+    const gamepadSelect = document.querySelector("#gamepadSelect") as HTMLSelectElement;
+    const gamepadTable = document.querySelector("#gamepadTable") as HTMLTableElement;
+    const resetGamepad = document.querySelector("#resetGamepad") as HTMLButtonElement;
+    const muteToggle = document.querySelector("#muteToggle") as HTMLInputElement;
+    const musicToggle = document.querySelector("#musicToggle") as HTMLInputElement;
+    const masterVolume = document.querySelector("#masterVolume") as HTMLInputElement;
+    const sfxVolume = document.querySelector("#sfxVolume") as HTMLInputElement;
+    const musicVolume = document.querySelector("#musicVolume") as HTMLInputElement;
+
+    // Screen readers hear what happens through a live region
+    const announcer = document.querySelector("#announcer") as HTMLElement;
+    const readoutButton = document.querySelector("#readoutButton") as HTMLButtonElement;
+
+    // Stats of the game on the first board
+    const statsTable = document.querySelector("#statsTable") as HTMLTableElement;
+
+    // Browsers without Web Audio play the game in silence
+    const audio: GameAudio = typeof AudioContext === "undefined" ? silentAudio : createWebAudio();
+
+    // Leaderboard, kept across page loads
+    const nameInput = document.querySelector("#playerName") as HTMLInputElement;
+    nameInput.value = store.load("name") ?? "";
+    const leaderboard = document.querySelector("#leaderboard") as HTMLElement;
+    const leaderboardTable = document.querySelector("#leaderboardTable") as HTMLTableElement;
+
+    // Replay controls
+    const replayControls = document.querySelector("#replayControls") as HTMLElement;
+    const watchButton = document.querySelector("#watchReplay") as HTMLButtonElement;
+    const exitButton = document.querySelector("#exitReplay") as HTMLButtonElement;
+    const pauseButton = document.querySelector("#pauseReplay") as HTMLButtonElement;
+    const speedSelect = document.querySelector("#replaySpeed") as HTMLSelectElement;
+    const seekSlider = document.querySelector("#seekReplay") as HTMLInputElement;
+
+    // Mode menu, one button per game mode
+    const modeMenu = document.querySelector("#modeMenu") as HTMLElement;
+    const menuButton = document.querySelector("#menuButton") as HTMLButtonElement;
+
+    // Online play, with the server and room last used
+    const onlineMenu = document.querySelector("#onlineMenu") as HTMLElement;
+    const serverInput = document.querySelector("#serverInput") as HTMLInputElement;
+    const roomInput = document.querySelector("#roomInput") as HTMLInputElement;
+    const joinButton = document.querySelector("#joinButton") as HTMLButtonElement;
+    const onlineStatus = document.querySelector("#onlineStatus") as HTMLElement;
+    serverInput.value = store.load("server") ?? `ws://${location.hostname || "localhost"}:8080`;
+    roomInput.value = store.load("room") ?? "";
+    const modeButtons = Object.values(MODES).map(mode => {
+        const button = document.createElement("button");
+        button.textContent = mode.name;
+        button.title = mode.goal;
+        button.dataset.mode = mode.id;
+        button.setAttribute("role", "menuitem");
+        modeMenu.appendChild(button);
+        return button;
+    });
+
+    /** Settings, kept across page loads */
+
+    const settings$ = new BehaviorSubject<Settings>(loadSettings(store));
+    const updateSettings = (change: Partial<Settings>) => settings$.next({...settings$.value, ...change});
+
+    /** The control waiting for a key to be bound to it, null when not rebinding */
+    const listening$ = new BehaviorSubject<Control | null>(null);
+
+    fromEvent(ghostToggle, "change").subscribe(_ => updateSettings({showGhost: ghostToggle.checked}));
+    fromEvent(touchToggle, "change").subscribe(_ => updateSettings({touchButtons: touchToggle.checked}));
+    fromEvent(botSelect, "change").subscribe(_ => {
+        botSelect.blur();
+        updateSettings({bot: botSelect.value as BotMode});
+    });
+    fromEvent(themeSelect, "change").subscribe(_ => {
+        themeSelect.blur();
+        updateSettings({theme: themeSelect.value as ThemeId});
+    });
+    fromEvent(announceSelect, "change").subscribe(_ => {
+        announceSelect.blur();
+        updateSettings({announcements: announceSelect.value as Verbosity});
+    });
+    fromEvent(nameInput, "change").subscribe(_ => store.save("name", nameInput.value.trim()));
+    fromEvent(serverInput, "change").subscribe(_ => store.save("server", serverInput.value.trim()));
+    fromEvent(roomInput, "change").subscribe(_ => store.save("room", roomInput.value.trim()));
+    merge(fromEvent(dasInput, "change"), fromEvent(arrInput, "change"), fromEvent(sdfInput, "change"))
+        .subscribe(_ => updateSettings({
+            handling: {
+                das: Math.max(0, Number(dasInput.value)),
+                arr: Math.max(0, Number(arrInput.value)),
+                softDropFactor: Math.max(1, Number(sdfInput.value))
+            }
+        }));
+    merge(...[muteToggle, musicToggle, masterVolume, sfxVolume, musicVolume].map(input => fromEvent(input, "change")))
+        .subscribe(_ => updateSettings({
+            audio: {
+                master: Number(masterVolume.value),
+                sfx: Number(sfxVolume.value),
+                music: Number(musicVolume.value),
+                playMusic: musicToggle.checked,
+                muted: muteToggle.checked
+            }
+        }));
+    fromEvent(resetControls, "click").subscribe(_ =>
+        updateSettings({bindings: defaultSettings.bindings, handling: defaultSettings.handling}));
+    fromEvent<MouseEvent>(bindingsTable, "click").pipe(
+        map(({target}) => (target as HTMLElement).closest("button")?.dataset.control as Control | undefined),
+        filter((control): control is Control => control !== undefined)
+    ).subscribe(control => listening$.next(listening$.value === control ? null : control));
+
+    combineLatest([settings$, listening$]).subscribe(([settings, listening]) => {
+        saveSettings(store, settings);
+        ghostToggle.checked = settings.showGhost;
+        touchToggle.checked = settings.touchButtons;
+        touchButtons.hidden = !settings.touchButtons;
+        botSelect.value = settings.bot;
+        themeSelect.value = themeFor(settings.theme).id;
+        applyTheme(themeFor(settings.theme), document.documentElement);
+        announceSelect.value = settings.announcements;
+        dasInput.value = String(settings.handling.das);
+        arrInput.value = String(settings.handling.arr);
+        sdfInput.value = String(settings.handling.softDropFactor);
+        renderBindings(settings.bindings, bindingsTable, listening, keyName);
+        muteToggle.checked = settings.audio.muted;
+        musicToggle.checked = settings.audio.playMusic;
+        masterVolume.value = String(settings.audio.master);
+        sfxVolume.value = String(settings.audio.sfx);
+        musicVolume.value = String(settings.audio.music);
+        audio.configure(settings.audio);
+    });
 
     /** User input */
 
-    const key$ = fromEvent<KeyboardEvent>(document, "keypress");
+    // Menus reached with the keyboard keep the keys, so that they can be moved through without playing the game
+    const menus = [modeMenu, settingsPanel];
+    const inMenu = (target: EventTarget | null) =>
+        target instanceof HTMLElement && menus.some(menu => menu.contains(target)) && target.matches(":focus-visible");
 
-    const fromKey = (keyCode: Key) =>
-        key$.pipe(
-            filter(({ code }) => code === keyCode)
+    // Typing in a text field does not play the game
+    const fromKey = (type: "keydown" | "keyup") =>
+        fromEvent<KeyboardEvent>(document, type).pipe(
+            filter(({ target }) => !(target instanceof HTMLInputElement) && !inMenu(target))
         );
 
-    const left$ = fromKey("KeyA").pipe(map(_ => new Move(Direction.LEFT)));
-    const right$ = fromKey("KeyD").pipe(map(_ => new Move(Direction.RIGHT)));
-    const down$ = fromKey("KeyS").pipe(map(_ => new Down()));
-    const up$ = fromKey("KeyW").pipe(map(_ => new Rotate()));
-    const space$ = fromKey("Space").pipe(map(_ => new Drop()));
-    const hold$ = fromKey("KeyC").pipe(map(_ => new Hold()))
+    // The arrow keys, Home and End move through the items of a menu. Lists and sliders keep their own arrow keys.
+    menus.forEach(menu => fromEvent<KeyboardEvent>(menu, "keydown").pipe(
+        filter(({target}) => !(target instanceof HTMLSelectElement)
+            && !(target instanceof HTMLInputElement && target.type !== "checkbox"))
+    ).subscribe(event => {
+        const items = Array.from(menu.querySelectorAll<HTMLElement>("button, input, select, summary"))
+            .filter(item => item.offsetParent !== null);
+        const next = menuFocus(event.key, items.indexOf(event.target as HTMLElement), items.length);
+        if (next === null) return;
+        event.preventDefault();
+        items[next].focus();
+    }));
+
+    // While rebinding, the next key goes to the binding: Backspace clears it, any other key toggles it
+    fromKey("keydown").pipe(
+        filter(_ => listening$.value !== null),
+        tap(event => event.preventDefault())
+    ).subscribe(({code}) => {
+        const control = listening$.value as Control;
+        updateSettings({
+            bindings: code === "Backspace"
+                ? {...settings$.value.bindings, [control]: []}
+                : toggleBinding(settings$.value.bindings, control, code)
+        });
+        listening$.next(null);
+    });
+
+    const keyDown$ = fromKey("keydown").pipe(
+        // Keys taken by rebinding are already handled
+        filter(({ repeat, defaultPrevented }) => !repeat && !defaultPrevented)
+    );
+    const keyUp$ = fromKey("keyup");
+
+    // Mute works on every screen, whoever's keys are in play
+    keyDown$.pipe(filter(({code}) => controlsFor(settings$.value.bindings, code).includes("mute")))
+        .subscribe(_ => updateSettings({audio: {...settings$.value.audio, muted: !settings$.value.audio.muted}}));
+
+    /** Announcements, gathered and read out at most once an interval */
+    const announcements$ = new Subject<ReadonlyArray<Announcement>>();
+    announcements$.pipe(
+        bufferTime(ANNOUNCE_INTERVAL_MS),
+        map(batches => batches.flat()),
+        filter(announcements => announcements.length > 0)
+    ).subscribe(announcements => announcer.textContent = summarize(announcements));
+
+    /** The game the player is watching, to be read out on demand */
+    const watched$ = new BehaviorSubject<State | null>(null);
+
+    // The board readout is not rate limited: the player asked for it
+    merge(
+        keyDown$.pipe(filter(({code}) => controlsFor(settings$.value.bindings, code).includes("readout"))),
+        fromEvent(readoutButton, "click").pipe(tap(_ => readoutButton.blur()))
+    ).subscribe(_ => announcer.textContent = watched$.value ? boardReadout(watched$.value) : "No game in progress");
+
+    /** A change to the input state of a player at a time, with the actions it makes */
+    type InputStep = (input: InputState, time: number) => InputResult;
+
+    /**
+     * Presses and releases of the keys bound for a player.
+     * @param bindings Reads the bindings of the player
+     */
+    const keyInput$ = (bindings: () => Bindings): Observable<InputStep> => merge(
+        keyDown$.pipe(
+            // Keep bound keys from scrolling the page or clicking the focused button
+            tap(event => controlsFor(bindings(), event.code).length && event.preventDefault()),
+            map(({code}) => (input: InputState, time: number) =>
+                pressKey(input, bindings(), code, time, settings$.value.handling))),
+        keyUp$.pipe(map(({code}) => (input: InputState, time: number) =>
+            releaseKey(input, bindings(), code, time)))
+    );
+
+    // On-screen buttons press and release controls like keys, so they auto shift too
+    const fromTouchButton = (type: "pointerdown" | "pointerup" | "pointercancel" | "pointerout") =>
+        fromEvent<PointerEvent>(touchButtons, type).pipe(
+            map(event => {
+                event.preventDefault();
+                return (event.target as HTMLElement).closest("button")?.dataset.control as Control | undefined;
+            }),
+            filter((control): control is Control => control !== undefined)
+        );
+
+    /** The passing of time for auto repeat, checked as often as the game ticks */
+    const frame$ = interval(Constants.TICK_RATE_MS / 10);
+
+    /**
+     * Runs the inputs of a player through auto shift, giving the actions they make.
+     * @param step$ The presses and releases of the player
+     */
+    const inputActions$ = (step$: Observable<InputStep>): Observable<Action> => merge(
+        step$,
+        // Key releases are missed while the window is out of focus
+        fromEvent(window, "blur").pipe(map(_ => (input: InputState) => releaseAll(input))),
+        frame$.pipe(map(_ => (input: InputState, time: number) => frame(input, time, settings$.value.handling)))
+    ).pipe(
+        timestamp(),
+        scan((r: InputResult, {value, timestamp}) => value(r.input, timestamp), {input: initialInput, actions: []}),
+        mergeMap(r => r.actions)
+    );
+
+    const input$ = inputActions$(merge(
+        keyInput$(() => settings$.value.bindings),
+        fromTouchButton("pointerdown").pipe(map(control => (input: InputState, time: number) =>
+            press(input, control, time, settings$.value.handling))),
+        merge(fromTouchButton("pointerup"), fromTouchButton("pointercancel"), fromTouchButton("pointerout"))
+            .pipe(map(control => (input: InputState, time: number) => release(input, control, time)))
+    ));
+
+    /** Touch gestures on the board */
+
+    const touchPoint = (touch: Touch, time: number): TouchPoint => ({x: touch.clientX, y: touch.clientY, time});
+    const fromTouch = (type: "touchstart" | "touchmove" | "touchend" | "touchcancel") =>
+        fromEvent<TouchEvent>(svg, type, {passive: false}).pipe(tap(event => event.preventDefault()));
+
+    const gesture$ = merge(
+        fromTouch("touchstart").pipe(map(event => (gesture: Gesture, time: number) =>
+            touchStart(gesture, touchPoint(event.touches[0], time), event.touches.length))),
+        fromTouch("touchmove").pipe(map(event => (gesture: Gesture, time: number) =>
+            touchMove(gesture, touchPoint(event.touches[0], time), gestureConfig()))),
+        merge(fromTouch("touchend"), fromTouch("touchcancel")).pipe(map(event => (gesture: Gesture, time: number) =>
+            touchEnd(gesture, touchPoint(event.changedTouches[0], time), event.touches.length, gestureConfig())))
+    ).pipe(
+        timestamp(),
+        scan((r: GestureResult, {value, timestamp}) => value(r.gesture, timestamp), {gesture: initialGesture, actions: []}),
+        mergeMap(r => r.actions)
+    );
+
+    // Pause when the tab is hidden, so that the game does not run on unwatched
+    const hidden$ = fromEvent(document, "visibilitychange").pipe(
+        filter(_ => document.hidden),
+        map(_ => new Pause())
+    );
+
+    /** Controllers, polled as often as the game ticks */
+
+    const readGamepads = (): GamepadLike[] =>
+        Array.from(navigator.getGamepads?.() ?? []).filter((pad): pad is Gamepad => pad !== null);
+
+    /** The control waiting for a button to be bound to it on the selected controller */
+    const padListening$ = new BehaviorSubject<Control | null>(null);
+
+    /** The result of polling controllers: the actions for the game, and the buttons newly pressed for rebinding */
+    type PadPoll = Readonly<{
+        pads: Record<number, PadState>,
+        actions: ReadonlyArray<Action>,
+        held: Record<number, number[]>,
+        presses: ReadonlyArray<{ id: string, button: number }>
+    }>;
+
+    /**
+     * Polls controllers. Buttons held while a button is being rebound do not reach the game until they are let go.
+     * @param pick Which of the connected controllers to read
+     */
+    const padPoll$ = (pick: (pads: GamepadLike[]) => GamepadLike[] = pads => pads): Observable<PadPoll> => frame$.pipe(
+        timestamp(),
+        scan((r: PadPoll, {timestamp}) => {
+            const pads = pick(readGamepads());
+            return {
+                ...pollGamepads(r.pads, pads, id => buttonBindingsFor(settings$.value, id),
+                    timestamp, settings$.value.handling, padListening$.value !== null),
+                ...buttonPresses(r.held, pads)
+            };
+        }, {pads: {}, actions: [], held: {}, presses: []})
+    );
+
+    /**
+     * Actions from controllers.
+     * @param pick Which of the connected controllers to read
+     */
+    const padInput$ = (pick?: (pads: GamepadLike[]) => GamepadLike[]): Observable<Action> =>
+        padPoll$(pick).pipe(mergeMap(r => r.actions));
+
+    // Rebinding and the game read the same polls, so the poll that takes a press for rebinding ignores it for the game
+    const sharedPoll$ = padPoll$().pipe(share());
+    const pad$ = sharedPoll$.pipe(mergeMap(r => r.actions));
+
+    // Plugging or unplugging a controller updates the list of controllers to remap
+    const gamepadIds$ = merge(
+        fromEvent(window, "gamepadconnected"),
+        fromEvent(window, "gamepaddisconnected")
+    ).pipe(
+        startWith(null),
+        map(_ => readGamepads().map(pad => pad.id))
+    );
+
+    fromEvent<MouseEvent>(gamepadTable, "click").pipe(
+        map(({target}) => (target as HTMLElement).closest("button")?.dataset.control as Control | undefined),
+        filter((control): control is Control => control !== undefined)
+    ).subscribe(control => padListening$.next(padListening$.value === control ? null : control));
+
+    fromEvent(resetGamepad, "click").subscribe(_ => {
+        const {[gamepadSelect.value]: _removed, ...rest} = settings$.value.gamepadBindings;
+        updateSettings({gamepadBindings: rest});
+    });
+
+    // While rebinding, the next button pressed on the selected controller toggles the binding
+    sharedPoll$.pipe(
+        map(({presses}) => presses.find(({id}) => id === gamepadSelect.value)),
+        filter(press => press !== undefined && padListening$.value !== null)
+    ).subscribe(press => {
+        const {id, button} = press!;
+        const bindings = buttonBindingsFor(settings$.value, id);
+        updateSettings({
+            gamepadBindings: {
+                ...settings$.value.gamepadBindings,
+                [id]: toggleBinding(bindings, padListening$.value!, button)
+            }
+        });
+        padListening$.next(null);
+    });
+
+    combineLatest([
+        settings$,
+        padListening$,
+        gamepadIds$.pipe(tap(ids => {
+            const selected = gamepadSelect.value;
+            gamepadSelect.replaceChildren(...ids.map(id => new Option(id, id, false, id === selected)));
+            gamepadStatus.textContent = ids.length ? "" : "No controller connected";
+            gamepadSelect.hidden = resetGamepad.hidden = gamepadTable.hidden = !ids.length;
+        })),
+        fromEvent(gamepadSelect, "change").pipe(startWith(null))
+    ]).subscribe(([settings, listening]) =>
+        renderBindings(buttonBindingsFor(settings, gamepadSelect.value), gamepadTable, listening, buttonName));
+
+    const action$ = merge(input$, pad$, gesture$, hidden$);
 
-    const action$ = merge(left$, right$, down$, up$, space$, hold$);
     /** Observables */
 
     /** Determines the rate of time steps */
     const tick$ = interval(Constants.TICK_RATE_MS / 10).pipe(map(_ => new GameFlow()));
 
+    /** Paces the bot when it plays, a piece every half tick */
+    const autoplay$ = interval(Constants.TICK_RATE_MS / 2).pipe(filter(_ => settings$.value.bot === "autoplay"));
+
+    /** Replays */
+
+    // Blur buttons once clicked, so that Space does not click them again during play
+    const click$ = (button: HTMLButtonElement) =>
+        fromEvent(button, "click").pipe(tap(_ => button.blur()));
+
+    const playbackAction$ = merge(
+        interval(Constants.TICK_RATE_MS / 10).pipe(map(_ => new PlaybackTick())),
+        click$(pauseButton).pipe(map(_ => new TogglePlayback())),
+        fromEvent(speedSelect, "change").pipe(map(_ => new SetPlaybackSpeed(Number(speedSelect.value)))),
+        fromEvent(seekSlider, "input").pipe(map(_ => new Seek(Number(seekSlider.value))))
+    );
+
+    /** The recording of the live game, watched when switching to playback */
+    const lastReplay$ = new BehaviorSubject<Replay | null>(null);
+
+    /** The tallies of the replay being watched, tick by tick, null when not watching one */
+    const replayed$ = new BehaviorSubject<TallyTimeline | null>(null);
+
+    /** The leaderboard, and the last game added to it */
+    const leaderboard$ = new BehaviorSubject(loadLeaderboard(store));
+    const latestEntry$ = new BehaviorSubject<LeaderboardEntry | null>(null);
+
+    /**
+     * Adds a finished game to the leaderboard and saves it.
+     * @param s The state of the finished game
+     */
+    const recordResult = (s: State) => {
+        // Games the bot finished are not the player's
+        if (settings$.value.bot === "autoplay") return;
+        const entry = entryFor(s, nameInput.value.trim() || "Player", Date.now());
+        if (!entry) return;
+        const {board, rank} = addEntry(leaderboard$.value, s.config.mode, entry);
+        saveLeaderboard(store, board);
+        leaderboard$.next(board);
+        latestEntry$.next(rank === null ? null : entry);
+    };
+
+    /**
+     * Plays a new game, recording every action.
+     * The clock is only read once, to seed the game.
+     * The bot plays the same inputs as the player, so its moves are recorded too.
+     * @param mode The game mode to play
+     */
+    const live$ = (mode: ModeId): Observable<State> => {
+        const initial = startRecording({
+            ...createInitialState(Date.now(), createConfig({...config, mode})),
+            best: bestOf(leaderboard$.value, mode)
+        }, Date.now());
+        return merge(
+            merge(tick$, action$).pipe(map(action => (_: State): ReadonlyArray<Action> => [action])),
+            autoplay$.pipe(map(_ => (s: State) => botInputs(s)))
+        ).pipe(
+            timestamp(),
+            scan((r, {value, timestamp}) =>
+                value(r.state).reduce((acc, action) => reduceRecording(acc, action, timestamp), r), initial),
+            startWith(initial),
+            pairwise(),
+            tap(([previous, r]) => {
+                lastReplay$.next(r.replay);
+                if (previous.state.phase !== Phase.GAME_OVER && r.state.phase === Phase.GAME_OVER)
+                    recordResult(r.state);
+            }),
+            map(([, r]) => r.state)
+        );
+    };
+
+    /**
+     * The inputs of a player in versus: their half of the keyboard and their controller,
+     * the first connected controller for the first player and the second for the second.
+     * @param player The player
+     */
+    const playerInput$ = (player: PlayerIndex) => merge(
+        inputActions$(keyInput$(() => versusBindings[player])),
+        padInput$(pads => pads.slice(player, player + 1))
+    ).pipe(map(action => playerAction(player, action)));
+
+    /**
+     * Plays a versus match on one keyboard. Versus games are not recorded.
+     * @param mode The game mode of both boards
+     */
+    const versus$ = (mode: ModeId): Observable<Match> => {
+        const initial = createMatch(Date.now(), createConfig({...config, mode}));
+        return merge(
+            merge(tick$, hidden$).pipe(map(action => new ForBoth(action))),
+            playerInput$(0),
+            playerInput$(1)
+        ).pipe(
+            scan(reduceMatch, initial),
+            startWith(initial)
+        );
+    };
+
+    /**
+     * Plays online in the room picked in the menu. Online games are not recorded.
+     */
+    const onlineGame$ = (): Observable<Online> =>
+        online$(
+            serverInput.value.trim(),
+            roomInput.value.trim() || "lobby",
+            nameInput.value.trim() || "Player",
+            merge(tick$.pipe(map(_ => new LocalTick())), action$.pipe(map(action => new LocalInput(action))))
+        );
+
+    /**
+     * Plays back a recorded game.
+     * @param replay The recording to play back
+     */
+    const playback$ = (replay: Replay): Observable<State> => {
+        replayed$.next(tallyTimeline(replayEvents(replay)));
+        return playbackAction$.pipe(
+            scan(reducePlayback, startPlayback(replay, Number(speedSelect.value))),
+            tap(p => {
+                seekSlider.max = String(p.replay.ticks);
+                seekSlider.value = String(p.tick);
+                pauseButton.textContent = p.paused ? "Play" : "Pause";
+            }),
+            map(p => p.state)
+        );
+    };
+
+    /** What is on screen: the mode menu, a live game or a replay, and the mode last picked */
+    type Screen = Readonly<{ view: "menu" | "live" | "playback" | "versus" | "online", mode: ModeId }>;
+    const initialScreen: Screen = {view: "menu", mode: "endless"};
+
+    const screen$ = merge(
+        ...modeButtons.map(button =>
+            click$(button).pipe(map((): Partial<Screen> => {
+                const mode = button.dataset.mode as ModeId;
+                return {view: MODES[mode].players > 1 ? "versus" : "live", mode};
+            }))),
+        click$(watchButton).pipe(map((): Partial<Screen> => ({view: "playback"}))),
+        click$(joinButton).pipe(map((): Partial<Screen> => ({view: "online"}))),
+        click$(exitButton).pipe(map((): Partial<Screen> => ({view: "live"}))),
+        click$(menuButton).pipe(map((): Partial<Screen> => ({view: "menu"})))
+    ).pipe(
+        scan((screen: Screen, change: Partial<Screen>) => ({...screen, ...change}), initialScreen),
+        startWith(initialScreen),
+        tap(screen => {
+            if (screen.view !== "playback") replayed$.next(null);
+            replayControls.hidden = screen.view !== "playback";
+            modeMenu.hidden = onlineMenu.hidden = screen.view !== "menu";
+            menuButton.hidden = screen.view === "menu";
+            onlineStatus.hidden = screen.view !== "online";
+            // Online games are laid out like versus
+            const twoBoards = screen.view === "versus" || screen.view === "online";
+            opponent.hidden = !twoBoards;
+            container.classList.toggle("versus", twoBoards);
+            if (screen.view === "menu") {
+                hide(overlay);
+                leaderboard.hidden = true;
+                audio.music(null);
+                watched$.next(null);
+                modeButtons[0]?.focus();
+            }
+        }),
+        // Single player games, versus matches and online games all follow the screen
+        shareReplay(1)
+    );
+
+    /**
+     * Draws a game on a board: the stack, the pieces, the next queue, the held piece and the garbage waiting.
+     * @param board Where to draw
+     * @param s The game
+     * @param showGhost Whether to draw the ghost piece
+     * @param hint The placement the bot suggests, null when it does not
+     * @param theme What the cells look like
+     */
+    const drawBoard = (board: Board, s: State, showGhost: boolean, hint: Placement | null, theme: Theme) =>
+        board.renderer.render({state: s, showGhost, hint: hint?.tetromino ?? null, theme});
+
+    /** The events already heard on each board */
+    const heard = [eventTracker(), eventTracker()];
+
+    /**
+     * Plays the sounds of the new events of a game on a board, and keeps the background track in step with it.
+     * The game that leads is also the one announced and read out to screen readers.
+     * @param board The index of the board
+     * @param s The game
+     * @param lead Whether the game sets the tempo of the background track
+     */
+    const hear = (board: number, s: State, lead: boolean) => {
+        const fresh = heard[board](s.events);
+        audio.play(soundsFor(fresh));
+        if (!lead) return;
+        audio.music(s.phase === Phase.PAUSED || s.phase === Phase.GAME_OVER ? null : {seed: s.seed, level: s.level});
+        announcements$.next(announcementsFor(fresh, settings$.value.announcements));
+        watched$.next(s);
+    };
+
+    /** The events already counted on each board, and what they add up to */
+    const counted = [eventTracker(), eventTracker()];
+    const tallies: {tally: Tally, ticks: number}[] = [{tally: EMPTY_TALLY, ticks: 0}, {tally: EMPTY_TALLY, ticks: 0}];
+
+    /**
+     * Adds the new events of a game on a board to its stats. A game that goes back in time is a new one.
+     * Replays are looked up in the tallies of all of their events instead, so that seeking gives the same stats
+     * as playing.
+     * @param board The index of the board
+     * @param s The game
+     */
+    const countStats = (board: number, s: State): Stats => {
+        const fresh = counted[board](s.events);
+        const replayed = board === 0 ? replayed$.value : null;
+        if (replayed) return statsOf(tallyAt(replayed, s.ticks), s.ticks);
+        const previous = tallies[board];
+        const tally = tallyEvents(s.ticks < previous.ticks ? EMPTY_TALLY : previous.tally, fresh);
+        tallies[board] = {tally, ticks: s.ticks};
+        return statsOf(tally, s.ticks);
+    };
+
     /**
      * Renders the current state to the canvas.
      *
      * In MVC terms, this updates the View using the Model.
      *
      * @param s Current state
+     * @param settings Current settings
+     * @param hint The placement the bot suggests, null when it does not
      */
-    const render = (s: State) => {
-        clearSvgCanvas(preview, gameover);
-        clearSvgCanvas(hold, gameover);
-        clearSvgCanvas(svg, gameover);
+    const render = (s: State, settings: Settings, hint: Placement | null) => {
+        drawBoard(boards[0], s, settings.showGhost, hint, themeFor(settings.theme));
 
+        const mode = modeOf(s);
         score.innerHTML = String(s.score);
         level.innerHTML = String(s.level);
-        highScore.innerHTML = String(s.highScore);
+        best.textContent = s.best === null ? "-" : mode.formatResult(s.best);
+        modeText.textContent = mode.name;
+        goal.textContent = mode.progress(s);
+        time.textContent = formatTicks(s.ticks);
+        clear.textContent = s.lastClear
+            ? s.lastClear.label + (s.lastClear.combo > 0 ? ` (Combo ${s.lastClear.combo})` : "")
+            : "";
+    };
+
+    /** The title, result, stats, rates and hint lines of an overlay */
+    type OverlayLines = readonly [string, string, string, string, string];
 
-        renderTetromino(s.currentTetromino, svg, s.currentTetromino.position.x, s.currentTetromino.position.y);
-        renderTetromino(s.nextTetromino, preview, Constants.PREVIEW_X , Constants.PREVIEW_Y);
-        if (s.heldElement)
-            renderTetromino(s.heldElement, hold, Constants.HOLD_X , Constants.HOLD_Y);
+    /**
+     * Shows an overlay on a board, or hides it.
+     * @param board The board
+     * @param lines The lines to show, null to hide the overlay
+     */
+    const showOverlay = (board: Board, lines: OverlayLines | null) => {
+        board.lines.forEach((line, i) => line.textContent = lines?.[i] ?? "");
+        if (lines) {
+            show(board.overlay)
+        } else {
+            hide(board.overlay)
+        }
+    };
+
+    /**
+     * The number of seconds left in a countdown.
+     * @param s Current state
+     */
+    const countdownSeconds = (s: State) => Math.ceil(s.countdown * Constants.TICK_RATE_MS / 10 / 1000);
+
+    /**
+     * Tells the player which keys to press, as they are bound.
+     * @param keys The keys bound to the control
+     * @param what What pressing them does
+     */
+    const pressHint = (keys: ReadonlyArray<Key>, what: string) =>
+        keys.length === 0 ? "" : `Press ${keys.map(keyName).join(" or ")} ${what}`;
+
+    /**
+     * The lines a game has cleared, splitting garbage lines from the player's own.
+     * @param s Current state
+     */
+    const formatLines = (s: State) => s.garbageCleared === 0 ? `Lines: ${s.rowsCleared}`
+        : `Lines: ${s.rowsCleared - s.garbageCleared} + ${s.garbageCleared} garbage`;
+
+    /**
+     * Shows the countdown, pause or game over overlay for the phase of the game.
+     * @param s Current state
+     * @param stats The stats of the game, summed up when it is over
+     */
+    const renderOverlay = (s: State, stats: Stats) => {
+        const mode = modeOf(s);
+        const value = mode.result(s);
+        const lines: Record<Phase, OverlayLines | null> = {
+            [Phase.READY]: [String(countdownSeconds(s)), mode.name, mode.goal, "", "Get ready"],
+            [Phase.PLAYING]: null,
+            [Phase.CLEARING]: null,
+            [Phase.ENTRY]: null,
+            [Phase.PAUSED]: ["Paused", "", "", "", pressHint(settings$.value.bindings.pause, "to resume")],
+            [Phase.GAME_OVER]: [
+                s.completed ? "Complete!" : "Game Over",
+                value === null ? "" : `${mode.resultLabel}: ${mode.formatResult(value)}`,
+                `${formatLines(s)}  Time: ${formatTicks(s.ticks)}`,
+                formatRates(stats),
+                pressHint(settings$.value.bindings.restart, "to play again")
+            ]
+        };
+        showOverlay(boards[0], lines[s.phase]);
+
+        leaderboard.hidden = s.phase !== Phase.GAME_OVER;
+        if (s.phase === Phase.GAME_OVER)
+            renderLeaderboard(topEntries(leaderboard$.value, mode.id), leaderboardTable, mode, latestEntry$.value);
+    };
 
-        renderGrid(s.grid, svg);
+    /**
+     * The overlay of a player's board in versus.
+     * @param m Current match
+     * @param player The player
+     * @param stats The stats of the player's game
+     */
+    const matchOverlay = (m: Match, player: PlayerIndex, stats: Stats): OverlayLines | null => {
+        const s = m.players[player];
+        const bindings = versusBindings[player];
+        // Only the first player pauses and restarts
+        const {pause, restart} = versusBindings[0];
+        const rounds = `Rounds won: ${m.wins[player]} - ${m.wins[player === 0 ? 1 : 0]}`;
+        const decided = matchWinner(m);
+        const lines: Record<Phase, OverlayLines | null> = {
+            [Phase.READY]: [
+                String(countdownSeconds(s)),
+                `Round ${m.round}`,
+                rounds,
+                "",
+                `${keyName(bindings.left[0])} ${keyName(bindings.right[0])} move, ${keyName(bindings.hardDrop[0])} drops`
+            ],
+            [Phase.PLAYING]: null,
+            [Phase.CLEARING]: null,
+            [Phase.ENTRY]: null,
+            [Phase.PAUSED]: ["Paused", "", "", "", pressHint(pause, "to resume")],
+            [Phase.GAME_OVER]: [
+                m.winner === null ? "Draw" : m.winner !== player ? "Topped out"
+                    : decided === player ? "Match won!" : "Round won",
+                rounds,
+                formatLines(s),
+                formatRates(stats),
+                pressHint(restart, decided === null ? "for the next round" : "for a rematch")
+            ]
+        };
+        return lines[s.phase];
+    };
 
+    /**
+     * Renders both boards of a versus match.
+     * @param m Current match
+     * @param settings Current settings
+     */
+    const renderMatch = (m: Match, settings: Settings) => {
+        m.players.forEach((s, player) => {
+            const stats = countStats(player, s);
+            drawBoard(boards[player], s, settings.showGhost, null, themeFor(settings.theme));
+            showOverlay(boards[player], matchOverlay(m, player as PlayerIndex, stats));
+            hear(player, s, player === 0);
+            if (player === 0) renderStats(statRows(stats), statsTable);
+        });
+        const mode = modeOf(m.players[0]);
+        modeText.textContent = mode.name;
+        goal.textContent = `Round ${m.round}: ${m.wins[0]} - ${m.wins[1]}`;
+        time.textContent = formatTicks(m.players[0].ticks);
+        score.textContent = String(m.players[0].score);
+        level.textContent = String(m.players[0].level);
+        best.textContent = "-";
+        clear.textContent = m.players[0].lastClear?.label ?? "";
+        leaderboard.hidden = true;
     };
 
-    const source$ = merge(tick$, action$)
-        .pipe(
-            scan(reduceState, initialState))
-        .subscribe((s: State) => {
-            render(s);
+    /**
+     * The overlay of a player's board online.
+     * @param o Current client
+     * @param player The player
+     * @param stats The stats of the player's game, null before it starts
+     */
+    const onlineOverlay = (o: Online, player: number, stats: Stats | null): OverlayLines | null => {
+        const s = o.timelines[player]?.state;
+        const own = player === o.player;
+        const name = o.players[player]?.name ?? "";
+        if (o.status === "connecting") return own ? ["Connecting", `Room ${o.room}`, "", "", ""] : null;
+        if (o.status === "lobby" || !s) {
+            if (!o.players[player]) return ["Waiting", "for an opponent", "", "", ""];
+            return [name, o.players[player].ready ? "Ready" : "Not ready", "", "", own ? pressHint(settings$.value.bindings.restart, "when ready") : ""];
+        }
+        if (o.status === "over") return [
+            o.winner === null ? "Draw" : o.winner === player ? "Winner" : "Topped out",
+            name,
+            `Lines: ${s.rowsCleared}`,
+            stats ? formatRates(stats) : "",
+            !own ? "" : o.players[player]?.ready ? "Waiting for a rematch"
+                : pressHint(settings$.value.bindings.restart, "for a rematch")
+        ];
+        const lines: Record<Phase, OverlayLines | null> = {
+            [Phase.READY]: [String(countdownSeconds(s)), name, "", "", "Get ready"],
+            [Phase.PLAYING]: null,
+            [Phase.CLEARING]: null,
+            [Phase.ENTRY]: null,
+            [Phase.PAUSED]: null,
+            [Phase.GAME_OVER]: ["Topped out", name, `Lines: ${s.rowsCleared}`, stats ? formatRates(stats) : "", ""]
+        };
+        return lines[s.phase];
+    };
 
-            if (s.gameEnd) {
-                show(gameover)
+    /**
+     * Renders an online game: the player's board first and their opponent's beside it.
+     * @param o Current client
+     * @param settings Current settings
+     */
+    const renderOnline = (o: Online, settings: Settings) => {
+        const own = o.player ?? 0;
+        const seats = [own, own === 0 ? 1 : 0] as const;
+        seats.forEach((player, i) => {
+            const t = o.timelines[player];
+            const stats = t ? countStats(i, t.state) : null;
+            if (t) {
+                drawBoard(boards[i], t.state, settings.showGhost && player === own, null, themeFor(settings.theme));
+                hear(i, t.state, player === own);
             } else {
-                hide(gameover)
+                boards[i].renderer.clear();
             }
-
+            showOverlay(boards[i], onlineOverlay(o, player, stats));
+            if (i === 0 && stats) renderStats(statRows(stats), statsTable);
         });
+        const s = o.timelines[own]?.state;
+        modeText.textContent = "Online";
+        goal.textContent = `Room ${o.room}`;
+        time.textContent = formatTicks(s?.ticks ?? 0);
+        score.textContent = String(s?.score ?? 0);
+        level.textContent = String(s?.level ?? 1);
+        best.textContent = "-";
+        clear.textContent = s?.lastClear?.label ?? "";
+        leaderboard.hidden = true;
+        onlineStatus.textContent = o.error ?? o.players
+            .map(p => p.name + (p.connected ? "" : " (away)"))
+            .join(" vs ");
+    };
+
+    // Views without a game of their own leave nothing to draw, so that settings changes do not redraw an old game
+    const state$ = screen$.pipe(
+        switchMap(({view, mode}) =>
+            view === "playback" && lastReplay$.value ? playback$(lastReplay$.value)
+                : view === "menu" || view === "versus" || view === "online" ? of(null)
+                    : live$(mode))
+    );
+
+    const match$ = screen$.pipe(
+        switchMap(({view, mode}) => view === "versus" ? versus$(mode) : of(null))
+    );
+
+    const onlineView$ = screen$.pipe(
+        switchMap(({view}) => view === "online" ? onlineGame$() : of(null))
+    );
+
+    /** The state with the bot's hint, worked out again only when a new piece comes in */
+    type Frame = Readonly<{ s: State, settings: Settings, hint: Placement | null }>;
+    const samePiece = (a: State, b: State) => a.grid === b.grid && a.usedHold === b.usedHold;
+
+    const source$ = combineLatest([state$, settings$]).pipe(
+        filter((pair): pair is [State, Settings] => pair[0] !== null),
+        scan((previous: Frame | null, [s, settings]: [State, Settings]): Frame => ({
+            s,
+            settings,
+            hint: settings.bot !== "hint" || s.phase !== Phase.PLAYING ? null
+                : previous?.hint && samePiece(previous.s, s) ? previous.hint
+                    : bestPlacement(s)
+        }), null),
+        filter((frame): frame is Frame => frame !== null)
+    ).subscribe(({s, settings, hint}) => {
+        const stats = countStats(0, s);
+        render(s, settings, hint);
+        renderStats(statRows(stats), statsTable);
+        renderOverlay(s, stats);
+        hear(0, s, true);
+    });
+
+    combineLatest([match$, settings$]).pipe(
+        filter((pair): pair is [Match, Settings] => pair[0] !== null)
+    ).subscribe(([m, settings]) => renderMatch(m, settings));
+
+    combineLatest([onlineView$, settings$]).pipe(
+        filter((pair): pair is [Online, Settings] => pair[0] !== null)
+    ).subscribe(([o, settings]) => renderOnline(o, settings));
 
 }
 
@@ -0,0 +1,231 @@
+/** Game modes */
+import {Constants, Phase} from "./types.ts";
+import type {State} from "./state.ts";
+import {garbageLines, garbageRows} from "./garbage.ts";
+
+/**
+ * @typedef ModeId
+ * @type {"endless"|"sprint"|"ultra"|"marathon"|"zen"|"dig"|"versus"}
+ */
+type ModeId = "endless" | "sprint" | "ultra" | "marathon" | "zen" | "dig" | "versus";
+
+/**
+ * @typedef GameMode
+ * @type {object}
+ * @property {ModeId} id - The identifier of the mode, stored in the game config.
+ * @property {string} name - The name shown in the menu.
+ * @property {string} goal - A one-line description of the goal, shown in the menu.
+ * @property {number} players - The number of players, each with their own board.
+ * @property {boolean} topOut - Whether topping out ends the game. If not, the board is cleared instead.
+ * @property {boolean} cheese - Whether the board starts with rows of cheese, and more rise during play,
+ * as set by the dig config.
+ * @property {function(number): number} level - The level reached after clearing a number of rows.
+ * @property {function(State): boolean} goalReached - Whether the game is won and should end.
+ * @property {function(State): string} progress - The progress towards the goal, shown during play.
+ * @property {string} resultLabel - What the result of a game measures.
+ * @property {function(State): (number|null)} result - The result of a finished game, or null if it does not count.
+ * @property {boolean} lowerIsBetter - Whether a lower result is a better one.
+ * @property {function(number): string} formatResult - Format a result for display.
+ */
+type GameMode = Readonly<{
+    id: ModeId,
+    name: string,
+    goal: string,
+    players: number,
+    topOut: boolean,
+    cheese: boolean,
+    level: (rowsCleared: number) => number,
+    goalReached: (s: State) => boolean,
+    progress: (s: State) => string,
+    resultLabel: string,
+    result: (s: State) => number | null,
+    lowerIsBetter: boolean,
+    formatResult: (result: number) => string
+}>;
+
+const SPRINT_LINES = 40;
+const MARATHON_LINES = 150;
+const ULTRA_TICKS = 2 * 60 * 1000 / (Constants.TICK_RATE_MS / 10);
+
+/**
+ * Format a number of game ticks as a time, e.g. "1:05.30".
+ * @param {number} ticks - The number of ticks.
+ * @returns {string} - The formatted time.
+ */
+const formatTicks = (ticks: number): string => {
+    const centiseconds = Math.floor(ticks * Constants.TICK_RATE_MS / 100);
+    const minutes = Math.floor(centiseconds / 6000);
+    const seconds = Math.floor(centiseconds / 100) % 60;
+    return `${minutes}:${String(seconds).padStart(2, "0")}.${String(centiseconds % 100).padStart(2, "0")}`;
+}
+
+/**
+ * Format a score for display.
+ * @param {number} score - The score.
+ * @returns {string} - The formatted score.
+ */
+const formatScore = (score: number): string => String(score);
+
+/**
+ * Every game mode, by identifier.
+ * @constant {Record<ModeId, GameMode>}
+ */
+const MODES: Record<ModeId, GameMode> = {
+    endless: {
+        id: "endless",
+        name: "Endless",
+        goal: "Play until you top out, levelling up every 3 lines",
+        players: 1,
+        topOut: true,
+        cheese: false,
+        level: rowsCleared => 1 + Math.floor(rowsCleared / 3),
+        goalReached: () => false,
+        progress: s => `${s.rowsCleared} lines`,
+        resultLabel: "Score",
+        result: s => s.score,
+        lowerIsBetter: false,
+        formatResult: formatScore
+    },
+    sprint: {
+        id: "sprint",
+        name: "Sprint 40L",
+        goal: `Clear ${SPRINT_LINES} lines as fast as possible`,
+        players: 1,
+        topOut: true,
+        cheese: false,
+        level: () => 1,
+        goalReached: s => s.rowsCleared >= SPRINT_LINES,
+        progress: s => `${Math.min(s.rowsCleared, SPRINT_LINES)}/${SPRINT_LINES} lines`,
+        resultLabel: "Time",
+        // Only finished sprints have a time
+        result: s => s.completed ? s.ticks : null,
+        lowerIsBetter: true,
+        formatResult: formatTicks
+    },
+    ultra: {
+        id: "ultra",
+        name: "Ultra",
+        goal: `Score as much as possible in ${formatTicks(ULTRA_TICKS).split(".")[0]}`,
+        players: 1,
+        topOut: true,
+        cheese: false,
+        level: () => 1,
+        goalReached: s => s.ticks >= ULTRA_TICKS,
+        progress: s => `${formatTicks(Math.max(ULTRA_TICKS - s.ticks, 0))} left`,
+        resultLabel: "Score",
+        result: s => s.score,
+        lowerIsBetter: false,
+        formatResult: formatScore
+    },
+    marathon: {
+        id: "marathon",
+        name: "Marathon",
+        goal: `Clear ${MARATHON_LINES} lines, levelling up every 10`,
+        players: 1,
+        topOut: true,
+        cheese: false,
+        level: rowsCleared => 1 + Math.floor(rowsCleared / 10),
+        goalReached: s => s.rowsCleared >= MARATHON_LINES,
+        progress: s => `${Math.min(s.rowsCleared, MARATHON_LINES)}/${MARATHON_LINES} lines`,
+        resultLabel: "Score",
+        result: s => s.score,
+        lowerIsBetter: false,
+        formatResult: formatScore
+    },
+    zen: {
+        id: "zen",
+        name: "Zen",
+        goal: "No levels, no top out, no pressure",
+        players: 1,
+        topOut: false,
+        cheese: false,
+        level: () => 1,
+        goalReached: () => false,
+        progress: s => `${s.rowsCleared} lines`,
+        resultLabel: "Score",
+        result: s => s.score,
+        lowerIsBetter: false,
+        formatResult: formatScore
+    },
+    dig: {
+        id: "dig",
+        name: "Dig Race",
+        goal: "Clear every garbage line as fast as possible",
+        players: 1,
+        topOut: true,
+        cheese: true,
+        level: () => 1,
+        // Garbage still waiting to rise has to be dug through too
+        goalReached: s => garbageRows(s.grid) === 0 && s.garbage.length === 0,
+        progress: s => `${garbageRows(s.grid) + garbageLines(s.garbage)} garbage lines left`,
+        resultLabel: "Time",
+        result: s => s.completed ? s.ticks : null,
+        lowerIsBetter: true,
+        formatResult: formatTicks
+    },
+    versus: {
+        id: "versus",
+        name: "2P Versus",
+        goal: "Send garbage to top out your opponent, levelling up every 10 lines",
+        players: 2,
+        topOut: true,
+        cheese: false,
+        level: rowsCleared => 1 + Math.floor(rowsCleared / 10),
+        goalReached: () => false,
+        progress: s => `${s.rowsCleared} lines`,
+        resultLabel: "Lines",
+        // Versus games are ranked by the match, not the leaderboard
+        result: () => null,
+        lowerIsBetter: false,
+        formatResult: String
+    }
+};
+
+/**
+ * Look up the mode a game is played in.
+ * @param {State} s - The state of the game.
+ * @returns {GameMode} - The game mode.
+ */
+const modeOf = (s: State): GameMode => MODES[s.config.mode];
+
+/**
+ * End the game, keeping its result as the best one if it beats it.
+ * @param {State} s - The current state of the game.
+ * @param {boolean} completed - Whether the goal of the mode was reached.
+ * @returns {State} - The ended game.
+ */
+const endGame = (s: State, completed: boolean): State => {
+    const ended = {
+        ...s,
+        phase: Phase.GAME_OVER,
+        completed,
+        events: s.events.concat({tick: s.ticks, type: "gameOver", completed})
+    };
+    return {...ended, best: bestResult(ended)};
+}
+
+/**
+ * End the game as a win if the goal of its mode has been reached, while it is being played or between pieces.
+ * @param {State} s - The current state of the game.
+ * @returns {State} - The state, ended and completed if the goal has been reached.
+ */
+const checkGoal = (s: State): State =>
+    (s.phase === Phase.PLAYING || s.phase === Phase.CLEARING || s.phase === Phase.ENTRY) && modeOf(s).goalReached(s)
+        ? endGame(s, true)
+        : s;
+
+/**
+ * Pick the better of the best result so far and the result of a finished game.
+ * @param {State} s - The state of the finished game.
+ * @returns {(number|null)} - The new best result, null if there is none yet.
+ */
+const bestResult = (s: State): number | null => {
+    const mode = modeOf(s);
+    const result = mode.result(s);
+    if (result === null) return s.best;
+    if (s.best === null) return result;
+    return mode.lowerIsBetter ? Math.min(result, s.best) : Math.max(result, s.best);
+}
+
+export {MODES, formatTicks, modeOf, endGame, checkGoal, bestResult}
+export type {ModeId, GameMode}
@@ -0,0 +1,313 @@
+/** The browser side of online play: the client's view of a room, and the WebSocket it talks to the server over */
+import {defer, merge, Observable, Subject} from "rxjs";
+import {webSocket} from "rxjs/webSocket";
+import {filter, finalize, map, repeat, retry, scan, tap} from "rxjs/operators";
+import {Action} from "./types.ts";
+import {Pause, Restart, TogglePause} from "./state.ts";
+import {encodeAction} from "./replay.ts";
+import {
+    advanceTimeline,
+    ClientMessage,
+    encodeMessage,
+    FRAME_INTERVAL,
+    hashState,
+    LobbyPlayer,
+    parseServerMessage,
+    playInput,
+    PROTOCOL_VERSION,
+    rebuildTimeline,
+    ServerMessage,
+    startTimeline,
+    Timeline
+} from "./protocol.ts";
+
+/** The time to wait before reconnecting after the connection drops, in milliseconds */
+const RECONNECT_DELAY_MS = 2000;
+
+/**
+ * Where the client is in a room.
+ * @typedef OnlineStatus
+ * @type {"connecting"|"lobby"|"playing"|"over"}
+ */
+type OnlineStatus = "connecting" | "lobby" | "playing" | "over";
+
+/**
+ * @typedef Online
+ * @type {object}
+ * @property {OnlineStatus} status - Where the client is in the room.
+ * @property {string} room - The name of the room.
+ * @property {string} name - The name of the player.
+ * @property {(number|null)} player - The seat of the player, null until the server has seated them.
+ * @property {(string|null)} session - The token the player rejoins with, null until the server has seated them.
+ * @property {LobbyPlayer[]} players - Everyone in the room.
+ * @property {Timeline[]} timelines - The game of every player, rebuilt from the inputs the server relays.
+ * The player's own game is played locally.
+ * @property {(number|null)} winner - The winner of the last game, null for a draw or before any game has ended.
+ * @property {(string|null)} error - The last error the server sent.
+ * @property {ClientMessage[]} outbox - The messages to send after the last action.
+ */
+type Online = Readonly<{
+    status: OnlineStatus,
+    room: string,
+    name: string,
+    player: number | null,
+    session: string | null,
+    players: ReadonlyArray<LobbyPlayer>,
+    timelines: ReadonlyArray<Timeline>,
+    winner: number | null,
+    error: string | null,
+    outbox: ReadonlyArray<ClientMessage>
+}>;
+
+/**
+ * Start a client, before it has connected.
+ * @param {string} room - The name of the room to join.
+ * @param {string} name - The name of the player.
+ * @returns {Online} - The client.
+ */
+const createOnline = (room: string, name: string): Online => ({
+    status: "connecting",
+    room,
+    name,
+    player: null,
+    session: null,
+    players: [],
+    timelines: [],
+    winner: null,
+    error: null,
+    outbox: []
+});
+
+/**
+ * Change the game of one player.
+ * @param {Online} o - The client.
+ * @param {number} player - The player.
+ * @param {function(Timeline): Timeline} update - The change to their game.
+ * @returns {Online} - The new client.
+ */
+const updateTimeline = (o: Online, player: number, update: (t: Timeline) => Timeline): Online =>
+    ({...o, timelines: o.timelines.map((t, i) => i === player ? update(t) : t)});
+
+/**
+ * The player's own game.
+ * @param {Online} o - The client.
+ * @returns {(Timeline|null)} - Their game, null when no game is being played.
+ */
+const ownTimeline = (o: Online): Timeline | null =>
+    o.status === "playing" && o.player !== null ? o.timelines[o.player] ?? null : null;
+
+/**
+ * @interface OnlineAction
+ * @method
+ * @param {Online} o - The current client.
+ * @return {Online} - The new client after the action is applied.
+ */
+interface OnlineAction {
+    apply(o: Online): Online;
+}
+
+/**
+ * Class representing the connection opening, the first time or after it dropped.
+ * @implements {OnlineAction}
+ */
+class Connected implements OnlineAction {
+    /**
+     * Join the room, with the session token if the player has had a seat before.
+     * @param {Online} o - The current client.
+     * @return {Online} The new client.
+     */
+    apply(o: Online): Online {
+        return {
+            ...o,
+            outbox: [{type: "join", version: PROTOCOL_VERSION, room: o.room, name: o.name, session: o.session}]
+        };
+    }
+}
+
+/**
+ * Class representing the connection dropping.
+ * @implements {OnlineAction}
+ */
+class Disconnected implements OnlineAction {
+    /**
+     * Wait for the connection to come back. The game is kept, and the server sends it again on rejoining.
+     * @param {Online} o - The current client.
+     * @return {Online} The new client.
+     */
+    apply(o: Online): Online {
+        return {...o, status: "connecting"};
+    }
+}
+
+/**
+ * Class representing a message from the server.
+ * @implements {OnlineAction}
+ */
+class ServerEvent implements OnlineAction {
+    /**
+     * @param {ServerMessage} message - The message.
+     */
+    constructor(public readonly message: ServerMessage) {}
+
+    /**
+     * Follow the server.
+     * @param {Online} o - The current client.
+     * @return {Online} The new client.
+     */
+    apply(o: Online): Online {
+        const message = this.message;
+        switch (message.type) {
+            case "welcome":
+                return {...o, player: message.player, session: message.session, error: null};
+            case "lobby":
+                return {...o, players: message.players, status: o.status === "connecting" ? "lobby" : o.status};
+            case "start":
+                return {
+                    ...o,
+                    status: "playing",
+                    timelines: o.players.map(_ => startTimeline(message.seed, message.config)),
+                    winner: null,
+                    error: null
+                };
+            case "input":
+                return message.player === o.player ? o
+                    : updateTimeline(o, message.player, t => playInput(t, message));
+            case "frame":
+                return message.player === o.player ? o
+                    : updateTimeline(o, message.player, t => advanceTimeline(t, message.tick));
+            case "garbage": {
+                // Garbage is played as an input, and the server is told the tick so that it rises on the same one there
+                const own = ownTimeline(o);
+                if (own === null || o.player === null) return o;
+                const input = {tick: own.tick, action: {type: "garbage", lines: message.lines, hole: message.hole} as const};
+                return {
+                    ...updateTimeline(o, o.player, t => playInput(t, input)),
+                    outbox: [{type: "garbage", tick: input.tick}]
+                };
+            }
+            case "resume":
+                return {
+                    ...o,
+                    status: "playing",
+                    timelines: message.logs.map((log, i) =>
+                        rebuildTimeline(message.seed, message.config, log, message.ticks[i])),
+                    winner: null
+                };
+            case "gameOver":
+                return {...o, status: "over", winner: message.winner};
+            case "error":
+                return {...o, error: message.message};
+        }
+    }
+}
+
+/**
+ * Class representing an input of the player.
+ * @implements {OnlineAction}
+ */
+class LocalInput implements OnlineAction {
+    /**
+     * @param {Action} action - The input.
+     */
+    constructor(public readonly action: Action) {}
+
+    /**
+     * Play the input on the player's game and send it, unless it changes nothing. Restarting readies the player
+     * for the next game, and online games cannot be paused.
+     * @param {Online} o - The current client.
+     * @return {Online} The new client.
+     */
+    apply(o: Online): Online {
+        if (this.action instanceof Restart)
+            return o.status === "lobby" || o.status === "over" ? {...o, outbox: [{type: "ready"}]} : o;
+        const own = ownTimeline(o);
+        if (own === null || o.player === null || this.action instanceof Pause || this.action instanceof TogglePause)
+            return o;
+        const input = {tick: own.tick, action: encodeAction(this.action)};
+        const played = playInput(own, input);
+        // Inputs that change nothing, like a shift held against the wall, are not sent
+        if (played.state === own.state) return o;
+        return {
+            ...updateTimeline(o, o.player, _ => played),
+            outbox: [{type: "input", ...input}]
+        };
+    }
+}
+
+/**
+ * Class representing the passing of one tick.
+ * @implements {OnlineAction}
+ */
+class LocalTick implements OnlineAction {
+    /**
+     * Play a tick of the player's game, sending a hash of it every {@link FRAME_INTERVAL} ticks.
+     * Other players' games only move on when the server relays them.
+     * @param {Online} o - The current client.
+     * @return {Online} The new client.
+     */
+    apply(o: Online): Online {
+        const own = ownTimeline(o);
+        if (own === null || o.player === null) return o;
+        const t = advanceTimeline(own, own.tick + 1);
+        return {
+            ...updateTimeline(o, o.player, _ => t),
+            outbox: t.tick % FRAME_INTERVAL === 0 ? [{type: "frame", tick: t.tick, hash: hashState(t.state)}] : []
+        };
+    }
+}
+
+/**
+ * Reduce the current client by applying the specified action. Messages from an earlier action are dropped,
+ * as they have been sent.
+ * @param {Online} o - The current client.
+ * @param {OnlineAction} action - The action to apply.
+ * @return {Online} The new client.
+ */
+const reduceOnline = (o: Online, action: OnlineAction): Online => action.apply({...o, outbox: []});
+
+/**
+ * Play online: connect to a server, join a room and play the local actions there.
+ * The connection is retried whenever it drops, rejoining with the same seat.
+ * @param {string} url - The WebSocket URL of the server.
+ * @param {string} room - The name of the room.
+ * @param {string} name - The name of the player.
+ * @param {Observable<OnlineAction>} local$ - The inputs and ticks of the player.
+ * @returns {Observable<Online>} - The client after each action.
+ */
+const online$ = (url: string, room: string, name: string, local$: Observable<OnlineAction>): Observable<Online> =>
+    defer(() => {
+        const connection$ = new Subject<OnlineAction>();
+        const socket = webSocket<string>({
+            url,
+            serializer: text => text,
+            deserializer: ({data}) => String(data),
+            openObserver: {next: () => connection$.next(new Connected())},
+            closeObserver: {next: () => connection$.next(new Disconnected())}
+        });
+        const incoming$ = socket.pipe(
+            retry({delay: RECONNECT_DELAY_MS}),
+            repeat({delay: RECONNECT_DELAY_MS}),
+            map(parseServerMessage),
+            filter((message): message is ServerMessage => message !== null),
+            map(message => new ServerEvent(message))
+        );
+        return merge(connection$, incoming$, local$).pipe(
+            scan(reduceOnline, createOnline(room, name)),
+            tap(o => o.outbox.forEach(message => socket.next(encodeMessage(message)))),
+            finalize(() => socket.complete())
+        );
+    });
+
+export {
+    RECONNECT_DELAY_MS,
+    createOnline,
+    ownTimeline,
+    reduceOnline,
+    online$,
+    Connected,
+    Disconnected,
+    ServerEvent,
+    LocalInput,
+    LocalTick
+}
+export type {OnlineStatus, Online, OnlineAction}
@@ -0,0 +1,286 @@
+/**
+ * Online play: the messages exchanged with the room server, and the timelines both sides simulate from them.
+ *
+ * A game goes like this:
+ * 1. The client sends `join` with a room name. The server answers `welcome` with its seat and a session token,
+ *    then sends `lobby` to everyone in the room whenever someone joins, leaves or gets ready.
+ * 2. Each client sends `ready`. Once every seat is ready the server sends `start` with the shared seed and rules.
+ * 3. Clients play their own game and send every `input` with the tick it happened on, and a `frame` with a hash
+ *    of their state every {@link FRAME_INTERVAL} ticks. The server plays the same inputs on its own copy of each
+ *    game, relays them so that clients can draw their opponents, and answers a `frame` whose hash does not match
+ *    with `resume`, putting the client back on the server's state.
+ * 4. When a lock sends garbage, the server sends `garbage` to the opponent, who plays it as an input and answers
+ *    `garbage` with the tick it played it on, so that it rises at the same tick everywhere.
+ * 5. When all but one player have topped out, the server sends `gameOver`. Another round of `ready` starts a new game.
+ * A client that reconnects sends `join` with its session token, and the server answers `resume` with every input
+ * played so far.
+ */
+import {GameConfig} from "./config.ts";
+import {ActionRecord, decodeAction} from "./replay.ts";
+import {createInitialState, GameFlow, reduceState, State} from "./state.ts";
+import {Direction} from "./util.ts";
+import {Turn} from "./rotation.ts";
+
+/**
+ * The version of the protocol. Clients and servers of different versions cannot play together.
+ * @constant {number}
+ */
+const PROTOCOL_VERSION = 1;
+
+/** The number of ticks between two frames */
+const FRAME_INTERVAL = 10;
+
+/** How many ticks past the server's copy of their game, and past the clock, a player may send an input or a frame for */
+const MAX_TICKS_AHEAD = 6 * FRAME_INTERVAL;
+
+/**
+ * @typedef LobbyPlayer
+ * @type {object}
+ * @property {string} name - The name of the player.
+ * @property {boolean} ready - Whether the player is ready for the next game.
+ * @property {boolean} connected - Whether the player is connected.
+ */
+type LobbyPlayer = Readonly<{ name: string, ready: boolean, connected: boolean }>;
+
+/**
+ * An input, with the tick it was played on.
+ * @typedef TimedInput
+ * @type {object}
+ * @property {number} tick - The number of ticks played before the input.
+ * @property {ActionRecord} action - The input.
+ */
+type TimedInput = Readonly<{ tick: number, action: ActionRecord }>;
+
+/**
+ * A message from a client to the server.
+ * @typedef ClientMessage
+ * @type {object}
+ */
+type ClientMessage = Readonly<
+    | { type: "join", version: number, room: string, name: string, session: string | null }
+    | { type: "ready" }
+    | { type: "input", tick: number, action: ActionRecord }
+    | { type: "garbage", tick: number }
+    | { type: "frame", tick: number, hash: number }
+>;
+
+/**
+ * A message from the server to a client. Players are numbered by their seat in the room.
+ * @typedef ServerMessage
+ * @type {object}
+ */
+type ServerMessage = Readonly<
+    | { type: "welcome", player: number, session: string }
+    | { type: "lobby", players: ReadonlyArray<LobbyPlayer> }
+    | { type: "start", seed: number, config: GameConfig }
+    | { type: "input", player: number, tick: number, action: ActionRecord }
+    | { type: "frame", player: number, tick: number }
+    | { type: "garbage", lines: number, hole: number }
+    | { type: "resume", seed: number, config: GameConfig, logs: ReadonlyArray<ReadonlyArray<TimedInput>>, ticks: ReadonlyArray<number> }
+    | { type: "gameOver", winner: number | null }
+    | { type: "error", message: string }
+>;
+
+/**
+ * Serialize a message.
+ * @param {(ClientMessage|ServerMessage)} message - The message.
+ * @returns {string} - The JSON text.
+ */
+const encodeMessage = (message: ClientMessage | ServerMessage): string => JSON.stringify(message);
+
+/**
+ * Check that a value is a plain object.
+ * @param {unknown} value - The value.
+ * @returns {boolean} - True if it is an object that is not null.
+ */
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null;
+
+/**
+ * Check that every field of an object is a whole number.
+ * @param {Record<string, unknown>} value - The object.
+ * @param {string[]} fields - The fields.
+ * @returns {boolean} - True if every field is an integer.
+ */
+const integers = (value: Record<string, unknown>, ...fields: string[]): boolean =>
+    fields.every(field => Number.isInteger(value[field]));
+
+/**
+ * Check that a value describes an input.
+ * @param {unknown} value - The value.
+ * @returns {boolean} - True if it is a well-formed {@link ActionRecord}.
+ */
+const isActionRecord = (value: unknown): value is ActionRecord => {
+    if (!isRecord(value)) return false;
+    switch (value.type) {
+        case "move":
+            return (value.direction === Direction.LEFT || value.direction === Direction.RIGHT)
+                && Number.isSafeInteger(value.distance) && (value.distance as number) >= 1;
+        case "rotate":
+            return value.turn === Turn.CLOCKWISE || value.turn === Turn.HALF || value.turn === Turn.COUNTER_CLOCKWISE;
+        case "softDrop":
+            return value.factor === null || (typeof value.factor === "number" && Number.isFinite(value.factor) && value.factor > 0);
+        case "garbage": return integers(value, "lines", "hole");
+        case "down":
+        case "drop":
+        case "hold":
+        case "pause":
+        case "togglePause":
+            return true;
+        default:
+            return false;
+    }
+}
+
+/**
+ * Check that a value describes an input a client may send. Clients acknowledge garbage with a `garbage` message
+ * instead, so that only the server decides what it is, and online games cannot be paused.
+ * @param {unknown} value - The value.
+ * @returns {boolean} - True if it is a well-formed {@link ActionRecord} of a player's own input.
+ */
+const isClientAction = (value: unknown): value is ActionRecord =>
+    isActionRecord(value) && value.type !== "garbage" && value.type !== "pause" && value.type !== "togglePause";
+
+/**
+ * Parse a message from a client. Clients are not trusted, so every field is checked.
+ * @param {string} text - The JSON text.
+ * @returns {(ClientMessage|null)} - The message, or null if it is malformed.
+ */
+const parseClientMessage = (text: string): ClientMessage | null => {
+    try {
+        const value: unknown = JSON.parse(text);
+        if (!isRecord(value)) return null;
+        switch (value.type) {
+            case "join":
+                return integers(value, "version") && typeof value.room === "string" && typeof value.name === "string"
+                && (value.session === null || typeof value.session === "string") ? value as ClientMessage : null;
+            case "ready":
+                return {type: "ready"};
+            case "input":
+                return integers(value, "tick") && isClientAction(value.action) ? value as ClientMessage : null;
+            case "garbage":
+                return integers(value, "tick") ? {type: "garbage", tick: value.tick as number} : null;
+            case "frame":
+                return integers(value, "tick", "hash") ? value as ClientMessage : null;
+            default:
+                return null;
+        }
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Parse a message from the server.
+ * @param {string} text - The JSON text.
+ * @returns {(ServerMessage|null)} - The message, or null if it is not one.
+ */
+const parseServerMessage = (text: string): ServerMessage | null => {
+    try {
+        const value: unknown = JSON.parse(text);
+        return isRecord(value) && typeof value.type === "string" ? value as ServerMessage : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Hash the parts of a state that both sides must agree on, with 32-bit FNV-1a.
+ * @param {State} s - The state.
+ * @returns {number} - The hash.
+ */
+const hashState = (s: State): number => {
+    const text = JSON.stringify([
+        s.grid,
+        s.currentTetromino.kind,
+        s.currentTetromino.rotation,
+        s.currentTetromino.position,
+        s.heldElement?.kind ?? null,
+        s.generator.seed,
+        s.garbage,
+        s.score,
+        s.rowsCleared,
+        s.ticks,
+        s.phase,
+        s.delay
+    ]);
+    return Array.from(text).reduce((hash, char) => Math.imul(hash ^ char.charCodeAt(0), 16777619) >>> 0, 2166136261);
+}
+
+/**
+ * A game as rebuilt from its inputs.
+ * @typedef Timeline
+ * @type {object}
+ * @property {State} state - The state of the game.
+ * @property {number} tick - The number of ticks played, counting those spent counting down.
+ * @property {TimedInput[]} log - Every input played, in order.
+ */
+type Timeline = Readonly<{
+    state: State,
+    tick: number,
+    log: ReadonlyArray<TimedInput>
+}>;
+
+/**
+ * Start a timeline.
+ * @param {number} seed - The shared seed.
+ * @param {GameConfig} config - The rules of the game.
+ * @returns {Timeline} - The timeline at tick 0.
+ */
+const startTimeline = (seed: number, config: GameConfig): Timeline =>
+    ({state: createInitialState(seed, config), tick: 0, log: []});
+
+/**
+ * Play ticks until a timeline reaches a tick. Timelines never go back.
+ * @param {Timeline} t - The timeline.
+ * @param {number} tick - The tick to reach.
+ * @returns {Timeline} - The timeline at the tick, or unchanged if it is already past it.
+ */
+const advanceTimeline = (t: Timeline, tick: number): Timeline =>
+    tick <= t.tick ? t : {
+        ...t,
+        state: Array.from({length: tick - t.tick}).reduce<State>(s => reduceState(s, new GameFlow()), t.state),
+        tick
+    };
+
+/**
+ * Play an input on a timeline, first playing the ticks before it.
+ * @param {Timeline} t - The timeline.
+ * @param {TimedInput} input - The input.
+ * @returns {Timeline} - The timeline with the input played and logged.
+ */
+const playInput = (t: Timeline, input: TimedInput): Timeline => {
+    const advanced = advanceTimeline(t, input.tick);
+    return {
+        ...advanced,
+        state: reduceState(advanced.state, decodeAction(input.action)),
+        log: advanced.log.concat(input)
+    };
+}
+
+/**
+ * Rebuild a timeline from its inputs, e.g. after a reconnect.
+ * @param {number} seed - The shared seed.
+ * @param {GameConfig} config - The rules of the game.
+ * @param {TimedInput[]} log - Every input played.
+ * @param {number} tick - The tick the game has reached.
+ * @returns {Timeline} - The timeline at the tick.
+ */
+const rebuildTimeline = (seed: number, config: GameConfig, log: ReadonlyArray<TimedInput>, tick: number): Timeline =>
+    advanceTimeline(log.reduce(playInput, startTimeline(seed, config)), tick);
+
+export {
+    PROTOCOL_VERSION,
+    FRAME_INTERVAL,
+    MAX_TICKS_AHEAD,
+    encodeMessage,
+    isActionRecord,
+    parseClientMessage,
+    parseServerMessage,
+    hashState,
+    startTimeline,
+    advanceTimeline,
+    playInput,
+    rebuildTimeline
+}
+export type {LobbyPlayer, TimedInput, ClientMessage, ServerMessage, Timeline}
@@ -0,0 +1,220 @@
+/** Piece generation */
+import {PieceKind, Tetromino} from "./types.ts";
+
+/**
+ * @class
+ * @classdesc A pure random number generator. The seed is threaded through the caller's state
+ * instead of being read from the clock, so the same seed always gives the same sequence.
+ */
+abstract class RNG {
+    // LCG using GCC's constants
+    private static m = 0x80000000; // 2**31
+    private static a = 1103515245;
+    private static c = 12345;
+
+    /**
+     * Call `hash` repeatedly to generate the sequence of hashes.
+     * `Math.imul` keeps the multiplication exact in 32 bits, the mask takes it modulo 2**31.
+     * @param {number} seed - A seed value.
+     * @returns {number} - A hash of the seed.
+     */
+    public static hash = (seed: number) => (Math.imul(RNG.a, seed) + RNG.c) & (RNG.m - 1);
+
+    /**
+     * Generate a random integer between min and max (inclusive).
+     * @param {number} seed - The current seed.
+     * @param {number} min - The minimum value.
+     * @param {number} max - The maximum value.
+     * @returns {{value: number, seed: number}} - A random integer between min and max, and the next seed.
+     */
+    public static randomInt = (seed: number, min: number, max: number) => {
+        const hash = RNG.hash(seed);
+        const scale = hash / RNG.m;
+        return {value: Math.floor(min + scale * (max - min + 1)), seed: hash};
+    }
+}
+
+/**
+ * The algorithm used to pick the next piece.
+ * @enum
+ * @readonly
+ */
+enum Randomizer {
+    /** Guideline 7-bag: every piece once per bag of seven, in shuffled order. */
+    BAG,
+    /** Classic memoryless: every draw is independent. */
+    MEMORYLESS,
+    /** NES-style: a repeat of the previous piece (or the dummy roll) is rerolled once. */
+    NES,
+    /** TGM-style: rerolls pieces found in the last four drawn, up to six times. */
+    TGM
+}
+
+/**
+ * @typedef {Object} PieceGenerator
+ * @property {Randomizer} randomizer - The algorithm used to pick the next piece.
+ * @property {number} seed - The current seed of the PRNG.
+ * @property {number[]} bag - Indices of the pieces left in the current bag (7-bag only).
+ * @property {number[]} history - Indices of the most recently drawn pieces, newest last.
+ */
+type PieceGenerator = Readonly<{
+    randomizer: Randomizer,
+    seed: number,
+    bag: ReadonlyArray<number>,
+    history: ReadonlyArray<number>
+}>;
+
+const TGM_HISTORY_LENGTH = 4;
+const TGM_ROLLS = 6;
+
+/**
+ * Find the index of each kind of piece in a piece set.
+ * @param {Tetromino[]} pieces - The piece set.
+ * @param {PieceKind[]} kinds - The kinds to look for.
+ * @returns {number[]} - The index of each kind, -1 if the piece set does not have it.
+ */
+const indicesOf = (pieces: ReadonlyArray<Tetromino>, kinds: PieceKind[]): number[] =>
+    kinds.map(kind => pieces.findIndex(piece => piece.kind === kind));
+
+/**
+ * Create a piece generator from a seed.
+ * @param {Randomizer} randomizer - The algorithm used to pick the next piece.
+ * @param {number} seed - The seed of the PRNG.
+ * @param {Tetromino[]} pieces - The piece set to draw from.
+ * @returns {PieceGenerator} - A generator that has not drawn any piece yet.
+ */
+const createGenerator = (randomizer: Randomizer, seed: number, pieces: ReadonlyArray<Tetromino>): PieceGenerator => ({
+    randomizer,
+    seed,
+    bag: [],
+    // TGM starts with a history full of S and Z so that neither is dealt first
+    history: randomizer === Randomizer.TGM
+        ? indicesOf(pieces, ["Z", "Z", "S", "S"])
+        : []
+});
+
+/**
+ * Shuffle the indices 0..count-1 with a Fisher-Yates shuffle.
+ * @param {number} seed - The current seed.
+ * @param {number} count - The number of indices.
+ * @returns {{bag: number[], seed: number}} - The shuffled indices and the next seed.
+ */
+const shuffleBag = (seed: number, count: number) =>
+    Array.from({length: count}, (_, i) => i)
+        .reduceRight(({bag, seed}, _, i) => {
+            const roll = RNG.randomInt(seed, 0, i);
+            const swapped = bag.map((piece, j) => j === i ? bag[roll.value] : j === roll.value ? bag[i] : piece);
+            return {bag: swapped, seed: roll.seed};
+        }, {bag: Array.from({length: count}, (_, i) => i), seed});
+
+/**
+ * Draw the index of the next piece.
+ * @param {PieceGenerator} generator - The current generator.
+ * @param {Tetromino[]} pieces - The piece set to draw from.
+ * @returns {{index: number, seed: number, bag: number[]}} - The drawn index, the next seed and the bag left over.
+ */
+const roll = (generator: PieceGenerator, pieces: ReadonlyArray<Tetromino>) => {
+    const count = pieces.length;
+    const previous = generator.history[generator.history.length - 1];
+
+    switch (generator.randomizer) {
+        case Randomizer.BAG: {
+            const {bag, seed} = generator.bag.length
+                ? {bag: generator.bag, seed: generator.seed}
+                : shuffleBag(generator.seed, count);
+            return {index: bag[0], seed, bag: bag.slice(1)};
+        }
+
+        case Randomizer.MEMORYLESS: {
+            const {value, seed} = RNG.randomInt(generator.seed, 0, count - 1);
+            return {index: value, seed, bag: generator.bag};
+        }
+
+        case Randomizer.NES: {
+            // Roll one extra "dummy" value; it and repeats of the previous piece get a single reroll
+            const first = RNG.randomInt(generator.seed, 0, count);
+            if (first.value !== count && first.value !== previous)
+                return {index: first.value, seed: first.seed, bag: generator.bag};
+            const second = RNG.randomInt(first.seed, 0, count - 1);
+            return {index: second.value, seed: second.seed, bag: generator.bag};
+        }
+
+        case Randomizer.TGM: {
+            if (generator.history.length <= TGM_HISTORY_LENGTH) {
+                // The very first piece is drawn from the pieces other than S, Z and O
+                const excluded = indicesOf(pieces, ["S", "Z", "O"]);
+                const allowed = pieces.map((_, i) => i).filter(i => !excluded.includes(i));
+                const choices = allowed.length ? allowed : pieces.map((_, i) => i);
+                const {value, seed} = RNG.randomInt(generator.seed, 0, choices.length - 1);
+                return {index: choices[value], seed, bag: generator.bag};
+            }
+            const excluded = generator.history.slice(-TGM_HISTORY_LENGTH);
+            const draw = (seed: number, rollsLeft: number): { value: number, seed: number } => {
+                const next = RNG.randomInt(seed, 0, count - 1);
+                return rollsLeft > 1 && excluded.includes(next.value) ? draw(next.seed, rollsLeft - 1) : next;
+            };
+            const {value, seed} = draw(generator.seed, TGM_ROLLS);
+            return {index: value, seed, bag: generator.bag};
+        }
+    }
+}
+
+/**
+ * Draw the next piece from the generator.
+ * @param {PieceGenerator} generator - The current generator.
+ * @param {Tetromino[]} pieces - The piece set to draw from.
+ * @returns {{tetromino: Tetromino, generator: PieceGenerator}} - The drawn piece and the advanced generator.
+ */
+const nextPiece = (generator: PieceGenerator, pieces: ReadonlyArray<Tetromino>) => {
+    const {index, seed, bag} = roll(generator, pieces);
+    return {
+        tetromino: pieces[index],
+        generator: {
+            ...generator,
+            seed,
+            bag,
+            history: generator.history.concat(index).slice(-(TGM_HISTORY_LENGTH + 1))
+        }
+    };
+}
+
+/**
+ * Draw pieces until the queue holds the requested number of pieces.
+ * @param {PieceGenerator} generator - The current generator.
+ * @param {Tetromino[]} queue - The upcoming pieces, first to spawn first.
+ * @param {number} length - The number of pieces the queue should hold.
+ * @param {Tetromino[]} pieces - The piece set to draw from.
+ * @returns {{queue: Tetromino[], generator: PieceGenerator}} - The filled queue and the advanced generator.
+ */
+const fillQueue = (
+    generator: PieceGenerator,
+    queue: ReadonlyArray<Tetromino>,
+    length: number,
+    pieces: ReadonlyArray<Tetromino>
+): { queue: ReadonlyArray<Tetromino>, generator: PieceGenerator } => {
+    if (queue.length >= length) return {queue, generator};
+    const next = nextPiece(generator, pieces);
+    return fillQueue(next.generator, queue.concat(next.tetromino), length, pieces);
+}
+
+/**
+ * Take the first piece of the queue and refill it. With an empty queue, the piece is drawn directly.
+ * @param {PieceGenerator} generator - The current generator.
+ * @param {Tetromino[]} queue - The upcoming pieces, first to spawn first.
+ * @param {number} length - The number of pieces the queue should hold.
+ * @param {Tetromino[]} pieces - The piece set to draw from.
+ * @returns {{tetromino: Tetromino, queue: Tetromino[], generator: PieceGenerator}} - The piece taken,
+ * the refilled queue and the advanced generator.
+ */
+const takeFromQueue = (
+    generator: PieceGenerator,
+    queue: ReadonlyArray<Tetromino>,
+    length: number,
+    pieces: ReadonlyArray<Tetromino>
+) => {
+    const filled = fillQueue(generator, queue, length + 1, pieces);
+    return {tetromino: filled.queue[0], queue: filled.queue.slice(1), generator: filled.generator};
+}
+
+export {RNG, Randomizer, createGenerator, nextPiece, fillQueue, takeFromQueue}
+export type {PieceGenerator}
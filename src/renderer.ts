@@ -0,0 +1,363 @@
+/**
+ * Board renderers. A renderer keeps what it has drawn and only touches what changed since the last frame,
+ * so that a tick where the piece falls one row costs a handful of attribute writes rather than a new board.
+ */
+import {CellKind, Constants, GridCell, Phase, Tetromino} from "./types.ts";
+import {GameEvent, ghostTetromino, State} from "./state.ts";
+import {garbageLines} from "./garbage.ts";
+import {
+    cellsOf,
+    createSvgElement,
+    effectsFor,
+    renderEffect,
+    renderPatterns,
+    renderQueue,
+    renderTetromino
+} from "./view.ts";
+import {Paint, paintCell, Theme} from "./theme.ts";
+
+/**
+ * What a board shows.
+ * @typedef BoardView
+ * @type {object}
+ * @property {State} state - The game.
+ * @property {boolean} showGhost - Whether to draw the ghost piece.
+ * @property {(Tetromino|null)} hint - The placement the bot suggests, null when it does not.
+ * @property {Theme} theme - What the cells look like.
+ */
+type BoardView = Readonly<{
+    state: State,
+    showGhost: boolean,
+    hint: Tetromino | null,
+    theme: Theme
+}>;
+
+/**
+ * Draws boards. Implementations can draw to SVG, a canvas, or anything else.
+ * @interface Renderer
+ */
+interface Renderer {
+    /**
+     * Draw a board. Drawing the same view twice in a row does nothing the second time.
+     * @param {BoardView} view - What to draw.
+     * @returns {number} - The number of changes made to the page, 0 when nothing changed.
+     */
+    render(view: BoardView): number;
+
+    /**
+     * Empty the board, e.g. while waiting for a game.
+     * @returns {number} - The number of changes made to the page.
+     */
+    clear(): number;
+}
+
+/**
+ * The SVG canvases of a board.
+ * @typedef SvgBoard
+ * @type {object}
+ * @property {SVGElement} svg - The board, with the overlay as its last child.
+ * @property {SVGElement} preview - The next queue.
+ * @property {SVGElement} hold - The held piece.
+ * @property {SVGElement} overlay - The overlay of the board, kept on top.
+ */
+type SvgBoard = Readonly<{
+    svg: SVGElement,
+    preview: SVGElement,
+    hold: SVGElement,
+    overlay: SVGElement
+}>;
+
+/**
+ * The layers pieces are drawn on, bottom first.
+ * @typedef PieceLayer
+ * @type {"ghost"|"hint"|"piece"}
+ */
+type PieceLayer = "ghost" | "hint" | "piece";
+const PIECE_LAYERS: ReadonlyArray<PieceLayer> = ["ghost", "hint", "piece"];
+
+/**
+ * Set the attributes of an element that differ from the given values.
+ * @param {Element} elem - The element.
+ * @param {Record<string, string>} props - The attributes.
+ * @returns {number} - The number of attributes written.
+ */
+const update = (elem: Element, props: Record<string, string>): number =>
+    Object.entries(props).filter(([k, v]) => elem.getAttribute(k) !== v)
+        .map(([k, v]) => elem.setAttribute(k, v)).length;
+
+/**
+ * Remove every child of an element.
+ * @param {Element} elem - The element.
+ * @returns {number} - The number of children removed.
+ */
+const removeChildren = (elem: Element): number => {
+    let removed = 0;
+    for (; elem.lastChild; removed++) elem.removeChild(elem.lastChild);
+    return removed;
+}
+
+/** The fill of cleared rows while they flash */
+const CLEAR_FLASH = "white";
+
+/**
+ * A cell as shown, which is either a cell of the grid or a cell of a cleared row that is flashing.
+ * @typedef ShownCell
+ * @type {(GridCell|"flash")}
+ */
+type ShownCell = GridCell | "flash";
+
+/** The number of SVG renderers made, so that each gives its patterns ids of its own */
+let renderers = 0;
+
+/**
+ * Draw a board in SVG, keeping one node per cell and per block of each piece.
+ * Grid cells only have their fill changed when they change; rows the game has not replaced are not even looked at.
+ * Changing the theme repaints everything once.
+ * Effects are played once for each game event, the first time a state carrying it is drawn.
+ * @param {SvgBoard} board - The canvases of the board.
+ * @returns {Renderer} - The renderer.
+ */
+const createSvgRenderer = (board: SvgBoard): Renderer => {
+    const {svg, preview, hold, overlay} = board;
+    const namespace = svg.namespaceURI;
+    /** Add a node to the board, under the overlay so that it stays on top */
+    const add = (elem: SVGElement) => {
+        svg.insertBefore(elem, overlay.parentNode === svg ? overlay : null);
+        return elem;
+    };
+    // Layers in drawing order: the stack, then the ghost, the hint and the piece, then effects and the garbage meter
+    const cellLayer = add(createSvgElement(namespace, "g", {class: "grid"}));
+    const pieceLayers: Record<PieceLayer, SVGElement> = {
+        ghost: add(createSvgElement(namespace, "g", {class: "ghost"})),
+        hint: add(createSvgElement(namespace, "g", {class: "hint"})),
+        piece: add(createSvgElement(namespace, "g", {class: "piece"}))
+    };
+    const effectLayer = add(createSvgElement(namespace, "g", {class: "effects"}));
+    const meter = add(createSvgElement(namespace, "rect", {class: "garbageMeter", visibility: "hidden"}));
+    const defs = add(createSvgElement(namespace, "defs", {}));
+    const prefix = `board${++renderers}`;
+
+    let previous: BoardView | null = null;
+    let theme: Theme | null = null;
+    let paints: Partial<Record<CellKind, Paint>> = {};
+    let cells: SVGElement[][] = [];
+    let drawnRows: ReadonlyArray<ShownCell>[] = [];
+    let drawnQueue: ReadonlyArray<Tetromino> | null = null;
+    let drawnHeld: Tetromino | null = null;
+    const blocks: Record<PieceLayer, SVGElement[]> = {ghost: [], hint: [], piece: []};
+    let playedEvents: ReadonlyArray<GameEvent> = [];
+    let flashRow: ShownCell[] = [];
+    let emptyRow: ShownCell[] = [];
+
+    /**
+     * The paint of a kind of cell in the current theme.
+     * @param {CellKind} kind - The kind of cell.
+     * @returns {Paint} - The paint.
+     */
+    const paint = (kind: CellKind): Paint => paints[kind] ??= paintCell(theme!, prefix, kind);
+
+    /**
+     * Switch to a theme, forgetting what was drawn in the one before so that it is all repainted.
+     * @param {Theme} next - The theme.
+     * @returns {number} - The number of pattern nodes made.
+     */
+    const useTheme = (next: Theme): number => {
+        if (next === theme) return 0;
+        theme = next;
+        paints = {};
+        drawnRows = [];
+        drawnQueue = null;
+        drawnHeld = null;
+        renderPatterns(next, defs, prefix);
+        return defs.childNodes.length;
+    };
+
+    /**
+     * The attributes of a cell of the grid.
+     * @param {ShownCell} cell - The cell.
+     * @returns {Record<string, string>} - The attributes.
+     */
+    const cellProps = (cell: ShownCell): Record<string, string> =>
+        cell === null ? {visibility: "hidden"}
+            : cell === "flash" ? {fill: CLEAR_FLASH, stroke: theme!.cells.garbage.stroke, visibility: "visible"}
+                : {...paint(cell), visibility: "visible"};
+
+    /**
+     * Make one node per visible cell, when the board is first drawn or changes size.
+     * @param {number} width - The number of columns.
+     * @param {number} height - The number of visible rows.
+     * @param {number} blockSize - The size of a cell, in pixels.
+     * @returns {number} - The number of nodes made.
+     */
+    const buildCells = (width: number, height: number, blockSize: number): number => {
+        if (cells.length === height && cells[0]?.length === width
+            && cells[0][0].getAttribute("width") === `${blockSize}`) return 0;
+        const removed = removeChildren(cellLayer);
+        cells = Array.from({length: height}, (_, y) => Array.from({length: width}, (_, x) => {
+            const rect = createSvgElement(namespace, "rect", {
+                x: `${x * blockSize}`,
+                y: `${y * blockSize}`,
+                width: `${blockSize}`,
+                height: `${blockSize}`,
+                visibility: "hidden"
+            });
+            cellLayer.appendChild(rect);
+            return rect;
+        }));
+        drawnRows = [];
+        return removed + width * height;
+    };
+
+    /**
+     * Update the cells of the visible rows the game has changed.
+     * @param {ShownCell[][]} grid - The grid, hidden rows included.
+     * @param {number} hiddenRows - The number of grid rows above the visible board.
+     * @returns {number} - The number of attributes written.
+     */
+    const drawGrid = (grid: ReadonlyArray<ReadonlyArray<ShownCell>>, hiddenRows: number): number =>
+        grid.slice(hiddenRows).reduce((writes, row, y) => {
+            if (drawnRows[y] === row) return writes;
+            const before = drawnRows[y];
+            drawnRows[y] = row;
+            return writes + row.reduce((acc, cell, x) => before !== undefined && before[x] === cell ? acc
+                : acc + update(cells[y][x], cellProps(cell)), 0);
+        }, 0);
+
+    /**
+     * The grid to show. While rows are being cleared, they blink for the first half of the line clear delay,
+     * then leave a gap for the stack above to collapse into when the delay is over.
+     * @param {State} s - The game.
+     * @returns {ShownCell[][]} - The grid, hidden rows included.
+     */
+    const shownGrid = (s: State): ReadonlyArray<ReadonlyArray<ShownCell>> => {
+        if (s.phase !== Phase.CLEARING || s.clearing === null) return s.grid;
+        const {width, clearDelay} = s.config;
+        if (emptyRow.length !== width) {
+            flashRow = Array(width).fill("flash");
+            emptyRow = Array(width).fill(null);
+        }
+        const elapsed = clearDelay - s.delay;
+        const row = elapsed * 2 >= clearDelay ? emptyRow : elapsed % 2 === 0 ? flashRow : null;
+        const {grid, rows} = s.clearing;
+        return row === null ? grid : grid.map((cells, y) => rows.includes(y) ? row : cells);
+    };
+
+    /**
+     * Play the effects of the events not seen in the state drawn before.
+     * @param {State} s - The game.
+     * @returns {number} - The number of effects played.
+     */
+    const playEvents = (s: State): number => {
+        const fresh = s.events.filter(event => !playedEvents.includes(event));
+        playedEvents = s.events;
+        return effectsFor(fresh, s.config).map(effect => renderEffect(effect, effectLayer, s.config, paint)).length;
+    };
+
+    /**
+     * Move the blocks of a layer to a piece, making more blocks if the piece has more cells than any before.
+     * @param {PieceLayer} layer - The layer.
+     * @param {(Tetromino|null)} tetromino - The piece, null to hide the layer.
+     * @param {number} blockSize - The size of a cell, in pixels.
+     * @param {number} hiddenRows - The number of grid rows above the visible board.
+     * @returns {number} - The number of changes made.
+     */
+    const drawPiece = (layer: PieceLayer, tetromino: Tetromino | null, blockSize: number, hiddenRows: number): number => {
+        const covered = tetromino ? cellsOf(tetromino, hiddenRows) : [];
+        const made = covered.slice(blocks[layer].length).map(_ => {
+            const rect = createSvgElement(namespace, "rect", {class: layer});
+            pieceLayers[layer].appendChild(rect);
+            return rect;
+        });
+        blocks[layer] = blocks[layer].concat(made);
+        return made.length + blocks[layer].reduce((writes, node, i) => writes + (i < covered.length ? update(node, {
+            x: `${covered[i].x * blockSize}`,
+            y: `${covered[i].y * blockSize}`,
+            width: `${blockSize}`,
+            height: `${blockSize}`,
+            ...paint(tetromino!.kind),
+            visibility: "visible"
+        }) : update(node, {visibility: "hidden"})), 0);
+    };
+
+    /**
+     * Draw the garbage waiting to rise as a bar up the left edge of the board, a block high per line.
+     * @param {number} lines - The number of garbage lines waiting.
+     * @param {number} height - The number of visible rows.
+     * @param {number} blockSize - The size of a cell, in pixels.
+     * @returns {number} - The number of attributes written.
+     */
+    const drawMeter = (lines: number, height: number, blockSize: number): number => {
+        const shown = Math.min(lines, height);
+        return shown === 0 ? update(meter, {visibility: "hidden"}) : update(meter, {
+            x: "0",
+            y: `${(height - shown) * blockSize}`,
+            width: `${blockSize / 4}`,
+            height: `${shown * blockSize}`,
+            visibility: "visible"
+        });
+    };
+
+    /**
+     * Redraw the next queue and the held piece when they change. They are small, so they are drawn from scratch.
+     * @param {State} s - The game.
+     * @returns {number} - The number of changes made.
+     */
+    const drawSides = (s: State): number => {
+        const {blockSize} = s.config;
+        let writes = 0;
+        if (s.nextQueue !== drawnQueue) {
+            writes += removeChildren(preview);
+            renderQueue(s.nextQueue, preview, blockSize, paint);
+            writes += preview.childNodes.length;
+            drawnQueue = s.nextQueue;
+        }
+        if (s.heldElement !== drawnHeld) {
+            writes += removeChildren(hold);
+            if (s.heldElement) renderTetromino(s.heldElement, hold, Constants.HOLD_X, Constants.HOLD_Y, blockSize,
+                paint(s.heldElement.kind));
+            writes += hold.childNodes.length;
+            drawnHeld = s.heldElement;
+        }
+        return writes;
+    };
+
+    return {
+        render(view: BoardView): number {
+            if (previous && previous.state === view.state && previous.showGhost === view.showGhost
+                && previous.hint === view.hint && previous.theme === view.theme) return 0;
+            previous = view;
+            const s = view.state;
+            const {width, height, hiddenRows, blockSize} = s.config;
+            // The next piece is already spawned during the delays after a lock, but it has not entered yet
+            const entered = s.phase !== Phase.CLEARING && s.phase !== Phase.ENTRY;
+            return useTheme(view.theme)
+                + buildCells(width, height, blockSize)
+                + drawGrid(shownGrid(s), hiddenRows)
+                + drawPiece("ghost", view.showGhost && entered ? ghostTetromino(s) : null, blockSize, hiddenRows)
+                + drawPiece("hint", view.hint, blockSize, hiddenRows)
+                + drawPiece("piece", entered ? s.currentTetromino : null, blockSize, hiddenRows)
+                + playEvents(s)
+                + drawMeter(garbageLines(s.garbage), height, blockSize)
+                + drawSides(s);
+        },
+
+        clear(): number {
+            previous = null;
+            drawnQueue = null;
+            drawnHeld = null;
+            playedEvents = [];
+            const emptied = drawnRows.map(row => row.map(_ => null));
+            const writes = drawGrid(emptied, 0);
+            drawnRows = [];
+            return writes
+                + PIECE_LAYERS.reduce((acc, layer) => acc + drawPiece(layer, null, 0, 0), 0)
+                + removeChildren(effectLayer)
+                + update(meter, {visibility: "hidden"})
+                + removeChildren(preview)
+                + removeChildren(hold);
+        }
+    };
+}
+
+export {createSvgRenderer}
+export type {BoardView, Renderer, SvgBoard}
@@ -0,0 +1,436 @@
+/** Replay recording and playback */
+import {Action} from "./types.ts";
+import {
+    createInitialState,
+    Down,
+    GameEvent,
+    Drop,
+    GameFlow,
+    Hold,
+    Move,
+    Pause,
+    ReceiveGarbage,
+    reduceState,
+    Restart,
+    Rotate,
+    SoftDrop,
+    State,
+    TogglePause
+} from "./state.ts";
+import {Direction} from "./util.ts";
+import {Turn} from "./rotation.ts";
+import {GameConfig} from "./config.ts";
+
+/**
+ * The current version of the replay format. Bump it whenever the format or the rules change
+ * in a way that would make old replays play back differently.
+ * @constant {number}
+ */
+const REPLAY_VERSION = 5;
+
+/**
+ * @typedef ActionRecord
+ * @type {object}
+ * A JSON-serializable description of a player input.
+ */
+type ActionRecord = Readonly<
+    | { type: "move", direction: Direction, distance: number }
+    | { type: "rotate", turn: Turn }
+    | { type: "down" }
+    | { type: "softDrop", factor: number | null }
+    | { type: "drop" }
+    | { type: "hold" }
+    | { type: "pause" }
+    | { type: "togglePause" }
+    | { type: "garbage", lines: number, hole: number }
+>;
+
+/**
+ * @typedef ReplayInput
+ * @type {object}
+ * @property {number} tick - The number of game ticks applied before this input.
+ * @property {number} time - Milliseconds since the recording started.
+ * @property {ActionRecord} action - The input.
+ */
+type ReplayInput = Readonly<{
+    tick: number,
+    time: number,
+    action: ActionRecord
+}>;
+
+/**
+ * @typedef Replay
+ * @type {object}
+ * @property {number} version - The version of the replay format.
+ * @property {number} seed - The seed the game was started with.
+ * @property {GameConfig} config - The rules the game was played with.
+ * @property {(number|null)} best - The best result in the game mode carried into the game.
+ * @property {number} ticks - The number of game ticks recorded.
+ * @property {ReplayInput[]} inputs - The player inputs, in the order they were applied.
+ */
+type Replay = Readonly<{
+    version: number,
+    seed: number,
+    config: GameConfig,
+    best: number | null,
+    ticks: number,
+    inputs: ReadonlyArray<ReplayInput>
+}>;
+
+/**
+ * @typedef Playback
+ * @type {object}
+ * @property {Replay} replay - The replay being played.
+ * @property {State} state - The state of the game at the current tick.
+ * @property {number} tick - The number of game ticks applied so far.
+ * @property {number} inputIndex - The index of the next input to apply.
+ * @property {number} position - The fractional playback position, in ticks.
+ * @property {number} speed - The number of game ticks played per real tick.
+ * @property {boolean} paused - Whether playback is paused.
+ */
+type Playback = Readonly<{
+    replay: Replay,
+    state: State,
+    tick: number,
+    inputIndex: number,
+    position: number,
+    speed: number,
+    paused: boolean
+}>;
+
+/**
+ * @typedef Recording
+ * @type {object}
+ * @property {State} state - The current state of the recorded game.
+ * @property {Replay} replay - The recording of the game so far.
+ * @property {number} startTime - The timestamp at which the recording started.
+ */
+type Recording = Readonly<{
+    state: State,
+    replay: Replay,
+    startTime: number
+}>;
+
+/**
+ * Describe a player input so it can be stored in a replay.
+ * @param {Action} action - The input.
+ * @returns {ActionRecord} - The serializable description of the input.
+ */
+const encodeAction = (action: Action): ActionRecord => {
+    if (action instanceof Move) return {type: "move", direction: action.direction, distance: action.distance};
+    if (action instanceof Rotate) return {type: "rotate", turn: action.turn};
+    if (action instanceof Down) return {type: "down"};
+    if (action instanceof SoftDrop) return {type: "softDrop", factor: action.factor};
+    if (action instanceof Drop) return {type: "drop"};
+    if (action instanceof Hold) return {type: "hold"};
+    // Pausing stops the game ticks from counting, so it has to be replayed too
+    if (action instanceof Pause) return {type: "pause"};
+    if (action instanceof TogglePause) return {type: "togglePause"};
+    // Garbage comes from outside the game, so online games record it like an input
+    if (action instanceof ReceiveGarbage) return {type: "garbage", lines: action.lines, hole: action.hole};
+    throw new Error(`Cannot record action ${action.constructor.name}`);
+}
+
+/**
+ * Turn a recorded input back into the Action it describes.
+ * @param {ActionRecord} record - The recorded input.
+ * @returns {Action} - The input.
+ */
+const decodeAction = (record: ActionRecord): Action => {
+    switch (record.type) {
+        case "move": return new Move(record.direction, record.distance);
+        case "rotate": return new Rotate(record.turn);
+        case "down": return new Down();
+        case "softDrop": return new SoftDrop(record.factor);
+        case "drop": return new Drop();
+        case "hold": return new Hold();
+        case "pause": return new Pause();
+        case "togglePause": return new TogglePause();
+        case "garbage": return new ReceiveGarbage(record.lines, record.hole);
+    }
+}
+
+/**
+ * Start an empty recording of the game that starts with the given state.
+ * @param {State} s - The initial state of the game.
+ * @returns {Replay} - An empty replay.
+ */
+const startReplay = (s: State): Replay => ({
+    version: REPLAY_VERSION,
+    seed: s.seed,
+    config: s.config,
+    best: s.best,
+    ticks: 0,
+    inputs: []
+});
+
+/**
+ * Add an action to a recording. Game ticks are only counted, inputs are stored with the tick they happened on.
+ * @param {Replay} replay - The recording so far.
+ * @param {Action} action - The action that was just reduced.
+ * @param {number} time - Milliseconds since the recording started.
+ * @returns {Replay} - The recording with the action added.
+ */
+const recordAction = (replay: Replay, action: Action, time: number): Replay =>
+    action instanceof GameFlow
+        ? {...replay, ticks: replay.ticks + 1}
+        : {...replay, inputs: replay.inputs.concat({tick: replay.ticks, time, action: encodeAction(action)})};
+
+/**
+ * Start recording the game that starts with the given state.
+ * @param {State} s - The initial state of the game.
+ * @param {number} time - The current timestamp.
+ * @returns {Recording} - An empty recording.
+ */
+const startRecording = (s: State, time: number): Recording => ({
+    state: s,
+    replay: startReplay(s),
+    startTime: time
+});
+
+/**
+ * Reduce the recorded game by applying an action, and add the action to the recording.
+ * When the action starts a new game, a new recording is started. Inputs that leave the game as it was are not recorded.
+ * @param {Recording} r - The current recording.
+ * @param {Action} action - The action to apply.
+ * @param {number} time - The timestamp of the action.
+ * @returns {Recording} - The new recording.
+ */
+const reduceRecording = (r: Recording, action: Action, time: number): Recording => {
+    const state = reduceState(r.state, action);
+    if (action instanceof Restart)
+        return startRecording(state, time);
+    // An input that changes nothing, e.g. a shift held against the wall, would only grow the replay
+    if (state === r.state && !(action instanceof GameFlow))
+        return r;
+    return {...r, state, replay: recordAction(r.replay, action, time - r.startTime)};
+}
+
+/**
+ * Create the state a replay starts from.
+ * @param {Replay} replay - The replay.
+ * @returns {State} - The initial state of the recorded game.
+ */
+const replayInitialState = (replay: Replay): State => ({
+    ...createInitialState(replay.seed, replay.config),
+    best: replay.best
+});
+
+/**
+ * Serialize a replay to JSON.
+ * @param {Replay} replay - The replay.
+ * @returns {string} - The JSON text.
+ */
+const serializeReplay = (replay: Replay): string => JSON.stringify(replay);
+
+/**
+ * Parse a replay from JSON, rejecting replays from another version of the format.
+ * @param {string} json - The JSON text.
+ * @returns {Replay} - The replay.
+ */
+const parseReplay = (json: string): Replay => {
+    const replay = JSON.parse(json) as Replay;
+    if (replay.version !== REPLAY_VERSION)
+        throw new Error(`Unsupported replay version ${replay.version}, expected ${REPLAY_VERSION}`);
+    return replay;
+}
+
+/**
+ * Start playing a replay from its first tick.
+ * @param {Replay} replay - The replay.
+ * @param {number} speed - The number of game ticks played per real tick.
+ * @returns {Playback} - The playback at tick 0.
+ */
+const startPlayback = (replay: Replay, speed: number = 1): Playback => applyInputs({
+    replay,
+    state: replayInitialState(replay),
+    tick: 0,
+    inputIndex: 0,
+    position: 0,
+    speed,
+    paused: false
+});
+
+/**
+ * Apply every input recorded on the current tick.
+ * @param {Playback} p - The playback.
+ * @returns {Playback} - The playback with the inputs of the current tick applied.
+ */
+const applyInputs = (p: Playback): Playback => {
+    const remaining = p.replay.inputs.slice(p.inputIndex);
+    const pendingCount = remaining.findIndex(input => input.tick > p.tick);
+    const pending = pendingCount < 0 ? remaining : remaining.slice(0, pendingCount);
+    return {
+        ...p,
+        state: pending.reduce((s, input) => reduceState(s, decodeAction(input.action)), p.state),
+        inputIndex: p.inputIndex + pending.length
+    };
+}
+
+/**
+ * Play a number of game ticks, stopping at the end of the replay.
+ * The inputs of a tick are applied as soon as the tick is reached, exactly as they were recorded.
+ * @param {Playback} p - The playback.
+ * @param {number} ticks - The number of ticks to play.
+ * @returns {Playback} - The playback after the ticks.
+ */
+const advancePlayback = (p: Playback, ticks: number): Playback =>
+    Array.from({length: Math.max(0, Math.min(ticks, p.replay.ticks - p.tick))})
+        .reduce<Playback>(acc => applyInputs({
+            ...acc,
+            state: reduceState(acc.state, new GameFlow()),
+            tick: acc.tick + 1
+        }), p);
+
+/**
+ * Jump to a tick. Seeking backwards replays the game from the start, which is exact because the rules are deterministic.
+ * @param {Playback} p - The playback.
+ * @param {number} tick - The tick to jump to.
+ * @returns {Playback} - The playback at the requested tick.
+ */
+const seekPlayback = (p: Playback, tick: number): Playback => {
+    const from = tick < p.tick ? {...startPlayback(p.replay, p.speed), paused: p.paused} : p;
+    return {...advancePlayback(from, tick - from.tick), position: tick};
+}
+
+/**
+ * Check whether a playback has reached the end of its replay.
+ * @param {Playback} p - The playback.
+ * @returns {boolean} - True if every tick has been played.
+ */
+const playbackEnded = (p: Playback): boolean => p.tick >= p.replay.ticks;
+
+/**
+ * Play a whole replay.
+ * @param {Replay} replay - The replay.
+ * @returns {State} - The final state of the recorded game.
+ */
+const runReplay = (replay: Replay): State => advancePlayback(startPlayback(replay), replay.ticks).state;
+
+/**
+ * Play a whole replay a tick at a time, gathering every event of the game once, e.g. to work out its stats.
+ * @param {Replay} replay - The replay.
+ * @returns {GameEvent[]} - The events, oldest first.
+ */
+const replayEvents = (replay: Replay): GameEvent[] => {
+    const start = startPlayback(replay);
+    return Array.from({length: replay.ticks}).reduce(({p, events}: {p: Playback, events: GameEvent[]}) => {
+        const next = advancePlayback(p, 1);
+        return {p: next, events: events.concat(next.state.events.filter(event => !p.state.events.includes(event)))};
+    }, {p: start, events: [...start.state.events]}).events;
+}
+
+/**
+ * @interface PlaybackAction
+ * @method
+ * @param {Playback} p - The current playback.
+ * @return {Playback} - The new playback after the action is applied.
+ */
+interface PlaybackAction {
+    apply(p: Playback): Playback;
+}
+
+/**
+ * Class representing the passing of one real tick during playback.
+ * @implements {PlaybackAction}
+ */
+class PlaybackTick implements PlaybackAction {
+    /**
+     * Play as many game ticks as the playback speed allows.
+     * @param {Playback} p - The current playback.
+     * @return {Playback} The new playback.
+     */
+    apply(p: Playback): Playback {
+        if (p.paused || playbackEnded(p)) return p;
+        const position = p.position + p.speed;
+        return {...advancePlayback(p, Math.floor(position) - p.tick), position};
+    }
+}
+
+/**
+ * Class representing pausing or resuming playback.
+ * @implements {PlaybackAction}
+ */
+class TogglePlayback implements PlaybackAction {
+    /**
+     * Pause a running playback, or resume a paused one.
+     * @param {Playback} p - The current playback.
+     * @return {Playback} The new playback.
+     */
+    apply(p: Playback): Playback {
+        return {...p, paused: !p.paused};
+    }
+}
+
+/**
+ * Class representing a change of playback speed.
+ * @implements {PlaybackAction}
+ */
+class SetPlaybackSpeed implements PlaybackAction {
+    /**
+     * @param {number} speed - The number of game ticks played per real tick.
+     */
+    constructor(public readonly speed: number) {}
+
+    /**
+     * Change the playback speed.
+     * @param {Playback} p - The current playback.
+     * @return {Playback} The new playback.
+     */
+    apply(p: Playback): Playback {
+        return {...p, speed: this.speed};
+    }
+}
+
+/**
+ * Class representing a jump to another point of the replay.
+ * @implements {PlaybackAction}
+ */
+class Seek implements PlaybackAction {
+    /**
+     * @param {number} tick - The tick to jump to.
+     */
+    constructor(public readonly tick: number) {}
+
+    /**
+     * Jump to the tick.
+     * @param {Playback} p - The current playback.
+     * @return {Playback} The new playback.
+     */
+    apply(p: Playback): Playback {
+        return seekPlayback(p, Math.max(0, Math.min(this.tick, p.replay.ticks)));
+    }
+}
+
+/**
+ * Reduce the current playback by applying the specified action.
+ * @param {Playback} p - The current playback.
+ * @param {PlaybackAction} action - The action to apply.
+ * @return {Playback} The new playback.
+ */
+const reducePlayback = (p: Playback, action: PlaybackAction): Playback => action.apply(p);
+
+export {
+    REPLAY_VERSION,
+    encodeAction,
+    decodeAction,
+    startReplay,
+    recordAction,
+    startRecording,
+    reduceRecording,
+    replayInitialState,
+    serializeReplay,
+    parseReplay,
+    startPlayback,
+    advancePlayback,
+    replayEvents,
+    seekPlayback,
+    playbackEnded,
+    runReplay,
+    reducePlayback,
+    PlaybackTick,
+    TogglePlayback,
+    SetPlaybackSpeed,
+    Seek
+}
+export type {ActionRecord, ReplayInput, Replay, Recording, Playback, PlaybackAction}
@@ -0,0 +1,395 @@
+/**
+ * Online rooms, as the server runs them. The server plays every input on its own copy of each game,
+ * so it decides where garbage goes, who tops out and who wins, and clients cannot make up a board.
+ * Nothing here does any I/O: each function returns the new room and the messages to send.
+ */
+import {Constants, Phase} from "./types.ts";
+import {GameConfig} from "./config.ts";
+import {RNG} from "./randomizer.ts";
+import {GarbageBatch} from "./garbage.ts";
+import {ActionRecord} from "./replay.ts";
+import {
+    advanceTimeline,
+    hashState,
+    LobbyPlayer,
+    MAX_TICKS_AHEAD,
+    playInput,
+    ServerMessage,
+    startTimeline,
+    Timeline
+} from "./protocol.ts";
+
+/** The number of players in a room */
+const ROOM_SIZE = 2;
+
+/** How long a player who lost the connection during a game has to come back before they forfeit, in milliseconds */
+const RECONNECT_GRACE_MS = 30_000;
+
+/** The length of a game tick, in milliseconds */
+const TICK_MS = Constants.TICK_RATE_MS / 10;
+
+/**
+ * @typedef Seat
+ * @type {object}
+ * @property {string} name - The name of the player.
+ * @property {string} session - The token the player rejoins with after losing the connection.
+ * @property {boolean} connected - Whether the player is connected.
+ * @property {(number|null)} leftAt - When the player lost the connection, in milliseconds, null while connected.
+ * @property {boolean} ready - Whether the player is ready for the next game.
+ * @property {(Timeline|null)} timeline - The server's copy of the player's game, null between games.
+ * @property {GarbageBatch[]} owed - The garbage sent to the player that their client has not played yet.
+ */
+type Seat = Readonly<{
+    name: string,
+    session: string,
+    connected: boolean,
+    leftAt: number | null,
+    ready: boolean,
+    timeline: Timeline | null,
+    owed: ReadonlyArray<GarbageBatch>
+}>;
+
+/**
+ * @typedef Room
+ * @type {object}
+ * @property {string} name - The name of the room.
+ * @property {Seat[]} seats - The players, in the order they joined.
+ * @property {number} seed - The current seed of the room, for the garbage holes and the seeds of later games.
+ * @property {(number|null)} game - The seed of the game being played, null between games.
+ * @property {(number|null)} startedAt - When the game being played started, in milliseconds, null between games.
+ * @property {GameConfig} config - The rules every game in the room is played by.
+ */
+type Room = Readonly<{
+    name: string,
+    seats: ReadonlyArray<Seat>,
+    seed: number,
+    game: number | null,
+    startedAt: number | null,
+    config: GameConfig
+}>;
+
+/**
+ * A message for one player.
+ * @typedef Envelope
+ * @type {object}
+ * @property {number} to - The seat of the player.
+ * @property {ServerMessage} message - The message.
+ */
+type Envelope = Readonly<{ to: number, message: ServerMessage }>;
+
+/**
+ * @typedef RoomUpdate
+ * @type {object}
+ * @property {Room} room - The new room.
+ * @property {Envelope[]} outbox - The messages to send, in order.
+ */
+type RoomUpdate = Readonly<{ room: Room, outbox: ReadonlyArray<Envelope> }>;
+
+/**
+ * Open a room.
+ * @param {string} name - The name of the room.
+ * @param {number} seed - The seed of the room.
+ * @param {GameConfig} config - The rules games are played by.
+ * @returns {Room} - The empty room.
+ */
+const createRoom = (name: string, seed: number, config: GameConfig): Room =>
+    ({name, seats: [], seed, game: null, startedAt: null, config});
+
+/**
+ * Address a message to every player in the room.
+ * @param {Room} room - The room.
+ * @param {ServerMessage} message - The message.
+ * @returns {Envelope[]} - One envelope per seat.
+ */
+const toAll = (room: Room, message: ServerMessage): Envelope[] =>
+    room.seats.map((_, to) => ({to, message}));
+
+/**
+ * Address a message to every player but one.
+ * @param {Room} room - The room.
+ * @param {number} seat - The player left out.
+ * @param {ServerMessage} message - The message.
+ * @returns {Envelope[]} - One envelope per other seat.
+ */
+const toOthers = (room: Room, seat: number, message: ServerMessage): Envelope[] =>
+    toAll(room, message).filter(({to}) => to !== seat);
+
+/**
+ * Describe the players for the lobby.
+ * @param {Room} room - The room.
+ * @returns {ServerMessage} - The lobby message.
+ */
+const lobby = (room: Room): ServerMessage => ({
+    type: "lobby",
+    players: room.seats.map(({name, ready, connected}): LobbyPlayer => ({name, ready, connected}))
+});
+
+/**
+ * Describe every game of the room, for a player to catch up on.
+ * @param {Room} room - The room, with a game being played.
+ * @param {number} seed - The seed of the game.
+ * @returns {ServerMessage} - The resume message.
+ */
+const resume = (room: Room, seed: number): ServerMessage => ({
+    type: "resume",
+    seed,
+    config: room.config,
+    logs: room.seats.map(seat => seat.timeline?.log ?? []),
+    ticks: room.seats.map(seat => seat.timeline?.tick ?? 0)
+});
+
+/**
+ * Change one seat of a room.
+ * @param {Room} room - The room.
+ * @param {number} seat - The seat.
+ * @param {function(Seat): Seat} update - The change to the seat.
+ * @returns {Room} - The new room.
+ */
+const updateSeat = (room: Room, seat: number, update: (s: Seat) => Seat): Room =>
+    ({...room, seats: room.seats.map((s, i) => i === seat ? update(s) : s)});
+
+/**
+ * Seat a player, or give a player back their seat if they bring its session token.
+ * @param {Room} room - The room.
+ * @param {string} name - The name of the player.
+ * @param {(string|null)} session - The session token the player had, if any.
+ * @param {string} newSession - A fresh session token, used if the player gets a new seat.
+ * @returns {(RoomUpdate & {seat: (number|null)})} - The new room and the player's seat, null if the room is full.
+ */
+const joinRoom = (
+    room: Room,
+    name: string,
+    session: string | null,
+    newSession: string
+): RoomUpdate & { seat: number | null } => {
+    const existing = room.seats.findIndex(s => s.session === session);
+    if (existing < 0 && room.seats.length >= ROOM_SIZE) return {room, seat: null, outbox: []};
+
+    const seat = existing < 0 ? room.seats.length : existing;
+    const joined = existing < 0
+        ? {...room, seats: room.seats.concat({name, session: newSession, connected: true, leftAt: null, ready: false, timeline: null, owed: []})}
+        : updateSeat(room, seat, s => ({...s, connected: true, leftAt: null}));
+    return {
+        room: joined,
+        seat,
+        outbox: [
+            {to: seat, message: {type: "welcome", player: seat, session: joined.seats[seat].session}},
+            ...toAll(joined, lobby(joined)),
+            ...joined.game === null ? [] : [{to: seat, message: resume(joined, joined.game)}]
+        ]
+    };
+}
+
+/**
+ * Mark a player as gone. Their seat is kept, so they can rejoin, and a game in progress goes on without them
+ * until they forfeit, see {@link expireSeats}.
+ * @param {Room} room - The room.
+ * @param {number} seat - The seat of the player.
+ * @param {number} now - The current time, in milliseconds.
+ * @returns {RoomUpdate} - The new room.
+ */
+const leaveRoom = (room: Room, seat: number, now: number): RoomUpdate => {
+    const left = updateSeat(room, seat, s => ({...s, connected: false, leftAt: now, ready: false}));
+    return {room: left, outbox: toOthers(left, seat, lobby(left))};
+}
+
+/**
+ * Check whether a room can be closed.
+ * @param {Room} room - The room.
+ * @returns {boolean} - True once nobody is connected.
+ */
+const roomEmpty = (room: Room): boolean => room.seats.every(s => !s.connected);
+
+/**
+ * Mark a player as ready, and start a game once the room is full and everyone is.
+ * @param {Room} room - The room.
+ * @param {number} seat - The seat of the player.
+ * @param {number} now - The current time, in milliseconds.
+ * @returns {RoomUpdate} - The new room.
+ */
+const readyUp = (room: Room, seat: number, now: number): RoomUpdate => {
+    if (room.game !== null) return {room, outbox: []};
+    const ready = updateSeat(room, seat, s => ({...s, ready: true}));
+    if (ready.seats.length < ROOM_SIZE || !ready.seats.every(s => s.ready))
+        return {room: ready, outbox: toAll(ready, lobby(ready))};
+
+    const game = RNG.hash(ready.seed);
+    const started: Room = {
+        ...ready,
+        seed: RNG.hash(game),
+        game,
+        startedAt: now,
+        seats: ready.seats.map(s => ({...s, ready: false, timeline: startTimeline(game, ready.config), owed: []}))
+    };
+    return {
+        room: started,
+        outbox: [...toAll(started, lobby(started)), ...toAll(started, {type: "start", seed: game, config: started.config})]
+    };
+}
+
+/**
+ * Send the garbage of each player's last lock to the others, each batch with a random hole column.
+ * A player's garbage is owed to them until their client plays it.
+ * @param {RoomUpdate} update - The room.
+ * @returns {RoomUpdate} - The room with the garbage sent.
+ */
+const sendGarbage = ({room, outbox}: RoomUpdate): RoomUpdate =>
+    room.seats.reduce<RoomUpdate>((acc, {timeline}, seat) => {
+        const lines = timeline?.state.attack ?? 0;
+        if (lines === 0) return acc;
+        const {value: hole, seed} = RNG.randomInt(acc.room.seed, 0, acc.room.config.width - 1);
+        const sent = updateSeat({...acc.room, seed}, seat, s => s.timeline ? {
+            ...s,
+            timeline: {...s.timeline, state: {...s.timeline.state, attack: 0}}
+        } : s);
+        const owedTo = sent.seats.map((s, i) => i === seat || s.timeline === null ? s : {...s, owed: s.owed.concat({lines, hole})});
+        const delivered = {...sent, seats: owedTo};
+        return {
+            room: delivered,
+            outbox: acc.outbox.concat(toOthers(delivered, seat, {type: "garbage", lines, hole}))
+        };
+    }, {room, outbox});
+
+/**
+ * End the game once at most one player is still standing.
+ * @param {RoomUpdate} update - The room.
+ * @returns {RoomUpdate} - The room, between games if the game is over.
+ */
+const settleGame = ({room, outbox}: RoomUpdate): RoomUpdate => {
+    const standing = room.seats.flatMap(({timeline}, seat) =>
+        timeline && timeline.state.phase !== Phase.GAME_OVER ? [seat] : []);
+    if (room.game === null || standing.length > 1) return {room, outbox};
+    const over: Room = {...room, game: null, startedAt: null, seats: room.seats.map(s => ({...s, timeline: null, owed: []}))};
+    return {
+        room: over,
+        outbox: outbox.concat(toAll(over, {type: "gameOver", winner: standing.length === 1 ? standing[0] : null}))
+    };
+}
+
+/**
+ * Refuse a message and put the player back on the server's copy of the game.
+ * @param {Room} room - The room.
+ * @param {number} seat - The seat of the player.
+ * @param {string} message - Why the message was refused.
+ * @returns {RoomUpdate} - The unchanged room.
+ */
+const refuse = (room: Room, seat: number, message: string): RoomUpdate => ({
+    room,
+    outbox: [
+        {to: seat, message: {type: "error", message}},
+        ...room.game === null ? [] : [{to: seat, message: resume(room, room.game)}]
+    ]
+});
+
+/**
+ * Check whether a player is further ahead than they can be: the tick must be at most {@link MAX_TICKS_AHEAD} past
+ * the server's copy of their game, so that one message cannot make the server play without end, and as far past
+ * the ticks that have gone by since the game started, so that nobody plays faster than the clock.
+ * @param {Room} room - The room, with a game being played.
+ * @param {Timeline} timeline - The server's copy of the player's game.
+ * @param {number} tick - The tick the player sent.
+ * @param {number} now - The current time, in milliseconds.
+ * @returns {boolean} - True if the tick is too far ahead.
+ */
+const tooFarAhead = (room: Room, timeline: Timeline, tick: number, now: number): boolean =>
+    tick > Math.min(timeline.tick, Math.floor((now - (room.startedAt ?? now)) / TICK_MS)) + MAX_TICKS_AHEAD;
+
+/**
+ * Play an input of a player on the server's copy of their game and relay it to the others.
+ * Inputs must come in tick order and not too far ahead, see {@link tooFarAhead}, games cannot be paused, and garbage must be what the server sent.
+ * @param {Room} room - The room.
+ * @param {number} seat - The seat of the player.
+ * @param {number} tick - The tick the input was played on.
+ * @param {ActionRecord} action - The input.
+ * @param {number} now - The current time, in milliseconds.
+ * @returns {RoomUpdate} - The new room.
+ */
+const receiveInput = (room: Room, seat: number, tick: number, action: ActionRecord, now: number): RoomUpdate => {
+    const {timeline, owed} = room.seats[seat];
+    if (room.game === null || timeline === null) return {room, outbox: []};
+    if (tick < timeline.tick) return refuse(room, seat, "Inputs must come in order");
+    if (tooFarAhead(room, timeline, tick, now)) return refuse(room, seat, "Inputs must not come from the future");
+    if (action.type === "pause" || action.type === "togglePause") return refuse(room, seat, "Online games cannot be paused");
+    if (action.type === "garbage" && (owed.length === 0 || owed[0].lines !== action.lines || owed[0].hole !== action.hole))
+        return refuse(room, seat, "Unexpected garbage");
+
+    const played = updateSeat(room, seat, s => ({
+        ...s,
+        timeline: playInput(timeline, {tick, action}),
+        owed: action.type === "garbage" ? owed.slice(1) : owed
+    }));
+    return settleGame(sendGarbage({room: played, outbox: toOthers(played, seat, {type: "input", player: seat, tick, action})}));
+}
+
+/**
+ * Play the oldest garbage sent to a player on the server's copy of their game, on the tick their client played it.
+ * @param {Room} room - The room.
+ * @param {number} seat - The seat of the player.
+ * @param {number} tick - The tick the garbage was played on.
+ * @param {number} now - The current time, in milliseconds.
+ * @returns {RoomUpdate} - The new room.
+ */
+const receiveGarbage = (room: Room, seat: number, tick: number, now: number): RoomUpdate => {
+    const {timeline, owed} = room.seats[seat];
+    if (room.game === null || timeline === null) return {room, outbox: []};
+    if (owed.length === 0) return refuse(room, seat, "Unexpected garbage");
+    return receiveInput(room, seat, tick, {type: "garbage", lines: owed[0].lines, hole: owed[0].hole}, now);
+}
+
+/**
+ * Check the hash a player sent of their game against the server's copy, and relay how far they have played.
+ * A player whose game has drifted, or who is too far ahead, is sent the server's.
+ * @param {Room} room - The room.
+ * @param {number} seat - The seat of the player.
+ * @param {number} tick - The tick the hash was taken on.
+ * @param {number} hash - The hash of their state, see {@link hashState}.
+ * @param {number} now - The current time, in milliseconds.
+ * @returns {RoomUpdate} - The new room.
+ */
+const receiveFrame = (room: Room, seat: number, tick: number, hash: number, now: number): RoomUpdate => {
+    const {timeline} = room.seats[seat];
+    if (room.game === null || timeline === null) return {room, outbox: []};
+    if (tick < timeline.tick) return refuse(room, seat, "Frames must come in order");
+    if (tooFarAhead(room, timeline, tick, now)) return refuse(room, seat, "Frames must not come from the future");
+
+    const advanced = advanceTimeline(timeline, tick);
+    const played = updateSeat(room, seat, s => ({...s, timeline: advanced}));
+    const settled = settleGame(sendGarbage({room: played, outbox: toOthers(played, seat, {type: "frame", player: seat, tick})}));
+    return hashState(advanced.state) === hash || settled.room.game === null ? settled : {
+        room: settled.room,
+        outbox: settled.outbox.concat({to: seat, message: resume(settled.room, settled.room.game)})
+    };
+}
+
+/**
+ * Top out the players who lost the connection during the game and did not come back in time, ending the game
+ * if that leaves at most one player standing.
+ * @param {Room} room - The room.
+ * @param {number} now - The current time, in milliseconds.
+ * @returns {RoomUpdate} - The new room.
+ */
+const expireSeats = (room: Room, now: number): RoomUpdate => {
+    if (room.game === null) return {room, outbox: []};
+    const expired: Room = {
+        ...room,
+        seats: room.seats.map(s => s.timeline && s.leftAt !== null && now - s.leftAt >= RECONNECT_GRACE_MS
+            ? {...s, timeline: {...s.timeline, state: {...s.timeline.state, phase: Phase.GAME_OVER}}}
+            : s)
+    };
+    return settleGame({room: expired, outbox: []});
+}
+
+export {
+    ROOM_SIZE,
+    RECONNECT_GRACE_MS,
+    createRoom,
+    joinRoom,
+    leaveRoom,
+    roomEmpty,
+    readyUp,
+    receiveInput,
+    receiveGarbage,
+    receiveFrame,
+    expireSeats
+}
+export type {Seat, Room, Envelope, RoomUpdate}
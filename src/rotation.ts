@@ -0,0 +1,117 @@
+/** Rotation systems and wall kicks */
+import {Tetromino} from "./types.ts";
+
+/**
+ * The rules used to rotate a Tetromino.
+ * @enum
+ * @readonly
+ */
+enum RotationSystem {
+    /** Guideline Super Rotation System, with the JLSTZ and I kick tables. */
+    SRS,
+    /** Arika-style: try in place, then one cell right, then one cell left. The I piece never kicks. */
+    ARS,
+    /** Classic: rotate in place or not at all. */
+    CLASSIC
+}
+
+/**
+ * Number of quarter turns clockwise.
+ * @enum
+ * @readonly
+ */
+enum Turn {
+    CLOCKWISE = 1,
+    HALF = 2,
+    COUNTER_CLOCKWISE = 3
+}
+
+/**
+ * @typedef Kick
+ * @type {object}
+ * @property {number} x - The horizontal offset, positive to the right.
+ * @property {number} y - The vertical offset, positive downwards (grid rows).
+ */
+type Kick = Readonly<{ x: number, y: number }>;
+
+/**
+ * Convert a list of SRS offsets (y pointing up, as in the guideline tables) into grid kicks.
+ * @param {[number, number][]} offsets - The offsets in guideline coordinates.
+ * @returns {Kick[]} - The offsets in grid coordinates.
+ */
+const fromGuideline = (offsets: [number, number][]): Kick[] =>
+    offsets.map(([x, y]) => ({x, y: -y}));
+
+/**
+ * SRS kick tests for J, L, S, T and Z, keyed by "from>to" rotation states (0, R=1, 2, L=3).
+ * @constant
+ */
+const JLSTZ_KICKS: Record<string, Kick[]> = {
+    "0>1": fromGuideline([[0, 0], [-1, 0], [-1, 1], [0, -2], [-1, -2]]),
+    "1>0": fromGuideline([[0, 0], [1, 0], [1, -1], [0, 2], [1, 2]]),
+    "1>2": fromGuideline([[0, 0], [1, 0], [1, -1], [0, 2], [1, 2]]),
+    "2>1": fromGuideline([[0, 0], [-1, 0], [-1, 1], [0, -2], [-1, -2]]),
+    "2>3": fromGuideline([[0, 0], [1, 0], [1, 1], [0, -2], [1, -2]]),
+    "3>2": fromGuideline([[0, 0], [-1, 0], [-1, -1], [0, 2], [-1, 2]]),
+    "3>0": fromGuideline([[0, 0], [-1, 0], [-1, -1], [0, 2], [-1, 2]]),
+    "0>3": fromGuideline([[0, 0], [1, 0], [1, 1], [0, -2], [1, -2]]),
+};
+
+/**
+ * SRS kick tests for I, keyed like {@link JLSTZ_KICKS}.
+ * @constant
+ */
+const I_KICKS: Record<string, Kick[]> = {
+    "0>1": fromGuideline([[0, 0], [-2, 0], [1, 0], [-2, -1], [1, 2]]),
+    "1>0": fromGuideline([[0, 0], [2, 0], [-1, 0], [2, 1], [-1, -2]]),
+    "1>2": fromGuideline([[0, 0], [-1, 0], [2, 0], [-1, 2], [2, -1]]),
+    "2>1": fromGuideline([[0, 0], [1, 0], [-2, 0], [1, -2], [-2, 1]]),
+    "2>3": fromGuideline([[0, 0], [2, 0], [-1, 0], [2, 1], [-1, -2]]),
+    "3>2": fromGuideline([[0, 0], [-2, 0], [1, 0], [-2, -1], [1, 2]]),
+    "3>0": fromGuideline([[0, 0], [1, 0], [-2, 0], [1, -2], [-2, 1]]),
+    "0>3": fromGuideline([[0, 0], [-1, 0], [2, 0], [-1, 2], [2, -1]]),
+};
+
+/**
+ * Kick tests for 180° turns. SRS has no official table, this is the commonly used extension.
+ * @constant
+ */
+const HALF_TURN_KICKS: Record<string, Kick[]> = {
+    "0>2": fromGuideline([[0, 0], [0, 1], [1, 1], [-1, 1], [1, 0], [-1, 0]]),
+    "2>0": fromGuideline([[0, 0], [0, -1], [-1, -1], [1, -1], [-1, 0], [1, 0]]),
+    "1>3": fromGuideline([[0, 0], [1, 0], [1, 2], [1, 1], [0, 2], [0, 1]]),
+    "3>1": fromGuideline([[0, 0], [-1, 0], [-1, 2], [-1, 1], [0, 2], [0, 1]]),
+};
+
+const NO_KICK: Kick[] = [{x: 0, y: 0}];
+const ARS_KICKS: Kick[] = [{x: 0, y: 0}, {x: 1, y: 0}, {x: -1, y: 0}];
+
+/**
+ * List the offsets to try, in order, when rotating a Tetromino between two rotation states.
+ * The first offset that does not collide is used; if all collide, the rotation fails.
+ * @param {RotationSystem} system - The rotation system in use.
+ * @param {Tetromino} tetromino - The Tetromino being rotated.
+ * @param {number} from - The current rotation state.
+ * @param {number} to - The target rotation state.
+ * @returns {Kick[]} - The offsets to try.
+ */
+const kicks = (system: RotationSystem, tetromino: Tetromino, from: number, to: number): Kick[] => {
+    // Pieces with a single rotation state (O) never need to kick
+    if (tetromino.shapes.length < 4) return NO_KICK;
+    // The I piece is the only one with a 4x4 bounding box
+    const isI = tetromino.shapes[0].length === 4;
+
+    switch (system) {
+        case RotationSystem.SRS: {
+            const key = `${from}>${to}`;
+            return (Math.abs(from - to) === 2 ? HALF_TURN_KICKS : isI ? I_KICKS : JLSTZ_KICKS)[key] ?? NO_KICK;
+        }
+        case RotationSystem.ARS:
+            return isI ? NO_KICK : ARS_KICKS;
+        case RotationSystem.CLASSIC:
+            return NO_KICK;
+    }
+}
+
+export {RotationSystem, Turn, kicks}
+export type {Kick}
@@ -0,0 +1,167 @@
+/** Scoring */
+import {GridCell, Tetromino} from "./types.ts";
+
+/**
+ * The kind of T-spin a lock was.
+ * @enum
+ * @readonly
+ */
+enum Spin {
+    NONE,
+    MINI,
+    FULL
+}
+
+/**
+ * @typedef ScoringTable
+ * @type {object}
+ * @property {number[]} lines - Points for clearing 0-4 lines without a spin, per level.
+ * @property {number[]} tSpin - Points for a T-spin clearing 0-3 lines, per level.
+ * @property {number[]} miniTSpin - Points for a mini T-spin clearing 0-2 lines, per level.
+ * @property {number[]} perfectClear - Bonus for clearing 0-4 lines and leaving the board empty, per level.
+ * @property {number} backToBack - Multiplier for consecutive difficult clears.
+ * @property {number} combo - Points per combo step, per level.
+ * @property {number} softDrop - Points per cell of soft drop.
+ * @property {number} hardDrop - Points per cell of hard drop.
+ */
+type ScoringTable = Readonly<{
+    lines: ReadonlyArray<number>,
+    tSpin: ReadonlyArray<number>,
+    miniTSpin: ReadonlyArray<number>,
+    perfectClear: ReadonlyArray<number>,
+    backToBack: number,
+    combo: number,
+    softDrop: number,
+    hardDrop: number
+}>;
+
+/**
+ * Guideline scoring.
+ * @constant {ScoringTable}
+ */
+const GUIDELINE_SCORING: ScoringTable = {
+    lines: [0, 100, 300, 500, 800],
+    tSpin: [400, 800, 1200, 1600],
+    miniTSpin: [100, 200, 400],
+    perfectClear: [0, 800, 1200, 1800, 2000],
+    backToBack: 1.5,
+    combo: 50,
+    softDrop: 1,
+    hardDrop: 2
+};
+
+/**
+ * @typedef ClearType
+ * @type {object}
+ * @property {string} label - A description of the clear for the UI, e.g. "B2B T-Spin Double".
+ * @property {number} points - The points scored by the lock, excluding drop points.
+ * @property {number} rowsCleared - The number of rows cleared.
+ * @property {Spin} spin - The kind of T-spin.
+ * @property {boolean} backToBack - Whether the back-to-back bonus was applied.
+ * @property {number} combo - The combo count after the lock, -1 when the combo is broken.
+ * @property {boolean} perfectClear - Whether the board was left empty.
+ */
+type ClearType = Readonly<{
+    label: string,
+    points: number,
+    rowsCleared: number,
+    spin: Spin,
+    backToBack: boolean,
+    combo: number,
+    perfectClear: boolean
+}>;
+
+const LINE_NAMES = ["", "Single", "Double", "Triple", "Tetris"];
+
+/** The kick test that always makes a full T-spin, even when a front corner is open */
+const T_SPIN_TRIPLE_KICK = 4;
+
+/**
+ * Detect whether a Tetromino about to lock makes a T-spin, using the 3-corner rule.
+ * @param {GridCell[][]} grid - The grid before the Tetromino is placed.
+ * @param {Tetromino} tetromino - The Tetromino about to lock.
+ * @param {number | null} lastKick - The kick test used by the last successful rotation,
+ * or null if the last successful movement was not a rotation.
+ * @returns {Spin} - The kind of T-spin.
+ */
+const detectSpin = (grid: GridCell[][], tetromino: Tetromino, lastKick: number | null): Spin => {
+    if (lastKick === null || tetromino.kind !== "T") return Spin.NONE;
+
+    const {x, y} = tetromino.position;
+    // Walls and floor count as occupied
+    const occupied = ([dx, dy]: [number, number]) =>
+        grid[y + dy]?.[x + dx] !== null;
+
+    // Corners of the 3x3 box, clockwise from top-left
+    const corners: [number, number][] = [[0, 0], [2, 0], [2, 2], [0, 2]];
+    // The two corners either side of the way the T points
+    const front = [corners[tetromino.rotation], corners[(tetromino.rotation + 1) % 4]];
+
+    if (corners.filter(occupied).length < 3) return Spin.NONE;
+    return front.every(occupied) || lastKick === T_SPIN_TRIPLE_KICK ? Spin.FULL : Spin.MINI;
+}
+
+/**
+ * Score a lock.
+ * @param {ScoringTable} table - The scoring table.
+ * @param {number} level - The current level.
+ * @param {number} rowsCleared - The number of rows cleared by the lock.
+ * @param {Spin} spin - The kind of T-spin.
+ * @param {boolean} perfectClear - Whether the board is empty after the lock.
+ * @param {boolean} backToBack - Whether the last line clear was a difficult one.
+ * @param {number} combo - The combo count before the lock.
+ * @returns {ClearType} - The clear type, points included.
+ */
+const scoreLock = (
+    table: ScoringTable,
+    level: number,
+    rowsCleared: number,
+    spin: Spin,
+    perfectClear: boolean,
+    backToBack: boolean,
+    combo: number
+): ClearType => {
+    const basePoints = spin === Spin.FULL ? table.tSpin[rowsCleared]
+        : spin === Spin.MINI ? table.miniTSpin[rowsCleared]
+            : table.lines[rowsCleared];
+    // Tetrises and T-spins that clear lines are difficult, and chain into back-to-back bonuses
+    const difficult = rowsCleared === 4 || (spin !== Spin.NONE && rowsCleared > 0);
+    const appliedBackToBack = difficult && backToBack;
+    const newCombo = rowsCleared > 0 ? combo + 1 : -1;
+
+    const points = level * (
+        basePoints * (appliedBackToBack ? table.backToBack : 1)
+        + table.combo * Math.max(newCombo, 0)
+        + (perfectClear ? table.perfectClear[rowsCleared] : 0)
+    );
+
+    const label = [
+        appliedBackToBack ? "B2B" : "",
+        spin === Spin.FULL ? "T-Spin" : spin === Spin.MINI ? "Mini T-Spin" : "",
+        LINE_NAMES[rowsCleared],
+        perfectClear ? "Perfect Clear" : ""
+    ].filter(Boolean).join(" ");
+
+    return {
+        label,
+        points: Math.floor(points),
+        rowsCleared,
+        spin,
+        backToBack: appliedBackToBack,
+        combo: newCombo,
+        perfectClear
+    };
+}
+
+/**
+ * Work out whether the back-to-back chain continues after a lock.
+ * Non-difficult line clears break it, locks that clear nothing leave it as it was.
+ * @param {boolean} backToBack - Whether the chain was active before the lock.
+ * @param {ClearType} clear - The clear type of the lock.
+ * @returns {boolean} - Whether the chain is active after the lock.
+ */
+const continuesBackToBack = (backToBack: boolean, clear: ClearType): boolean =>
+    clear.rowsCleared === 0 ? backToBack : clear.rowsCleared === 4 || clear.spin !== Spin.NONE;
+
+export {Spin, GUIDELINE_SCORING, detectSpin, scoreLock, continuesBackToBack}
+export type {ScoringTable, ClearType}
@@ -0,0 +1,110 @@
+/** Player settings */
+import {Bindings, Control, defaultBindings, defaultHandling, Handling} from "./input.ts";
+import {Store} from "./storage.ts";
+import {ButtonBindings, defaultButtonBindings} from "./gamepad.ts";
+import {BotMode} from "./bot.ts";
+import {AudioSettings, defaultAudioSettings} from "./audio.ts";
+import {DEFAULT_THEME, ThemeId} from "./theme.ts";
+import {Verbosity} from "./accessibility.ts";
+
+/**
+ * @typedef {Object} Settings
+ * @property {boolean} showGhost - Whether to draw the landing position of the current Tetromino.
+ * @property {boolean} touchButtons - Whether to show on-screen buttons for touch screens.
+ * @property {BotMode} bot - Whether the bot suggests placements or plays the game.
+ * @property {Bindings} bindings - The keys bound to each control.
+ * @property {Handling} handling - How held keys and buttons repeat, and how fast soft drop falls.
+ * @property {Record<string, ButtonBindings>} gamepadBindings - The button bindings of each remapped controller, by id.
+ * @property {AudioSettings} audio - The volumes, and whether the background track plays.
+ * @property {ThemeId} theme - What the pieces and the board look like.
+ * @property {Verbosity} announcements - How much of the game is announced to screen readers.
+ */
+type Settings = Readonly<{
+    showGhost: boolean,
+    touchButtons: boolean,
+    bot: BotMode,
+    bindings: Bindings,
+    handling: Handling,
+    gamepadBindings: Readonly<Record<string, ButtonBindings>>,
+    audio: AudioSettings,
+    theme: ThemeId,
+    announcements: Verbosity
+}>;
+
+/**
+ * The settings used until the player changes them.
+ * @type {Settings}
+ */
+const defaultSettings: Settings = {
+    showGhost: true,
+    touchButtons: false,
+    bot: "off",
+    bindings: defaultBindings,
+    handling: defaultHandling,
+    gamepadBindings: {},
+    audio: defaultAudioSettings,
+    theme: DEFAULT_THEME,
+    announcements: "brief"
+};
+
+/** The key the settings are stored under */
+const SETTINGS_KEY = "settings";
+
+/**
+ * Load the settings. Anything missing or unreadable falls back to its default,
+ * so settings saved by an older version keep working.
+ * @param {Store} store - Where the settings are kept.
+ * @returns {Settings} - The settings.
+ */
+const loadSettings = (store: Store): Settings => {
+    try {
+        const saved = JSON.parse(store.load(SETTINGS_KEY) ?? "{}") as Partial<Settings>;
+        return {
+            ...defaultSettings,
+            ...saved,
+            bindings: {...defaultSettings.bindings, ...saved.bindings},
+            handling: {...defaultSettings.handling, ...saved.handling},
+            audio: {...defaultSettings.audio, ...saved.audio}
+        };
+    } catch {
+        return defaultSettings;
+    }
+}
+
+/**
+ * Save the settings.
+ * @param {Store} store - Where the settings are kept.
+ * @param {Settings} settings - The settings.
+ */
+const saveSettings = (store: Store, settings: Settings) =>
+    store.save(SETTINGS_KEY, JSON.stringify(settings));
+
+/**
+ * Find the button bindings of a controller. Controls added since it was remapped get their default buttons.
+ * @param {Settings} settings - The settings.
+ * @param {string} id - The id of the controller.
+ * @returns {ButtonBindings} - The bindings of the controller, the defaults if it was never remapped.
+ */
+const buttonBindingsFor = (settings: Settings, id: string): ButtonBindings =>
+    ({...defaultButtonBindings, ...settings.gamepadBindings[id]});
+
+/**
+ * Bind a key or button to a control, or unbind it if it is already bound there.
+ * A key only ever controls one thing, so it is taken away from any other control.
+ * @param {Record<Control, T[]>} bindings - The current bindings.
+ * @param {Control} control - The control to bind.
+ * @param {T} key - The key or button.
+ * @returns {Record<Control, T[]>} - The new bindings.
+ */
+const toggleBinding = <T>(
+    bindings: Readonly<Record<Control, ReadonlyArray<T>>>,
+    control: Control,
+    key: T
+): Readonly<Record<Control, ReadonlyArray<T>>> =>
+    (Object.keys(bindings) as Control[]).reduce<Readonly<Record<Control, ReadonlyArray<T>>>>((acc, c) => ({
+        ...acc,
+        [c]: c === control && !bindings[c].includes(key) ? bindings[c].concat(key) : bindings[c].filter(k => k !== key)
+    }), bindings);
+
+export {defaultSettings, loadSettings, saveSettings, buttonBindingsFor, toggleBinding}
+export type {Settings}
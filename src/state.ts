@@ -1,57 +1,218 @@
 /**
  * State processing
  */
-import {Action, Block, GridCell, Tetromino, Viewport} from "./types.ts";
-import {Direction, initialiseGrid, moveTetrominoDown, placeTetrominoOnGrid, RNG, Tetrominos} from "./util.ts";
+import {Action, GridCell, LockReset, Phase, Tetromino} from "./types.ts";
+import {
+    collisionDetection,
+    Direction,
+    initialiseGrid,
+    lockTetromino,
+    moveTetrominoDown,
+    placeTetrominoOnGrid
+} from "./util.ts";
+import {kicks, Turn} from "./rotation.ts";
+import {ClearType} from "./scoring.ts";
+import {createGenerator, PieceGenerator, RNG, takeFromQueue} from "./randomizer.ts";
+import {defaultConfig, GameConfig, gravityFor, spawnTetromino} from "./config.ts";
+import {checkGoal, MODES} from "./modes.ts";
+import {GarbageBatch, generateCheese, raiseRows} from "./garbage.ts";
 
 /**
  * @typedef {Object} State
  * @property {Tetromino} currentTetromino - The currently active Tetromino.
- * @property {Tetromino} nextTetromino - The next Tetromino that will be active.
+ * @property {Tetromino[]} nextQueue - The upcoming Tetrominos, next to spawn first. Holds `config.previewLength` pieces.
  * @property {(Tetromino|null)} heldElement - The Tetromino that is currently held.
- * @property {GridCell[][]} grid - The grid of the game.
+ * @property {GridCell[][]} grid - The grid of the game, hidden rows included.
  * @property {number} score - The current score of the game.
  * @property {number} level - The current level of the game.
- * @property {number} highScore - The highest score achieved in the game.
- * @property {boolean} gameEnd - Whether the game has ended or not.
+ * @property {(number|null)} best - The best result achieved in this game mode, null if there is none yet.
+ * @property {Phase} phase - Whether the game is counting down, playing, paused or over.
+ * @property {number} countdown - The number of ticks left before play starts, during the READY phase.
+ * @property {number} delay - The number of ticks left in the CLEARING or ENTRY phase.
+ * @property {(Clearing|null)} clearing - The rows being cleared, during the CLEARING phase.
+ * @property {boolean} completed - Whether the game ended by reaching the goal of its mode.
+ * @property {number} ticks - The number of game ticks played.
  * @property {number} speedMultiplier - The speed multiplier of the game.
  * @property {number} speedCount - The current speed count of the game.
+ * @property {(number|null)} softDrop - How many times faster than gravity the Tetromino falls while soft drop
+ * is held, null when it is not held.
  * @property {number} rowsCleared - The number of rows cleared in the game.
+ * @property {number} garbageCleared - The number of the rows cleared that held garbage.
  * @property {boolean} usedHold - Whether the hold function has been used or not.
+ * @property {number} seed - The seed the game was started with.
+ * @property {PieceGenerator} generator - The piece generator, advanced every time a piece is drawn.
+ * @property {GameConfig} config - The rules of the game.
+ * @property {number} lockTicks - The number of ticks the current Tetromino has been grounded for.
+ * @property {number} lockResets - The number of lock delay resets used since the current Tetromino reached its lowest row.
+ * @property {number} lowestRow - The lowest row the current Tetromino has reached.
+ * @property {(number|null)} lastKick - The kick test used by the last successful rotation, or null if the
+ * last successful movement of the current Tetromino was not a rotation. Used to detect T-spins.
+ * @property {number} combo - The number of consecutive locks that cleared lines, minus one; -1 when there is no combo.
+ * @property {boolean} backToBack - Whether the last line clear was difficult (a Tetris or a T-spin).
+ * @property {(ClearType|null)} lastClear - The last scoring clear, for the UI to show.
+ * @property {GarbageBatch[]} garbage - The garbage received and waiting to rise, oldest first.
+ * @property {number} attack - The garbage lines sent by the last lock, left over after cancelling the garbage waiting.
+ * @property {number} garbageSeed - The seed of the cheese generator, advanced every time cheese is generated.
+ * @property {GameEvent[]} events - What happened in the game during this tick and the one before, oldest first.
  */
 type State = Readonly<{
     currentTetromino: Tetromino,
-    nextTetromino: Tetromino,
+    nextQueue: ReadonlyArray<Tetromino>,
     heldElement : Tetromino | null,
     grid: GridCell[][],
     score: number,
     level: number,
-    highScore: number,
-    gameEnd: boolean;
+    best: number | null,
+    phase: Phase,
+    countdown: number,
+    delay: number,
+    clearing: Clearing | null,
+    completed: boolean,
+    ticks: number,
     speedMultiplier: number
     speedCount: number,
+    softDrop: number | null,
     rowsCleared: number,
-    usedHold : boolean
+    garbageCleared: number,
+    usedHold : boolean,
+    seed: number,
+    generator: PieceGenerator,
+    config: GameConfig,
+    lockTicks: number,
+    lockResets: number,
+    lowestRow: number,
+    lastKick: number | null,
+    combo: number,
+    backToBack: boolean,
+    lastClear: ClearType | null,
+    garbage: ReadonlyArray<GarbageBatch>,
+    attack: number,
+    garbageSeed: number,
+    events: ReadonlyArray<GameEvent>
 }>;
 
 /**
- * The initial state of the game.
- * @type {State}
+ * Something that happened in a game, for the UI to play an effect for. Events stay on the state until the
+ * tick after the one they happened on, so an event is new to whoever has not seen that object before.
+ * @typedef GameEvent
+ * @type {object}
+ * @property {number} tick - The tick the event happened on.
+ * @property {string} type - "move" and "rotate" when the Tetromino is moved or rotated, "hold" when it is held
+ * (the Tetromino is the one put in hold), "spawn" when the next Tetromino comes in, "lock" when it locks,
+ * "hardDrop" when it is hard dropped from one place to another, "clear" when a lock scores a clear (the rows are
+ * those of the grid before they were removed, and may be none for a spin; the attack is the garbage it sends
+ * before cancelling any waiting), "levelUp" when the level goes up, "gameOver" when the game ends, completed or not.
  */
-const initialState: State = {
-    currentTetromino: Tetrominos[RNG.randomInt(0, Tetrominos.length - 1)],
-    nextTetromino : Tetrominos[RNG.randomInt(0, Tetrominos.length - 1)],
-    heldElement : null,
-    grid: initialiseGrid(Viewport.CANVAS_WIDTH / Block.WIDTH, Viewport.CANVAS_HEIGHT / Block.HEIGHT),
-    score: 0,
-    level: 1,
-    highScore: 0,
-    gameEnd: false,
-    speedMultiplier : 10,
-    speedCount : 0,
-    rowsCleared : 0,
-    usedHold : false
-} as const;
+type GameEvent = Readonly<{tick: number} & (
+    | {type: "move" | "rotate"}
+    | {type: "hold" | "spawn", tetromino: Tetromino}
+    | {type: "lock", tetromino: Tetromino}
+    | {type: "hardDrop", from: Tetromino, to: Tetromino}
+    | {type: "clear", clear: ClearType, rows: ReadonlyArray<number>, attack: number}
+    | {type: "levelUp", level: number}
+    | {type: "gameOver", completed: boolean}
+)>;
+
+/**
+ * The rows a lock cleared, kept on the board while they flash.
+ * @typedef Clearing
+ * @type {object}
+ * @property {GridCell[][]} grid - The grid with the Tetromino placed and the full rows still in it.
+ * @property {number[]} rows - The full rows, top first.
+ */
+type Clearing = Readonly<{
+    grid: GridCell[][],
+    rows: ReadonlyArray<number>
+}>;
+
+/**
+ * Create the initial state of a game. The same seed and config always give the same piece sequence.
+ * @param {number} seed - The seed of the piece generator.
+ * @param {GameConfig} config - The rules of the game.
+ * @return {State} The initial state of the game.
+ */
+const createInitialState = (seed: number, config: GameConfig = defaultConfig): State => {
+    const {tetromino, queue, generator} = takeFromQueue(
+        createGenerator(config.randomizer, seed, config.pieces), [], config.previewLength, config.pieces);
+    const currentTetromino = spawnTetromino(config, tetromino);
+    const mode = MODES[config.mode];
+    const level = mode.level(0);
+    // The cheese has its own seed, so that the holes do not follow the pieces
+    const cheese = generateCheese(RNG.hash(~seed), config.width, mode.cheese ? config.dig.rows : 0, config.dig);
+    return {
+        currentTetromino,
+        nextQueue: queue,
+        heldElement: null,
+        grid: raiseRows(initialiseGrid(config.width, config.height + config.hiddenRows), cheese.rows).grid,
+        score: 0,
+        level,
+        best: null,
+        phase: config.readyTicks > 0 ? Phase.READY : Phase.PLAYING,
+        countdown: config.readyTicks,
+        delay: 0,
+        clearing: null,
+        completed: false,
+        ticks: 0,
+        speedMultiplier: gravityFor(config, level),
+        speedCount: 0,
+        softDrop: null,
+        rowsCleared: 0,
+        garbageCleared: 0,
+        usedHold: false,
+        seed,
+        generator,
+        config,
+        lockTicks: 0,
+        lockResets: 0,
+        lowestRow: currentTetromino.position.y,
+        lastKick: null,
+        combo: -1,
+        backToBack: false,
+        lastClear: null,
+        garbage: [],
+        attack: 0,
+        garbageSeed: cheese.seed,
+        events: []
+    };
+}
+
+/**
+ * Queue a row of cheese when the rise timer of a dig game goes off. Rising rows have a single hole,
+ * laid out after the row queued before them.
+ * @param {State} s - The current state of the game.
+ * @return {State} The state, with a row of garbage queued if one is due.
+ */
+const riseCheese = (s: State): State => {
+    const {dig, width} = s.config;
+    if (!MODES[s.config.mode].cheese || dig.riseTicks <= 0 || s.ticks % dig.riseTicks !== 0) return s;
+    const last = s.garbage[s.garbage.length - 1];
+    const {holes, seed} = generateCheese(s.garbageSeed, width, 1, {...dig, holes: 1}, last ? [last.hole] : []);
+    return {...s, garbageSeed: seed, garbage: s.garbage.concat({lines: 1, hole: holes[0]})};
+}
+
+/**
+ * Count down the line clear delay and the entry delay. The entry delay follows the line clear delay,
+ * and the next Tetromino, spawned when the last one locked, takes over when both are done.
+ * @param {State} s - The current state of the game, in the CLEARING or ENTRY phase.
+ * @return {State} The new state of the game.
+ */
+const waitForEntry = (s: State): State => {
+    if (s.delay > 1) return {...s, delay: s.delay - 1};
+    return s.phase === Phase.CLEARING && s.config.entryDelay > 0
+        ? {...s, phase: Phase.ENTRY, delay: s.config.entryDelay, clearing: null}
+        : {...s, phase: Phase.PLAYING, delay: 0, clearing: null};
+}
+
+/**
+ * Start the next tick, dropping the events of the tick before the last one.
+ * @param {State} s - The current state of the game.
+ * @return {State} The state, one tick later.
+ */
+const nextTick = (s: State): State => ({
+    ...s,
+    ticks: s.ticks + 1,
+    events: s.events.every(event => event.tick >= s.ticks) ? s.events : s.events.filter(event => event.tick >= s.ticks)
+});
 
 /**
  * Class representing the game flow.
@@ -64,21 +225,108 @@ class GameFlow implements Action {
      * @return {State} The new state of the game.
      */
     apply(s: State): State {
-        // Check if the game has ended
-        if (s.gameEnd)
-            return {
-                ...initialState,
-                highScore : s.score > s.highScore ? s.score : s.highScore
-            }
-        // Check if the speed count is greater than or equal to the speed multiplier
-        if (s.speedCount >= s.speedMultiplier)
-            return moveTetrominoDown(s);
+        switch (s.phase) {
+            case Phase.READY:
+                return s.countdown > 1
+                    ? {...s, countdown: s.countdown - 1}
+                    : {...s, phase: Phase.PLAYING, countdown: 0};
+            case Phase.PLAYING:
+                return fall(checkGoal(riseCheese(nextTick(s))));
+            // The clock keeps running through the delays after a lock
+            case Phase.CLEARING:
+            case Phase.ENTRY:
+                return checkGoal(riseCheese(waitForEntry(nextTick(s))));
+            // Paused and finished games wait for input
+            default:
+                return s;
+        }
+    }
+}
 
-        // Increment the speed countÍ
+/**
+ * Class representing pausing the game, e.g. when the page is hidden.
+ * @implements {Action}
+ */
+class Pause implements Action {
+    /**
+     * Pause the game if it is running or counting down. Pausing cuts short the delays after a lock.
+     * @param {State} s - The current state of the game.
+     * @return {State} The new state of the game.
+     */
+    apply(s: State): State {
+        return s.phase === Phase.PAUSED || s.phase === Phase.GAME_OVER
+            ? s
+            : {...s, phase: Phase.PAUSED, delay: 0, clearing: null};
+    }
+}
+
+/**
+ * Class representing the pause key: pausing a running game or resuming a paused one.
+ * @implements {Action}
+ */
+class TogglePause implements Action {
+    /**
+     * Pause the game, or resume it after a countdown if it is paused.
+     * @param {State} s - The current state of the game.
+     * @return {State} The new state of the game.
+     */
+    apply(s: State): State {
+        if (s.phase !== Phase.PAUSED) return new Pause().apply(s);
+        return s.config.readyTicks > 0
+            ? {...s, phase: Phase.READY, countdown: s.config.readyTicks}
+            : {...s, phase: Phase.PLAYING};
+    }
+}
+
+/**
+ * Class representing starting a new game with the same rules.
+ * @implements {Action}
+ */
+class Restart implements Action {
+    /**
+     * Start a new game, carrying over the best result.
+     * @param {State} s - The current state of the game.
+     * @return {State} The new state of the game.
+     */
+    apply(s: State): State {
         return {
-            ...s,
-            speedCount : s.speedCount + 1
-        }
+            // Derive the next game's seed from the generator so the reset stays pure
+            ...createInitialState(RNG.hash(s.generator.seed), s.config),
+            best: s.best
+        };
+    }
+}
+
+/**
+ * Apply gravity and the lock delay for one tick.
+ * @param {State} s - The current state of the game.
+ * @return {State} The new state of the game.
+ */
+const fall = (s: State): State => {
+    if (s.phase !== Phase.PLAYING) return s;
+    // A grounded tetromino counts down its lock delay instead of falling
+    if (collisionDetection(s, Direction.DOWN)) {
+        const {lockDelay} = s.config;
+        const resetsExhausted = lockDelay.reset === LockReset.MOVE && s.lockResets >= lockDelay.resetLimit;
+        return s.lockTicks >= lockDelay.ticks || resetsExhausted
+            ? lockTetromino(s)
+            : {...s, lockTicks: s.lockTicks + 1};
+    }
+    // Soft drop divides the time per row by its factor, down to a row every tick
+    const gravity = s.softDrop === null
+        ? s.speedMultiplier
+        : Math.max(Math.ceil((s.speedMultiplier + 1) / s.softDrop) - 1, 0);
+
+    // Check if the speed count is greater than or equal to the speed multiplier
+    if (s.speedCount >= gravity) {
+        const moved = moveTetrominoDown(s);
+        return s.softDrop === null ? moved : {...moved, score: moved.score + s.config.scoring.softDrop};
+    }
+
+    // Increment the speed count
+    return {
+        ...s,
+        speedCount : s.speedCount + 1
     }
 }
 
@@ -93,7 +341,29 @@ class Down implements Action {
      * @return {State} The new state of the game.
      */
     apply(s: State): State {
-        return moveTetrominoDown(s);
+        if (s.phase !== Phase.PLAYING) return s;
+        const moved = moveTetrominoDown(s);
+        return moved === s ? s : {...moved, score: moved.score + s.config.scoring.softDrop};
+    }
+}
+
+/**
+ * Class representing holding or releasing soft drop.
+ * @implements {Action}
+ */
+class SoftDrop implements Action {
+    /**
+     * @param {(number|null)} factor - How many times faster than gravity to fall, null to release soft drop.
+     */
+    constructor(public readonly factor: number | null) {}
+
+    /**
+     * Apply the soft drop to the current state. Releasing always applies, so that soft drop never sticks.
+     * @param {State} s - The current state of the game.
+     * @return {State} The new state of the game.
+     */
+    apply(s: State): State {
+        return {...s, softDrop: this.factor};
     }
 }
 
@@ -104,32 +374,36 @@ class Down implements Action {
 class Move implements Action {
     /**
      * @param {Direction} direction - The direction of movement.
+     * @param {number} distance - The number of cells to move, stopping early at a wall or the stack.
      */
-    constructor(public readonly direction: Direction) {}
+    constructor(public readonly direction: Direction, public readonly distance: number = 1) {}
 
     /**
      * Apply the horizontal movement to the current state.
+     * A move of several cells counts as a single manipulation for the lock delay, and no move goes further than
+     * the width of the board. Directions other than left and right are ignored.
      * @param {State} s - The current state of the game.
      * @return {State} The new state of the game.
      */
     apply(s: State): State {
-        // Check for wall collision
-        if (collisionDetection(s, this.direction)) return s;
+        if (s.phase !== Phase.PLAYING || (this.direction !== Direction.LEFT && this.direction !== Direction.RIGHT))
+            return s;
 
-        // Determine the new position
-        const newPosition = {
-            x: s.currentTetromino.position.x + (this.direction === Direction.RIGHT ? 1 : -1),
-            y: s.currentTetromino.position.y
-        };
+        const step = (t: State, remaining: number): State =>
+            // Check for wall collision
+            remaining <= 0 || collisionDetection(t, this.direction) ? t : step({
+                ...t,
+                currentTetromino: {
+                    ...t.currentTetromino,
+                    position: {
+                        x: t.currentTetromino.position.x + (this.direction === Direction.RIGHT ? 1 : -1),
+                        y: t.currentTetromino.position.y
+                    }
+                }
+            }, remaining - 1);
 
-        // Return the new state
-        return {
-            ...s,
-            currentTetromino: {
-                ...s.currentTetromino,
-                position: newPosition,
-            },
-        };
+        const moved = step(s, Math.min(this.distance, s.config.width));
+        return moved === s ? s : resetLockDelay(s, {...moved, lastKick: null, events: withEvent(s, "move")});
     }
 }
 
@@ -138,24 +412,37 @@ class Move implements Action {
  * @implements {Action}
  */
 class Rotate implements Action {
+    /**
+     * @param {Turn} turn - How far to turn the Tetromino.
+     */
+    constructor(public readonly turn: Turn = Turn.CLOCKWISE) {}
 
     /**
-     * Apply the rotation to the current state.
+     * Apply the rotation to the current state, trying each kick of the rotation system in turn.
      * @param {State} s - The current state of the game.
-     * @return {State} The new state of the game.
+     * @return {State} The new state of the game, unchanged if every kick collides.
      */
     apply(s: State): State {
-        const currentRotation = s.currentTetromino.rotation
-        const newRotation = currentRotation + 1 < s.currentTetromino.shapes.length ? currentRotation + 1 : 0;
+        if (s.phase !== Phase.PLAYING) return s;
+        const tetromino = s.currentTetromino;
+        const newRotation = (tetromino.rotation + this.turn) % tetromino.shapes.length;
 
-        const newState : State =  {...s,
-            currentTetromino : {
-                ...s.currentTetromino,
-                rotation : newRotation
-            }
-        };
+        const candidates = kicks(s.config.rotationSystem, tetromino, tetromino.rotation, newRotation)
+            .map((kick, index): State => ({
+                ...s,
+                currentTetromino: {
+                    ...tetromino,
+                    rotation: newRotation,
+                    position: {
+                        x: tetromino.position.x + kick.x,
+                        y: tetromino.position.y + kick.y
+                    }
+                },
+                lastKick: index
+            }));
 
-        return !collisionDetection(newState, Direction.ROTATE) ? newState : s
+        const rotated = candidates.find(candidate => !collisionDetection(candidate, Direction.ROTATE));
+        return rotated ? resetLockDelay(s, {...rotated, events: withEvent(s, "rotate")}) : s;
     }
 
 }
@@ -171,10 +458,11 @@ class Drop implements Action {
      * @return {State} The new state of the game.
      */
     apply(s: State): State {
-        if (collisionDetection(s, Direction.DOWN)) {
-            return moveTetrominoDown(s)
-        }
-        return this.apply(moveTetrominoDown(s));
+        if (s.phase !== Phase.PLAYING) return s;
+        const locked = hardDrop(s);
+        const event: GameEvent = {tick: s.ticks, type: "hardDrop", from: s.currentTetromino, to: ghostTetromino(s)};
+        // The drop happened before the lock
+        return {...locked, events: [...s.events, event, ...locked.events.slice(s.events.length)]};
     }
 
 }
@@ -191,115 +479,139 @@ class Hold implements Action {
      */
     apply(s: State): State {
 
-        if (s.usedHold) return s
+        if (s.phase !== Phase.PLAYING || s.usedHold) return s
 
-        if (!s.heldElement)
+        if (!s.heldElement) {
+            const {tetromino, queue, generator} =
+                takeFromQueue(s.generator, s.nextQueue, s.config.previewLength, s.config.pieces);
+            const spawned = spawnTetromino(s.config, tetromino);
             return {
                 ...s,
-                currentTetromino: s.nextTetromino,
-                nextTetromino : Tetrominos[RNG.randomInt(0, Tetrominos.length - 1)],
+                currentTetromino: spawned,
+                nextQueue : queue,
+                generator,
                 heldElement: s.currentTetromino,
-                usedHold : true
+                usedHold : true,
+                events: s.events.concat(
+                    {tick: s.ticks, type: "hold", tetromino: s.currentTetromino},
+                    {tick: s.ticks, type: "spawn", tetromino: spawned}
+                ),
+                ...spawnFields(spawned)
             };
+        }
 
+        // The held piece comes back at the spawn position, in its spawn orientation
+        const spawned = spawnTetromino(s.config, s.heldElement);
         return {
             ...s,
-            currentTetromino: s.heldElement,
+            currentTetromino: spawned,
             heldElement: s.currentTetromino,
-            usedHold : true
-
+            usedHold : true,
+            events: s.events.concat(
+                {tick: s.ticks, type: "hold", tetromino: s.currentTetromino},
+                {tick: s.ticks, type: "spawn", tetromino: spawned}
+            ),
+            ...spawnFields(spawned)
         };
     }
 
 }
 
 /**
- * Detects if there is a collision in the specified direction.
- * @param {State} state - The current state of the game.
- * @param {Direction} direction - The direction of movement.
- * @return {boolean} True if there is a collision, false otherwise.
+ * Class representing garbage sent by an opponent.
+ * @implements {Action}
  */
-const collisionDetection = (state: State, direction: Direction) : boolean => {
-    const currentRotation = state.currentTetromino.rotation;
-    const tetrominoShape = state.currentTetromino.shapes[currentRotation];
-    const tetrominoPosition = state.currentTetromino.position;
-
-    switch (direction) {
-        case Direction.DOWN:
-            // Check for collision when moving down
-            // For each row and cell in the tetromino shape,
-            // calculate the new Y position, then check if the new position
-            // is out of bounds or collides with another cell on the grid.
-            return tetrominoShape.some((row, y) => {
-                return row.some((cell, x) => {
-                    if (cell) {
-                        const newY = tetrominoPosition.y + y + 1;
-                        return (
-                            newY * Block.HEIGHT >= Viewport.CANVAS_HEIGHT ||
-                            state.grid[newY][tetrominoPosition.x + x]
-                        );
-                    }
-                    return false;
-                });
-            });
-
-        case Direction.LEFT:
-            // Check for collision when moving left
-            // Similar to moving down, but we calculate the new X position
-            // and check for out-of-bounds or collision on the grid.
-            return tetrominoShape.some((row, y) => {
-                return row.some((cell, x) => {
-                    if (cell) {
-                        const newX = tetrominoPosition.x + x - 1;
-                        return (
-                            newX < 0 ||
-                            state.grid[tetrominoPosition.y + y][newX]
-                        );
-                    }
-                    return false;
-                });
-            });
-
-        case Direction.RIGHT:
-            // Check for collision when moving right
-            // Similar to moving left, but we add instead of subtract to the X position.
-            return tetrominoShape.some((row, y) => {
-                return row.some((cell, x) => {
-                    if (cell) {
-                        const newX = tetrominoPosition.x + x + 1;
-                        return (
-                            newX >= Viewport.CANVAS_WIDTH / Block.WIDTH ||
-                            state.grid[tetrominoPosition.y + y][newX]
-                        );
-                    }
-                    return false;
-                });
-            });
-
-        case Direction.ROTATE:
-            // Check for collision when rotating
-            // For each cell in the tetromino shape, calculate the new X and Y positions
-            // then check for out-of-bounds or collision on the grid.
-            return tetrominoShape.some((row, y) => {
-                return row.some((cell, x) => {
-                    if (cell) {
-                        const newY = tetrominoPosition.y + y;
-                        const newX = tetrominoPosition.x + x;
-                        return (
-                            newY < 0 ||
-                            newY >= Viewport.CANVAS_HEIGHT / Block.HEIGHT ||
-                            newX < 0 ||
-                            newX >= Viewport.CANVAS_WIDTH / Block.WIDTH ||
-                            state.grid[newY][newX]
-                        );
-                    }
-                    return false;
-                });
-            });
+class ReceiveGarbage implements Action {
+    /**
+     * @param {number} lines - The number of garbage rows.
+     * @param {number} hole - The empty column of every row.
+     */
+    constructor(public readonly lines: number, public readonly hole: number) {}
+
+    /**
+     * Queue the garbage. It rises the next time a lock clears nothing.
+     * @param {State} s - The current state of the game.
+     * @return {State} The new state of the game.
+     */
+    apply(s: State): State {
+        return {...s, garbage: s.garbage.concat({lines: this.lines, hole: this.hole})};
     }
 }
 
+/**
+ * Move the current Tetromino down until it lands, scoring each row, and lock it.
+ * @param {State} s - The current state of the game.
+ * @return {State} The new state of the game.
+ */
+const hardDrop = (s: State): State => {
+    // A hard drop skips the lock delay
+    if (collisionDetection(s, Direction.DOWN)) {
+        return lockTetromino(s)
+    }
+    const moved = moveTetrominoDown(s);
+    return hardDrop({...moved, score: moved.score + s.config.scoring.hardDrop});
+}
 
+/**
+ * Add an event without details to the events of a game.
+ * @param {State} s - The current state of the game.
+ * @param {"move"|"rotate"} type - What happened.
+ * @return {GameEvent[]} The events of the game, the new one last.
+ */
+const withEvent = (s: State, type: "move" | "rotate"): ReadonlyArray<GameEvent> =>
+    s.events.concat({tick: s.ticks, type});
+
+/**
+ * The per-piece fields of a freshly spawned Tetromino: lock delay and T-spin tracking.
+ * @param {Tetromino} tetromino - The spawned Tetromino.
+ * @return {Partial<State>} The fields to spread into the state.
+ */
+const spawnFields = (tetromino: Tetromino) => ({
+    lockTicks: 0,
+    lockResets: 0,
+    lowestRow: tetromino.position.y,
+    lastKick: null
+});
+
+/**
+ * Update the lock delay after the current Tetromino was moved or rotated.
+ * Reaching a new lowest row always restarts the delay; with move reset, any other
+ * manipulation on the ground restarts it too, until the reset limit is used up.
+ * @param {State} before - The state before the manipulation.
+ * @param {State} after - The state after the manipulation.
+ * @return {State} The state after the manipulation, with the lock delay updated.
+ */
+const resetLockDelay = (before: State, after: State): State => {
+    const y = after.currentTetromino.position.y;
+    if (y > after.lowestRow)
+        return {...after, lowestRow: y, lockTicks: 0, lockResets: 0};
+
+    const grounded = collisionDetection(before, Direction.DOWN) || collisionDetection(after, Direction.DOWN);
+    const {lockDelay} = after.config;
+    if (lockDelay.reset === LockReset.MOVE && grounded && after.lockResets < lockDelay.resetLimit)
+        return {...after, lockTicks: 0, lockResets: after.lockResets + 1};
+
+    return after;
+};
+
+/**
+ * Find where the current Tetromino would land if it were hard dropped.
+ * @param {State} s - The current state of the game.
+ * @return {Tetromino} The current Tetromino moved down as far as it can go.
+ */
+const ghostTetromino = (s: State): Tetromino =>
+    collisionDetection(s, Direction.DOWN)
+        ? s.currentTetromino
+        : ghostTetromino({
+            ...s,
+            currentTetromino: {
+                ...s.currentTetromino,
+                position: {
+                    x: s.currentTetromino.position.x,
+                    y: s.currentTetromino.position.y + 1
+                }
+            }
+        });
 
 /**
  * Reduce the current state by applying the specified action.
@@ -309,5 +621,5 @@ const collisionDetection = (state: State, direction: Direction) : boolean => {
  */
 const reduceState = (s: State, action: Action) : State => action.apply(s);
 
-export type { State }
-export { reduceState, initialState, Move, Rotate, Drop, collisionDetection, moveTetrominoDown, placeTetrominoOnGrid, Down, GameFlow, Hold}
+export type { State, GameEvent, Clearing }
+export { reduceState, createInitialState, Move, Rotate, Drop, collisionDetection, ghostTetromino, moveTetrominoDown, placeTetrominoOnGrid, Down, GameFlow, Hold, Pause, TogglePause, Restart, SoftDrop, ReceiveGarbage}
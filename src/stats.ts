@@ -0,0 +1,226 @@
+/** Statistics of a game: pieces placed, speed, attack and clears, worked out from its events */
+import {Constants, PieceKind} from "./types.ts";
+import {GameEvent} from "./state.ts";
+import {ClearType, Spin} from "./scoring.ts";
+
+/**
+ * The kinds of clear counted. T-spins are counted whatever the number of lines, and perfect clears
+ * are counted on top of the lines they clear.
+ * @typedef ClearKind
+ * @type {"single"|"double"|"triple"|"tetris"|"tSpin"|"perfectClear"}
+ */
+type ClearKind = "single" | "double" | "triple" | "tetris" | "tSpin" | "perfectClear";
+
+/**
+ * The running counts of a game, added up from its events.
+ * Keys are the inputs that did something: moves, each once whatever its distance, rotations, holds and hard drops.
+ * Soft drops are not counted.
+ * @typedef Tally
+ * @type {object}
+ * @property {number} pieces - The pieces placed.
+ * @property {number} keys - The inputs made.
+ * @property {number} lines - The lines cleared.
+ * @property {number} attack - The garbage lines sent, before cancelling.
+ * @property {Record<ClearKind, number>} clears - The clears of each kind.
+ * @property {number} maxCombo - The longest combo, 0 when no two clears came in a row.
+ * @property {Record<PieceKind, number>} placed - The pieces of each kind placed.
+ */
+type Tally = Readonly<{
+    pieces: number,
+    keys: number,
+    lines: number,
+    attack: number,
+    clears: Readonly<Record<ClearKind, number>>,
+    maxCombo: number,
+    placed: Readonly<Record<PieceKind, number>>
+}>;
+
+/**
+ * The tallies of a whole game, one after each tick on which something was counted, oldest first.
+ * @typedef TallyTimeline
+ * @type {object[]}
+ * @property {number} tick - The tick of the events.
+ * @property {Tally} tally - The tally once the events of the tick are added.
+ */
+type TallyTimeline = ReadonlyArray<Readonly<{ tick: number, tally: Tally }>>;
+
+/**
+ * A tally with the rates worked out over the time played.
+ * @typedef Stats
+ * @type {object}
+ * @property {number} ticks - The time played, in ticks.
+ * @property {number} pps - The pieces placed per second.
+ * @property {number} kpp - The keys per piece.
+ * @property {number} apm - The attack per minute.
+ */
+type Stats = Tally & Readonly<{
+    ticks: number,
+    pps: number,
+    kpp: number,
+    apm: number
+}>;
+
+/** The tally of a game that has not started */
+const EMPTY_TALLY: Tally = {
+    pieces: 0,
+    keys: 0,
+    lines: 0,
+    attack: 0,
+    clears: {single: 0, double: 0, triple: 0, tetris: 0, tSpin: 0, perfectClear: 0},
+    maxCombo: 0,
+    placed: {I: 0, O: 0, T: 0, S: 0, Z: 0, J: 0, L: 0}
+};
+
+/**
+ * The names of the kinds of clear, in the order they are listed to the player.
+ * @constant {Record<ClearKind, string>}
+ */
+const CLEAR_NAMES: Readonly<Record<ClearKind, string>> = {
+    single: "Singles",
+    double: "Doubles",
+    triple: "Triples",
+    tetris: "Tetrises",
+    tSpin: "T-spins",
+    perfectClear: "Perfect clears"
+};
+
+/** The kinds of line clear by the number of lines, for clears without a spin */
+const LINE_CLEARS: ReadonlyArray<ClearKind> = ["single", "double", "triple", "tetris"];
+
+/**
+ * The kinds of clear a clear counts as.
+ * @param {ClearType} clear - The clear.
+ * @returns {ClearKind[]} - The kinds, none for a lock that only keeps a combo going.
+ */
+const clearKinds = (clear: ClearType): ClearKind[] => [
+    ...(clear.spin !== Spin.NONE ? ["tSpin" as const]
+        : clear.rowsCleared > 0 ? [LINE_CLEARS[Math.min(clear.rowsCleared, 4) - 1]] : []),
+    ...(clear.perfectClear ? ["perfectClear" as const] : [])
+];
+
+/**
+ * Add events to a tally. Each event must be added once, so a caller following a game adds only the events
+ * it has not seen before.
+ * @param {Tally} tally - The tally so far.
+ * @param {GameEvent[]} events - The events, oldest first.
+ * @returns {Tally} - The new tally.
+ */
+const tallyEvents = (tally: Tally, events: ReadonlyArray<GameEvent>): Tally =>
+    events.reduce((acc: Tally, event): Tally => {
+        switch (event.type) {
+            case "move":
+            case "rotate":
+            case "hold":
+            case "hardDrop":
+                return {...acc, keys: acc.keys + 1};
+            case "lock":
+                return {
+                    ...acc,
+                    pieces: acc.pieces + 1,
+                    placed: {...acc.placed, [event.tetromino.kind]: acc.placed[event.tetromino.kind] + 1}
+                };
+            case "clear":
+                return {
+                    ...acc,
+                    lines: acc.lines + event.clear.rowsCleared,
+                    attack: acc.attack + event.attack,
+                    clears: clearKinds(event.clear).reduce((clears, kind) => ({...clears, [kind]: clears[kind] + 1}),
+                        acc.clears),
+                    maxCombo: Math.max(acc.maxCombo, event.clear.combo)
+                };
+            case "spawn":
+            case "levelUp":
+            case "gameOver":
+                return acc;
+        }
+    }, tally);
+
+/**
+ * Work out the rates of a tally.
+ * @param {Tally} tally - The tally.
+ * @param {number} ticks - The time played, in ticks.
+ * @returns {Stats} - The stats, with rates of 0 before anything is played.
+ */
+const statsOf = (tally: Tally, ticks: number): Stats => {
+    const seconds = ticks * Constants.TICK_RATE_MS / 10 / 1000;
+    return {
+        ...tally,
+        ticks,
+        pps: seconds > 0 ? tally.pieces / seconds : 0,
+        kpp: tally.pieces > 0 ? tally.keys / tally.pieces : 0,
+        apm: seconds > 0 ? tally.attack * 60 / seconds : 0
+    };
+}
+
+/**
+ * Work out the stats of a game from all of its events, e.g. those of a replay.
+ * @param {GameEvent[]} events - Every event of the game, each once, oldest first.
+ * @param {number} ticks - The time played, in ticks.
+ * @returns {Stats} - The stats.
+ */
+const statsFor = (events: ReadonlyArray<GameEvent>, ticks: number): Stats =>
+    statsOf(tallyEvents(EMPTY_TALLY, events), ticks);
+
+/**
+ * Add up the events of a whole game once, e.g. those of a replay, so that the tally at any tick can be looked up.
+ * @param {GameEvent[]} events - Every event of the game, each once, oldest first.
+ * @returns {TallyTimeline} - The tallies, one per tick with events.
+ */
+const tallyTimeline = (events: ReadonlyArray<GameEvent>): TallyTimeline => {
+    const timeline: { tick: number, tally: Tally }[] = [];
+    events.reduce((tally, event) => {
+        const next = tallyEvents(tally, [event]);
+        // Events of the same tick share an entry
+        if (timeline.length > 0 && timeline[timeline.length - 1].tick === event.tick) timeline.pop();
+        timeline.push({tick: event.tick, tally: next});
+        return next;
+    }, EMPTY_TALLY);
+    return timeline;
+}
+
+/**
+ * Look up the tally of a game at a tick.
+ * @param {TallyTimeline} timeline - The tallies of the game.
+ * @param {number} tick - The tick.
+ * @returns {Tally} - The tally of every event up to and including the tick.
+ */
+const tallyAt = (timeline: TallyTimeline, tick: number): Tally => {
+    // Find the first entry past the tick, by bisection
+    let low = 0, high = timeline.length;
+    while (low < high) {
+        const middle = (low + high) >> 1;
+        if (timeline[middle].tick <= tick) low = middle + 1;
+        else high = middle;
+    }
+    return low === 0 ? EMPTY_TALLY : timeline[low - 1].tally;
+}
+
+/**
+ * The rates of a game in one short line, e.g. for the end of game summary.
+ * @param {Stats} stats - The stats.
+ * @returns {string} - The line.
+ */
+const formatRates = (stats: Stats): string =>
+    `PPS ${stats.pps.toFixed(2)}  KPP ${stats.kpp.toFixed(2)}  APM ${stats.apm.toFixed(1)}`;
+
+/**
+ * The stats as rows of a table, each a label and a value.
+ * Kinds of clear and pieces that have not come up yet are left out to keep the table short.
+ * @param {Stats} stats - The stats.
+ * @returns {[string, string][]} - The rows.
+ */
+const statRows = (stats: Stats): [string, string][] => [
+    ["PPS", stats.pps.toFixed(2)],
+    ["KPP", stats.kpp.toFixed(2)],
+    ["APM", stats.apm.toFixed(1)],
+    ["Pieces", String(stats.pieces)],
+    ["Lines", String(stats.lines)],
+    ["Max combo", String(stats.maxCombo)],
+    ...(Object.keys(CLEAR_NAMES) as ClearKind[]).filter(kind => stats.clears[kind] > 0)
+        .map((kind): [string, string] => [CLEAR_NAMES[kind], String(stats.clears[kind])]),
+    ...(Object.keys(stats.placed) as PieceKind[]).filter(kind => stats.placed[kind] > 0)
+        .map((kind): [string, string] => [kind, String(stats.placed[kind])])
+];
+
+export {EMPTY_TALLY, CLEAR_NAMES, tallyEvents, statsOf, statsFor, tallyTimeline, tallyAt, formatRates, statRows}
+export type {ClearKind, Tally, TallyTimeline, Stats}
@@ -0,0 +1,66 @@
+/** Persistent storage */
+
+/**
+ * @interface Store
+ * A key-value store for strings that outlives the page.
+ */
+interface Store {
+    /**
+     * @param {string} key - The key to read.
+     * @return {(string|null)} - The stored value, or null if there is none.
+     */
+    load(key: string): string | null;
+
+    /**
+     * @param {string} key - The key to write.
+     * @param {string} value - The value to store.
+     */
+    save(key: string, value: string): void;
+}
+
+/**
+ * Class representing a store backed by the browser's localStorage.
+ * Failures (storage disabled, quota exceeded) are treated as an empty store, so the game still runs.
+ * @implements {Store}
+ */
+class LocalStore implements Store {
+    /**
+     * @param {string} prefix - Prepended to every key, to keep clear of other pages on the same origin.
+     */
+    constructor(public readonly prefix: string = "tetris.") {}
+
+    load(key: string): string | null {
+        try {
+            return localStorage.getItem(this.prefix + key);
+        } catch {
+            return null;
+        }
+    }
+
+    save(key: string, value: string): void {
+        try {
+            localStorage.setItem(this.prefix + key, value);
+        } catch {
+            // Nothing to do, the value only lasts until the page is closed
+        }
+    }
+}
+
+/**
+ * Class representing a store that only lives in memory, for tests and when localStorage is unavailable.
+ * @implements {Store}
+ */
+class MemoryStore implements Store {
+    private readonly values = new Map<string, string>();
+
+    load(key: string): string | null {
+        return this.values.get(key) ?? null;
+    }
+
+    save(key: string, value: string): void {
+        this.values.set(key, value);
+    }
+}
+
+export {LocalStore, MemoryStore}
+export type {Store}
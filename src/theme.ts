@@ -0,0 +1,179 @@
+/** Themes: what each kind of cell looks like, and the colours of the board around them */
+import {CellKind} from "./types.ts";
+
+/**
+ * A mark drawn over a cell so that pieces can be told apart without colour.
+ * @typedef Pattern
+ * @type {"stripes"|"columns"|"diagonal"|"dot"|"ring"|"cross"|"saltire"}
+ */
+type Pattern = "stripes" | "columns" | "diagonal" | "dot" | "ring" | "cross" | "saltire";
+
+/**
+ * What a kind of cell looks like.
+ * @typedef CellStyle
+ * @type {object}
+ * @property {string} fill - The colour of the cell.
+ * @property {string} stroke - The colour of the outline of the cell, and of its pattern.
+ * @property {(Pattern|null)} pattern - The mark drawn over the cell, null for a plain cell.
+ */
+type CellStyle = Readonly<{
+    fill: string,
+    stroke: string,
+    pattern: Pattern | null
+}>;
+
+/**
+ * @typedef ThemeId
+ * @type {"classic"|"guideline"|"dark"|"highContrast"|"colourBlind"}
+ */
+type ThemeId = "classic" | "guideline" | "dark" | "highContrast" | "colourBlind";
+
+/**
+ * @typedef Theme
+ * @type {object}
+ * @property {ThemeId} id - The id of the theme, as saved in the settings.
+ * @property {string} name - The name of the theme, for the menu.
+ * @property {Record<CellKind, CellStyle>} cells - What each kind of cell looks like.
+ * @property {string} background - The colour of the board.
+ * @property {string} panel - The colour behind the next queue and the held piece.
+ */
+type Theme = Readonly<{
+    id: ThemeId,
+    name: string,
+    cells: Readonly<Record<CellKind, CellStyle>>,
+    background: string,
+    panel: string
+}>;
+
+/**
+ * What each kind of cell looks like when they differ only in colour.
+ * @param {Record<CellKind, string>} fills - The colour of each kind of cell.
+ * @param {string} stroke - The colour of every outline.
+ * @returns {Record<CellKind, CellStyle>} - The cell styles.
+ */
+const plainCells = (fills: Readonly<Record<CellKind, string>>, stroke: string): Record<CellKind, CellStyle> =>
+    Object.fromEntries(Object.entries(fills).map(([kind, fill]) => [kind, {fill, stroke, pattern: null}])) as
+        Record<CellKind, CellStyle>;
+
+/**
+ * The themes, in the order they are listed to the player.
+ * The colour-blind theme uses the Okabe-Ito palette and gives every piece its own pattern, so that no two pieces
+ * depend on colour alone to be told apart.
+ * @constant {Record<ThemeId, Theme>}
+ */
+const THEMES: Readonly<Record<ThemeId, Theme>> = {
+    classic: {
+        id: "classic",
+        name: "Classic",
+        cells: plainCells({
+            I: "cyan", O: "yellow", T: "purple", S: "green", Z: "red", J: "blue", L: "orange", garbage: "gray"
+        }, "black"),
+        background: "rgb(183, 151, 110)",
+        panel: "rgb(218, 180, 131)"
+    },
+    guideline: {
+        id: "guideline",
+        name: "Guideline",
+        cells: plainCells({
+            I: "#00c8ff", O: "#ffd500", T: "#a000f0", S: "#00d040", Z: "#f02020", J: "#0050ff", L: "#ff8c00",
+            garbage: "#9a9a9a"
+        }, "#202020"),
+        background: "#2c2c34",
+        panel: "#3a3a44"
+    },
+    dark: {
+        id: "dark",
+        name: "Dark",
+        cells: plainCells({
+            I: "#3a8fa3", O: "#b3a13a", T: "#7a4f9e", S: "#4f8f4a", Z: "#a34848", J: "#3f5ea8", L: "#b0723a",
+            garbage: "#505058"
+        }, "#101014"),
+        background: "#18181c",
+        panel: "#24242a"
+    },
+    highContrast: {
+        id: "highContrast",
+        name: "High contrast",
+        cells: plainCells({
+            I: "#00ffff", O: "#ffff00", T: "#ff00ff", S: "#00ff00", Z: "#ff0000", J: "#4080ff", L: "#ff8000",
+            garbage: "#ffffff"
+        }, "#000000"),
+        background: "#000000",
+        panel: "#000000"
+    },
+    colourBlind: {
+        id: "colourBlind",
+        name: "Colour-blind",
+        cells: {
+            I: {fill: "#56b4e9", stroke: "black", pattern: "stripes"},
+            O: {fill: "#f0e442", stroke: "black", pattern: "dot"},
+            T: {fill: "#cc79a7", stroke: "black", pattern: "cross"},
+            S: {fill: "#009e73", stroke: "black", pattern: "diagonal"},
+            Z: {fill: "#d55e00", stroke: "black", pattern: "saltire"},
+            J: {fill: "#0072b2", stroke: "black", pattern: "columns"},
+            L: {fill: "#e69f00", stroke: "black", pattern: "ring"},
+            garbage: {fill: "#999999", stroke: "black", pattern: null}
+        },
+        background: "rgb(183, 151, 110)",
+        panel: "rgb(218, 180, 131)"
+    }
+};
+
+/** The theme used until the player picks another */
+const DEFAULT_THEME: ThemeId = "classic";
+
+/**
+ * The shapes of each pattern, in a unit square laid over the cell.
+ * @constant {Record<Pattern, {name: string, props: Record<string, string>}[]>}
+ */
+const PATTERN_SHAPES: Readonly<Record<Pattern, ReadonlyArray<Readonly<{name: string, props: Record<string, string>}>>>> = {
+    stripes: [{name: "path", props: {d: "M0,0.35H1M0,0.65H1"}}],
+    columns: [{name: "path", props: {d: "M0.35,0V1M0.65,0V1"}}],
+    diagonal: [{name: "path", props: {d: "M0,1L1,0M-0.5,0.5L0.5,-0.5M0.5,1.5L1.5,0.5"}}],
+    dot: [{name: "circle", props: {cx: "0.5", cy: "0.5", r: "0.15", "stroke-width": "0"}}],
+    ring: [{name: "circle", props: {cx: "0.5", cy: "0.5", r: "0.25", fill: "none"}}],
+    cross: [{name: "path", props: {d: "M0.2,0.5H0.8M0.5,0.2V0.8"}}],
+    saltire: [{name: "path", props: {d: "M0.25,0.25L0.75,0.75M0.75,0.25L0.25,0.75"}}]
+};
+
+/**
+ * How a cell is painted: its fill, which may point at a pattern, and its outline.
+ * @typedef Paint
+ * @type {object}
+ * @property {string} fill - The value of the fill attribute.
+ * @property {string} stroke - The value of the stroke attribute.
+ */
+type Paint = Readonly<{
+    fill: string,
+    stroke: string
+}>;
+
+/**
+ * The id of the pattern of a kind of cell, unique to the canvas that defines it.
+ * @param {string} prefix - The prefix of the ids of the canvas.
+ * @param {CellKind} kind - The kind of cell.
+ * @returns {string} - The id.
+ */
+const patternId = (prefix: string, kind: CellKind): string => `${prefix}-${kind}`;
+
+/**
+ * Paint a kind of cell in a theme. Patterned cells are filled with the pattern defined for them.
+ * @param {Theme} theme - The theme.
+ * @param {string} prefix - The prefix of the ids of the patterns.
+ * @param {CellKind} kind - The kind of cell.
+ * @returns {Paint} - The paint.
+ */
+const paintCell = (theme: Theme, prefix: string, kind: CellKind): Paint => {
+    const {fill, stroke, pattern} = theme.cells[kind];
+    return {fill: pattern === null ? fill : `url(#${patternId(prefix, kind)})`, stroke};
+};
+
+/**
+ * Look up a theme by id, falling back to the default for ids that no longer exist.
+ * @param {string} id - The id.
+ * @returns {Theme} - The theme.
+ */
+const themeFor = (id: string): Theme => THEMES[id as ThemeId] ?? THEMES[DEFAULT_THEME];
+
+export {THEMES, DEFAULT_THEME, PATTERN_SHAPES, patternId, paintCell, themeFor}
+export type {Pattern, CellStyle, ThemeId, Theme, Paint}
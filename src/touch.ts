@@ -0,0 +1,137 @@
+/** Touch input: gestures on the board */
+import {Action} from "./types.ts";
+import {Down, Drop, Hold, Move, Rotate} from "./state.ts";
+import {Direction} from "./util.ts";
+import {Turn} from "./rotation.ts";
+
+/**
+ * @typedef TouchPoint
+ * @type {object}
+ * @property {number} x - The horizontal position of the touch, in pixels.
+ * @property {number} y - The vertical position of the touch, in pixels.
+ * @property {number} time - When the touch was at this position, in milliseconds.
+ */
+type TouchPoint = Readonly<{ x: number, y: number, time: number }>;
+
+/**
+ * @typedef GestureConfig
+ * @type {object}
+ * @property {number} cellSize - The size of a cell on screen, in pixels. Dragging this far moves the piece one cell.
+ * @property {number} tapTime - The longest touch that counts as a tap, in milliseconds.
+ * @property {number} tapDistance - The furthest a tap may wander, in pixels.
+ * @property {number} swipeSpeed - The downward speed above which a released drag hard drops, in pixels per millisecond.
+ */
+type GestureConfig = Readonly<{
+    cellSize: number,
+    tapTime: number,
+    tapDistance: number,
+    swipeSpeed: number
+}>;
+
+/**
+ * @typedef Gesture
+ * @type {object}
+ * @property {(TouchPoint|null)} start - Where and when the first finger went down, null when no finger is down.
+ * @property {number} fingers - The most fingers down at once during the gesture.
+ * @property {("x"|"y"|null)} axis - The direction the drag is locked to, once it has moved a cell.
+ * @property {number} cellsX - The number of cells already moved sideways.
+ * @property {number} cellsY - The number of cells already soft dropped.
+ */
+type Gesture = Readonly<{
+    start: TouchPoint | null,
+    fingers: number,
+    axis: "x" | "y" | null,
+    cellsX: number,
+    cellsY: number
+}>;
+
+/**
+ * @typedef GestureResult
+ * @type {object}
+ * @property {Gesture} gesture - The new gesture state.
+ * @property {Action[]} actions - The game actions to apply, in order.
+ */
+type GestureResult = Readonly<{
+    gesture: Gesture,
+    actions: ReadonlyArray<Action>
+}>;
+
+const defaultGestureConfig: Omit<GestureConfig, "cellSize"> = {
+    tapTime: 250,
+    tapDistance: 10,
+    swipeSpeed: 1
+};
+
+const initialGesture: Gesture = {start: null, fingers: 0, axis: null, cellsX: 0, cellsY: 0};
+
+/**
+ * Handle fingers going down. Extra fingers join the gesture already under way.
+ * @param {Gesture} gesture - The current gesture.
+ * @param {TouchPoint} point - The first finger down.
+ * @param {number} fingers - The number of fingers now down.
+ * @returns {GestureResult} - The new gesture and the actions to apply.
+ */
+const touchStart = (gesture: Gesture, point: TouchPoint, fingers: number): GestureResult => ({
+    gesture: gesture.start
+        ? {...gesture, fingers: Math.max(gesture.fingers, fingers)}
+        : {...initialGesture, start: point, fingers},
+    actions: []
+});
+
+/**
+ * Handle the first finger moving: sideways drags move the piece a cell at a time, slow downward drags soft drop.
+ * @param {Gesture} gesture - The current gesture.
+ * @param {TouchPoint} point - The first finger.
+ * @param {GestureConfig} config - The gesture settings.
+ * @returns {GestureResult} - The new gesture and the actions to apply.
+ */
+const touchMove = (gesture: Gesture, point: TouchPoint, config: GestureConfig): GestureResult => {
+    const {start} = gesture;
+    // Several fingers make a hold, not a drag
+    if (!start || gesture.fingers > 1) return {gesture, actions: []};
+
+    const cellsX = Math.trunc((point.x - start.x) / config.cellSize);
+    const cellsY = Math.max(Math.trunc((point.y - start.y) / config.cellSize), 0);
+    const axis = gesture.axis ?? (cellsX !== 0 ? "x" : cellsY !== 0 ? "y" : null);
+
+    if (axis === "x" && cellsX !== gesture.cellsX) {
+        const direction = cellsX > gesture.cellsX ? Direction.RIGHT : Direction.LEFT;
+        return {
+            gesture: {...gesture, axis, cellsX},
+            actions: [new Move(direction, Math.abs(cellsX - gesture.cellsX))]
+        };
+    }
+    if (axis === "y" && cellsY > gesture.cellsY)
+        return {
+            gesture: {...gesture, axis, cellsY},
+            actions: Array.from({length: cellsY - gesture.cellsY}, () => new Down())
+        };
+    return {gesture: {...gesture, axis}, actions: []};
+}
+
+/**
+ * Handle the last finger lifting: taps rotate, two-finger taps hold and fast downward swipes hard drop.
+ * @param {Gesture} gesture - The current gesture.
+ * @param {TouchPoint} point - The last position of the first finger.
+ * @param {number} fingers - The number of fingers still down.
+ * @param {GestureConfig} config - The gesture settings.
+ * @returns {GestureResult} - The new gesture and the actions to apply.
+ */
+const touchEnd = (gesture: Gesture, point: TouchPoint, fingers: number, config: GestureConfig): GestureResult => {
+    const {start} = gesture;
+    if (!start || fingers > 0) return {gesture, actions: []};
+
+    const dx = point.x - start.x;
+    const dy = point.y - start.y;
+    const duration = Math.max(point.time - start.time, 1);
+    const tap = duration <= config.tapTime && Math.hypot(dx, dy) <= config.tapDistance;
+
+    const action = tap && gesture.fingers > 1 ? new Hold()
+        : tap ? new Rotate(Turn.CLOCKWISE)
+            : gesture.axis !== "x" && dy > config.cellSize && dy / duration >= config.swipeSpeed ? new Drop()
+                : null;
+    return {gesture: initialGesture, actions: action ? [action] : []};
+}
+
+export {defaultGestureConfig, initialGesture, touchStart, touchMove, touchEnd}
+export type {TouchPoint, GestureConfig, Gesture, GestureResult}
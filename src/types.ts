@@ -1,5 +1,5 @@
 /** Constants */
-import {State} from "./state.ts";
+import type {State} from "./state.ts";
 
 /**
  * @constant {Constants}
@@ -7,15 +7,13 @@ import {State} from "./state.ts";
  */
 const Constants = {
     TICK_RATE_MS: 500,
-    GRID_WIDTH: 10,
-    GRID_HEIGHT: 20,
-    PREVIEW_X : 2.5,
-    PREVIEW_Y : 1,
     HOLD_X : 2.5,
     HOLD_Y : 1.5,
-    START_X : 4,
-    START_Y : 0,
-    MULTIPLIER : 10,
+    LOCK_DELAY_TICKS : 10,
+    LOCK_RESET_LIMIT : 15,
+    READY_TICKS : 60,
+    CLEAR_DELAY_TICKS : 6,
+    ENTRY_DELAY_TICKS : 2,
 } as const;
 
 /**
@@ -26,25 +24,43 @@ type TetrominoShape = number[][];
 
 
 /**
+ * @typedef PieceKind
+ * @type {"I"|"O"|"T"|"S"|"Z"|"J"|"L"}
+ */
+type PieceKind = "I" | "O" | "T" | "S" | "Z" | "J" | "L";
+
+
+/**
+ * What fills a cell: one of the pieces, or garbage. Themes decide what each looks like.
+ * @typedef CellKind
+ * @type {PieceKind|"garbage"}
+ */
+type CellKind = PieceKind | "garbage";
+
+/**
+ * A cell of the grid: the kind of the piece that filled it, {@link GARBAGE_CELL} for garbage, or null when empty.
  * @typedef GridCell
- * @type {string|null}
+ * @type {CellKind|null}
  */
-type GridCell = string | null;
+type GridCell = CellKind | null;
+
+/** The cell garbage rows are made of, so that garbage can be told from the stack */
+const GARBAGE_CELL: CellKind = "garbage";
 
 
 /**
  * @typedef Tetromino
  * @type {object}
+ * @property {PieceKind} kind - Which of the seven pieces this is.
  * @property {TetrominoShape[]} shapes - The different shapes of the Tetromino.
  * @property {{ x: number, y: number }} position - The reference point, typically the rotation center.
- * @property {string} color - The color of the Tetromino.
  * @property {number} rotation - The rotation of the Tetromino.
  */
 
 type Tetromino = {
+    kind: PieceKind;
     shapes: TetrominoShape[];
     position: { x: number, y: number }; // Reference point, typically the rotation center
-    color: string;
     rotation : number
 };
 
@@ -52,13 +68,13 @@ type Tetromino = {
  * @constant {Tetromino}
  * @default
  */
-const O_TETROMINO = {
+const O_TETROMINO: Tetromino = {
+    kind: "O",
     shapes: [[
         [1, 1],
         [1, 1]
     ]],
-    position: { x: Constants.START_X, y: Constants.START_Y }, // Starting near the top-middle of the grid
-    color: "yellow",
+    position: { x: 0, y: 0 }, // Moved to the spawn position of the game config when the Tetromino spawns
     rotation : 0
 };
 
@@ -66,6 +82,7 @@ const O_TETROMINO = {
  * @constant {Tetromino}
  * @default
  */const T_TETROMINO: Tetromino = {
+    kind: "T",
     shapes: [
         [
             [0, 1, 0],
@@ -88,44 +105,45 @@ const O_TETROMINO = {
             [0, 1, 0]
         ]
     ],
-    position: { x: Constants.START_X, y: Constants.START_Y }, // Starting near the top-middle of the grid
-    color: "purple",
+    position: { x: 0, y: 0 }, // Moved to the spawn position of the game config when the Tetromino spawns
     rotation: 0
 };
 
 const I_TETROMINO: Tetromino = {
+    kind: "I",
+    // SRS rotation states: the I piece turns about the centre of its 4x4 box
     shapes: [
         [
-            [1, 1, 1, 1],
             [0, 0, 0, 0],
+            [1, 1, 1, 1],
             [0, 0, 0, 0],
             [0, 0, 0, 0],
         ],
         [
-            [0, 0, 0, 1],
-            [0, 0, 0, 1],
-            [0, 0, 0, 1],
-            [0, 0, 0, 1],
+            [0, 0, 1, 0],
+            [0, 0, 1, 0],
+            [0, 0, 1, 0],
+            [0, 0, 1, 0],
         ],
         [
-            [0, 0, 0, 0],
             [0, 0, 0, 0],
             [0, 0, 0, 0],
             [1, 1, 1, 1],
+            [0, 0, 0, 0],
         ],
         [
-            [1, 0, 0, 0],
-            [1, 0, 0, 0],
-            [1, 0, 0, 0],
-            [1, 0, 0, 0],
+            [0, 1, 0, 0],
+            [0, 1, 0, 0],
+            [0, 1, 0, 0],
+            [0, 1, 0, 0],
         ],
     ],
-    position: { x: Constants.START_X, y: Constants.START_Y },
-    color: "cyan",
+    position: { x: 0, y: 0 },
     rotation: 0,
 };
 
 const S_TETROMINO: Tetromino = {
+    kind: "S",
     shapes: [
         [
             [0, 1, 1],
@@ -148,12 +166,12 @@ const S_TETROMINO: Tetromino = {
             [0, 1, 0],
         ],
     ],
-    position: { x: Constants.START_X, y: Constants.START_Y },
-    color: "green",
+    position: { x: 0, y: 0 },
     rotation: 0,
 };
 
 const Z_TETROMINO: Tetromino = {
+    kind: "Z",
     shapes: [
         [
             [1, 1, 0],
@@ -176,64 +194,63 @@ const Z_TETROMINO: Tetromino = {
             [1, 0, 0],
         ],
     ],
-    position: { x: Constants.START_X, y: Constants.START_Y },
-    color: "red",
+    position: { x: 0, y: 0 },
     rotation: 0,
 };
 
 const L_TETROMINO: Tetromino = {
+    kind: "L",
     shapes: [
         [
-            [1, 0, 0],
+            [0, 0, 1],
             [1, 1, 1],
             [0, 0, 0],
         ],
         [
-            [0, 1, 1],
             [0, 1, 0],
             [0, 1, 0],
+            [0, 1, 1],
         ],
         [
             [0, 0, 0],
             [1, 1, 1],
-            [0, 0, 1],
+            [1, 0, 0],
         ],
         [
+            [1, 1, 0],
             [0, 1, 0],
             [0, 1, 0],
-            [1, 1, 0],
         ],
     ],
-    position: { x: Constants.START_X, y: Constants.START_Y },
-    color: "orange",
+    position: { x: 0, y: 0 },
     rotation: 0,
 };
 
 const J_TETROMINO: Tetromino = {
+    kind: "J",
     shapes: [
         [
-            [0, 0, 1],
+            [1, 0, 0],
             [1, 1, 1],
             [0, 0, 0],
         ],
         [
+            [0, 1, 1],
             [0, 1, 0],
             [0, 1, 0],
-            [0, 1, 1],
         ],
         [
             [0, 0, 0],
             [1, 1, 1],
-            [1, 0, 0],
+            [0, 0, 1],
         ],
         [
-            [1, 1, 0],
             [0, 1, 0],
             [0, 1, 0],
+            [1, 1, 0],
         ],
     ],
-    position: { x: Constants.START_X, y: Constants.START_Y },
-    color: "blue",
+    position: { x: 0, y: 0 },
     rotation: 0,
 };
 
@@ -241,10 +258,7 @@ const J_TETROMINO: Tetromino = {
 /**
  * @typedef Viewport
  * @type {object}
- * @property {number} CANVAS_WIDTH - The width of the canvas.
- * @property {number} CANVAS_HEIGHT - The height of the canvas.
  * @property {number} PREVIEW_WIDTH - The width of the preview.
- * @property {number} PREVIEW_HEIGHT - The height of the preview.
  */
 
 /**
@@ -252,50 +266,77 @@ const J_TETROMINO: Tetromino = {
  * @default
  */
 const Viewport = {
-    CANVAS_WIDTH: 200,
-    CANVAS_HEIGHT: 400,
     PREVIEW_WIDTH: 160,
-    PREVIEW_HEIGHT: 80,
 } as const;
 
 /**
  * @typedef Constants
  * @type {object}
  * @property {number} TICK_RATE_MS - The tick rate in milliseconds.
- * @property {number} GRID_WIDTH - The width of the grid.
- * @property {number} GRID_HEIGHT - The height of the grid.
- * @property {number} PREVIEW_X - The X coordinate of the preview.
- * @property {number} PREVIEW_Y - The Y coordinate of the preview.
  * @property {number} HOLD_X - The X coordinate of the hold.
  * @property {number} HOLD_Y - The Y coordinate of the hold.
- * @property {number} MULTIPLIER - The multiplier.
+ * @property {number} LOCK_DELAY_TICKS - The number of ticks a grounded Tetromino waits before locking.
+ * @property {number} LOCK_RESET_LIMIT - The number of times the lock delay can be reset before the Tetromino locks.
+ * @property {number} READY_TICKS - The number of ticks the countdown before play lasts.
+ * @property {number} CLEAR_DELAY_TICKS - The number of ticks cleared rows stay on the board before the stack collapses.
+ * @property {number} ENTRY_DELAY_TICKS - The number of ticks between a lock and the next Tetromino appearing.
  */
 
 
 
 /**
- * @typedef Block
+ * What resets the lock delay of a grounded Tetromino.
+ * @enum
+ * @readonly
+ */
+enum LockReset {
+    /** Guideline "move reset": any successful move or rotation, up to the reset limit. */
+    MOVE,
+    /** Classic "step reset": only reaching a new lowest row. */
+    STEP
+}
+
+/**
+ * @typedef LockDelay
  * @type {object}
- * @property {number} WIDTH - The width of a block.
- * @property {number} HEIGHT - The height of a block.
+ * @property {number} ticks - The number of ticks a grounded Tetromino waits before locking.
+ * @property {number} resetLimit - The number of resets allowed before the Tetromino locks on contact.
+ * @property {LockReset} reset - What resets the lock delay.
  */
+type LockDelay = Readonly<{
+    ticks: number,
+    resetLimit: number,
+    reset: LockReset
+}>;
 
 /**
- * @constant {Block}
- * @default
+ * The phase a game is in.
+ * @enum
+ * @readonly
  */
-const Block = {
-    WIDTH: Viewport.CANVAS_WIDTH / Constants.GRID_WIDTH,
-    HEIGHT: Viewport.CANVAS_HEIGHT / Constants.GRID_HEIGHT,
-};
+enum Phase {
+    /** Counting down before play starts or resumes. */
+    READY,
+    /** Pieces fall and respond to input. */
+    PLAYING,
+    /** Cleared rows flash on the board before the stack above them collapses. */
+    CLEARING,
+    /** The board waits a moment before the next piece appears. */
+    ENTRY,
+    /** Nothing moves until the game is resumed. */
+    PAUSED,
+    /** The game has ended and waits for a restart. */
+    GAME_OVER
+}
 
 /** User input */
 
 /**
+ * A physical key, as reported by `KeyboardEvent.code`, e.g. "KeyA" or "ArrowLeft".
  * @typedef Key
- * @type {"KeyS"|"KeyA"|"KeyD"|"KeyW"|"Space"|"KeyC"}
+ * @type {string}
  */
-type Key = "KeyS" | "KeyA" | "KeyD" | "KeyW" | "Space" | "KeyC";
+type Key = string;
 
 /**
  * @typedef Event
@@ -316,5 +357,5 @@ interface Action {
 }
 
 // Export the constants and types
-export {Constants, Block, Viewport, O_TETROMINO, T_TETROMINO, I_TETROMINO, J_TETROMINO, L_TETROMINO, S_TETROMINO, Z_TETROMINO}
-export type {Key, Event, Action, TetrominoShape, Tetromino, GridCell}
+export {Constants, Viewport, LockReset, Phase, GARBAGE_CELL, O_TETROMINO, T_TETROMINO, I_TETROMINO, J_TETROMINO, L_TETROMINO, S_TETROMINO, Z_TETROMINO}
+export type {Key, Event, Action, TetrominoShape, Tetromino, PieceKind, CellKind, GridCell, LockDelay}
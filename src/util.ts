@@ -1,53 +1,14 @@
-import {
-    Constants,
-    GridCell,
-    I_TETROMINO,
-    J_TETROMINO,
-    L_TETROMINO,
-    O_TETROMINO,
-    S_TETROMINO,
-    T_TETROMINO,
-    Tetromino,
-    Z_TETROMINO
-} from "./types.ts";
-import {collisionDetection, State} from "./state.ts";
+import {GridCell, Phase, Tetromino} from "./types.ts";
+import type {Clearing, GameEvent, State} from "./state.ts";
+import {RNG, takeFromQueue} from "./randomizer.ts";
+import {continuesBackToBack, detectSpin, scoreLock} from "./scoring.ts";
+import {gravityFor, spawnTetromino} from "./config.ts";
+import {checkGoal, endGame, modeOf} from "./modes.ts";
+import {attackFor, cancelGarbage, insertGarbage, isGarbageRow} from "./garbage.ts";
 
 
 /** Utility functions */
 
-const MULTIPLIER = 10;
-const Tetrominos : Tetromino[] = [O_TETROMINO, S_TETROMINO, L_TETROMINO, Z_TETROMINO, J_TETROMINO, I_TETROMINO, T_TETROMINO];
-
-/**
- * @class
- * @classdesc A random number generator.
- */
-abstract class RNG {
-    // LCG using GCC's constants
-    private static m = 0x80000000; // 2**31
-    private static a = 1103515245;
-    private static c = 12345;
-
-    /**
-     * Call `hash` repeatedly to generate the sequence of hashes.
-     * @param {number} seed - A seed value.
-     * @returns {number} - A hash of the seed.
-     */
-    public static hash = (seed: number) => (RNG.a * seed + RNG.c) % RNG.m;
-
-    /**
-     * Generate a random integer between min and max.
-     * @param {number} min - The minimum value.
-     * @param {number} max - The maximum value.
-     * @returns {number} - A random integer between min and max.
-     */
-    public static randomInt = (min: number, max: number) => {
-        const hash = RNG.hash(Date.now());
-        const scale = hash / (RNG.m - 1);
-        return Math.floor(min + scale * (max - min + 1));
-    }
-}
-
 /**
  * @enum
  * @readonly
@@ -92,25 +53,112 @@ const placeTetrominoOnGrid = (grid: GridCell[][], tetromino: Tetromino): GridCel
                 relativeX >= 0 && relativeX < tetromino.shapes[tetromino.rotation][0].length &&
                 tetromino.shapes[tetromino.rotation][relativeY][relativeX] === 1
             ) {
-                return tetromino.color;  // Return the color of the tetromino
+                return tetromino.kind;  // The cell remembers which piece filled it
             }
             return cell;
         })
     );
 };
 
+/**
+ * Detects if there is a collision in the specified direction.
+ * @param {State} state - The current state of the game.
+ * @param {Direction} direction - The direction of movement.
+ * @return {boolean} True if there is a collision, false otherwise.
+ */
+const collisionDetection = (state: State, direction: Direction) : boolean => {
+    const currentRotation = state.currentTetromino.rotation;
+    const tetrominoShape = state.currentTetromino.shapes[currentRotation];
+    const tetrominoPosition = state.currentTetromino.position;
+
+    switch (direction) {
+        case Direction.DOWN:
+            // Check for collision when moving down
+            // For each row and cell in the tetromino shape,
+            // calculate the new Y position, then check if the new position
+            // is out of bounds or collides with another cell on the grid.
+            return tetrominoShape.some((row, y) => {
+                return row.some((cell, x) => {
+                    if (cell) {
+                        const newY = tetrominoPosition.y + y + 1;
+                        return (
+                            newY >= state.grid.length ||
+                            state.grid[newY][tetrominoPosition.x + x]
+                        );
+                    }
+                    return false;
+                });
+            });
+
+        case Direction.LEFT:
+            // Check for collision when moving left
+            // Similar to moving down, but we calculate the new X position
+            // and check for out-of-bounds or collision on the grid.
+            return tetrominoShape.some((row, y) => {
+                return row.some((cell, x) => {
+                    if (cell) {
+                        const newX = tetrominoPosition.x + x - 1;
+                        return (
+                            newX < 0 ||
+                            state.grid[tetrominoPosition.y + y][newX]
+                        );
+                    }
+                    return false;
+                });
+            });
+
+        case Direction.RIGHT:
+            // Check for collision when moving right
+            // Similar to moving left, but we add instead of subtract to the X position.
+            return tetrominoShape.some((row, y) => {
+                return row.some((cell, x) => {
+                    if (cell) {
+                        const newX = tetrominoPosition.x + x + 1;
+                        return (
+                            newX >= state.grid[0].length ||
+                            state.grid[tetrominoPosition.y + y][newX]
+                        );
+                    }
+                    return false;
+                });
+            });
+
+        case Direction.ROTATE:
+            // Check for collision when rotating
+            // For each cell in the tetromino shape, calculate the new X and Y positions
+            // then check for out-of-bounds or collision on the grid.
+            return tetrominoShape.some((row, y) => {
+                return row.some((cell, x) => {
+                    if (cell) {
+                        const newY = tetrominoPosition.y + y;
+                        const newX = tetrominoPosition.x + x;
+                        return (
+                            newY < 0 ||
+                            newY >= state.grid.length ||
+                            newX < 0 ||
+                            newX >= state.grid[0].length ||
+                            state.grid[newY][newX]
+                        );
+                    }
+                    return false;
+                });
+            });
+    }
+}
+
 /**
  * Remove full rows from the grid and return the new grid and the number of rows cleared.
  * @param {GridCell[][]} grid - The current grid.
- * @returns {object} - An object containing the new grid and the number of rows cleared.
+ * @returns {object} - An object containing the new grid, the number of rows cleared and how many of them held garbage.
  */
 const lineClear = (grid : GridCell[][]) => {
     const newGrid = grid.filter(
         row => !row.every(cell => cell !== null))
     const newRow : GridCell[] = new Array(grid[0].length).fill(null);
     const newRows : GridCell[][] = Array(grid.length - newGrid.length).fill(newRow);
+    const garbageCleared = grid.filter(row => row.every(cell => cell !== null) && isGarbageRow(row)).length;
 
-    return {newGrid : newRows.concat(newGrid), rowsCleared: grid.length - newGrid.length};
+    return {newGrid : newRows.concat(newGrid), rowsCleared: grid.length - newGrid.length, garbageCleared};
 }
 
 /**
@@ -123,44 +171,105 @@ const topOut = (grid : GridCell[][]) => {
 }
 
 /**
- * Calculate the score for clearing a number of rows.
- * @param {number} level - The current level.
- * @param {number} rowsCleared - The number of rows cleared.
- * @returns {number} - The score for clearing the specified number of rows at the current level.
+ * Find the full rows of a grid.
+ * @param {GridCell[][]} grid - The grid.
+ * @returns {number[]} - The indices of the full rows, top first.
  */
-const calculateScore = (level: number, rowsCleared: number) => {
-    if (!rowsCleared)
-        return rowsCleared;
-    const scores = [40, 100, 300, 1200]; // 1, 2, 3, 4 rows cleared respectively
-    return (level + 1) * scores[rowsCleared - 1];
+const fullRows = (grid: GridCell[][]): number[] =>
+    grid.flatMap((row, y) => row.every(cell => cell !== null) ? [y] : []);
+
+/**
+ * Start the delays that follow a lock: the line clear delay if rows were cleared, then the entry delay.
+ * @param {State} state - The state after the lock, in the PLAYING phase.
+ * @param {Clearing} clearing - The rows the lock cleared.
+ * @returns {State} - The state, waiting for the next Tetromino if the config has delays.
+ */
+const delayEntry = (state: State, clearing: Clearing): State => {
+    const {clearDelay, entryDelay} = state.config;
+    if (clearing.rows.length > 0 && clearDelay > 0)
+        return {...state, phase: Phase.CLEARING, delay: clearDelay, clearing};
+    return entryDelay > 0 ? {...state, phase: Phase.ENTRY, delay: entryDelay} : state;
 }
 
 /**
- * Move the current Tetromino down by one position, or place it on the grid and generate a new Tetromino if it can't be moved down.
+ * Place the current Tetromino on the grid, clear full rows and spawn the next Tetromino.
+ * Clears cancel the garbage waiting; locks that clear nothing let it rise.
+ * The next Tetromino is spawned straight away, but only takes over after the line clear and entry delays.
  * @param {State} state - The current state.
- * @returns {State} - The new state after moving the Tetromino down by one position or placing it on the grid and generating a new Tetromino.
+ * @returns {State} - The new state after locking the current Tetromino.
+ */
+const lockTetromino = (state: State): State => {
+    const {config} = state;
+    const mode = modeOf(state);
+    const spin = detectSpin(state.grid, state.currentTetromino, state.lastKick);
+    const placed = placeTetrominoOnGrid(state.grid, state.currentTetromino);
+    const clearing: Clearing = {grid: placed, rows: fullRows(placed)};
+    const {newGrid: placedGrid, rowsCleared, garbageCleared} = lineClear(placed);
+    const perfectClear = rowsCleared > 0 && placedGrid.every(row => row.every(cell => cell === null));
+    const clear = scoreLock(config.scoring, state.level, rowsCleared, spin, perfectClear, state.backToBack, state.combo);
+    const sent = attackFor(config.attack, clear);
+    const {pending, attack} = cancelGarbage(state.garbage, sent);
+    const risen = rowsCleared === 0 ? insertGarbage(placedGrid, pending) : {grid: placedGrid, overflow: false};
+    const clearedGrid = risen.grid;
+    const newRowsCleared = state.rowsCleared + rowsCleared;
+    const newLevel = mode.level(newRowsCleared);
+    const {tetromino, queue, generator} =
+        takeFromQueue(state.generator, state.nextQueue, config.previewLength, config.pieces);
+    const spawned = spawnTetromino(config, tetromino);
+    // Top out when garbage pushes the stack off the board, the stack reaches the top row,
+    // or the next piece has no room to spawn
+    const toppedOut = risen.overflow || topOut(clearedGrid) ||
+        collisionDetection({...state, grid: clearedGrid, currentTetromino: spawned}, Direction.ROTATE);
+    const events: GameEvent[] = [
+        {tick: state.ticks, type: "lock", tetromino: state.currentTetromino},
+        ...(clear.label ? [{tick: state.ticks, type: "clear", clear, rows: clearing.rows, attack: sent} as const] : []),
+        ...(newLevel > state.level ? [{tick: state.ticks, type: "levelUp", level: newLevel} as const] : []),
+        ...(toppedOut && mode.topOut ? [] : [{tick: state.ticks, type: "spawn", tetromino: spawned} as const])
+    ];
+    // Modes without top out clear the board and carry on
+    const newGrid = toppedOut && !mode.topOut ? initialiseGrid(clearedGrid[0].length, clearedGrid.length) : clearedGrid;
+    const locked: State = {
+        ...state,
+        currentTetromino: spawned,
+        nextQueue: queue,
+        generator,
+        grid: newGrid,
+        score: state.score + clear.points,
+        speedCount : 0,
+        speedMultiplier : gravityFor(config, newLevel),
+        level : newLevel,
+        rowsCleared : newRowsCleared,
+        garbageCleared : state.garbageCleared + garbageCleared,
+        usedHold : false,
+        lockTicks : 0,
+        lockResets : 0,
+        lowestRow : spawned.position.y,
+        lastKick : null,
+        combo : clear.combo,
+        backToBack : continuesBackToBack(state.backToBack, clear),
+        // Locks that neither clear lines nor spin leave the last clear on display
+        lastClear : clear.label ? clear : state.lastClear,
+        garbage : rowsCleared === 0 ? [] : pending,
+        attack,
+        events : state.events.concat(events),
+    };
+    const ended = toppedOut && mode.topOut ? endGame(locked, false) : checkGoal(locked);
+    return ended.phase === Phase.PLAYING ? delayEntry(ended, clearing) : ended;
+};
+
+/**
+ * Move the current Tetromino down by one position. A grounded Tetromino is left where it is,
+ * locking is up to the lock delay (see `GameFlow`) or a hard drop.
+ * @param {State} state - The current state.
+ * @returns {State} - The new state after moving the Tetromino down by one position.
  */
 const moveTetrominoDown = (state: State): State => {
-    // Check for collisions or if the tetromino is at the bottom of the grid
-    // If there's a collision, or it's at the bottom, return the original state
-    if (collisionDetection(state, Direction.DOWN)) {
-        const {newGrid, rowsCleared} = lineClear(placeTetrominoOnGrid(state.grid, state.currentTetromino));
-        const newRowsCleared = state.rowsCleared + rowsCleared;
-        const newLevel = 1 + Math.floor(newRowsCleared / 3);
-        return {
-            ...state,
-            currentTetromino: state.nextTetromino,
-            nextTetromino: Tetrominos[RNG.randomInt(0, Tetrominos.length - 1)],
-            grid: newGrid,
-            gameEnd: topOut(newGrid),
-            score: state.score + calculateScore(state.level, rowsCleared),
-            speedCount : 0,
-            speedMultiplier : Constants.MULTIPLIER - newLevel,
-            level : newLevel,
-            rowsCleared : newRowsCleared,
-            usedHold : false,
-        };
-    }
+    // If the tetromino is resting on the stack or the floor, return the original state
+    if (collisionDetection(state, Direction.DOWN)) return state;
+
+    const newY = state.currentTetromino.position.y + 1;
+    // Reaching a new lowest row restarts the lock delay and its reset counter
+    const newLowest = newY > state.lowestRow;
 
     // Otherwise, return a new state with the tetromino moved down by one position
     return {
@@ -169,12 +278,26 @@ const moveTetrominoDown = (state: State): State => {
             ...state.currentTetromino,
             position: {
                 x: state.currentTetromino.position.x,
-                y: state.currentTetromino.position.y + 1
+                y: newY
             }
         },
         speedCount : 0,
+        lowestRow : newLowest ? newY : state.lowestRow,
+        lockTicks : newLowest ? 0 : state.lockTicks,
+        lockResets : newLowest ? 0 : state.lockResets,
+        lastKick : null,
     };
 };
 
-
-export {Direction, initialiseGrid, placeTetrominoOnGrid, RNG, Tetrominos, lineClear, topOut, calculateScore, moveTetrominoDown};
+export {
+    Direction,
+    initialiseGrid,
+    placeTetrominoOnGrid,
+    RNG,
+    collisionDetection,
+    lineClear,
+    fullRows,
+    topOut,
+    moveTetrominoDown,
+    lockTetromino
+};
@@ -0,0 +1,250 @@
+/** Two-player versus: two boards trading garbage over a best-of-N match */
+import {Action, Phase} from "./types.ts";
+import {createInitialState, Pause, ReceiveGarbage, reduceState, Restart, State, TogglePause} from "./state.ts";
+import {GameConfig} from "./config.ts";
+import {RNG} from "./randomizer.ts";
+import {endGame} from "./modes.ts";
+
+/**
+ * @typedef PlayerIndex
+ * @type {0|1}
+ */
+type PlayerIndex = 0 | 1;
+
+/**
+ * @typedef MatchOptions
+ * @type {object}
+ * @property {number} rounds - The most rounds the match can last. The first player to win more than half wins the match.
+ * @property {boolean} sharedSeed - Whether both players get the same pieces, for fairness.
+ */
+type MatchOptions = Readonly<{
+    rounds: number,
+    sharedSeed: boolean
+}>;
+
+/**
+ * @typedef Match
+ * @type {object}
+ * @property {State[]} players - The game of each player.
+ * @property {number[]} wins - The number of rounds each player has won.
+ * @property {number} round - The current round, starting at 1.
+ * @property {(PlayerIndex|null)} winner - The winner of the round once it is over, null while it is played or after a draw.
+ * @property {number} seed - The current seed of the match, for the garbage holes and the seeds of later rounds.
+ * @property {MatchOptions} options - The length of the match and how pieces are dealt.
+ * @property {GameConfig} config - The rules both players play by.
+ */
+type Match = Readonly<{
+    players: readonly [State, State],
+    wins: readonly [number, number],
+    round: number,
+    winner: PlayerIndex | null,
+    seed: number,
+    options: MatchOptions,
+    config: GameConfig
+}>;
+
+/**
+ * Best of three, with both players getting the same pieces.
+ * @constant {MatchOptions}
+ */
+const defaultMatchOptions: MatchOptions = {rounds: 3, sharedSeed: true};
+
+/**
+ * Deal the games of a round.
+ * @param {number} seed - The current seed of the match.
+ * @param {GameConfig} config - The rules both players play by.
+ * @param {MatchOptions} options - How pieces are dealt.
+ * @returns {{players: State[], seed: number}} - The games, and the next seed of the match.
+ */
+const dealRound = (seed: number, config: GameConfig, options: MatchOptions) => {
+    const first = RNG.hash(seed);
+    const second = options.sharedSeed ? first : RNG.hash(first);
+    return {
+        players: [createInitialState(first, config), createInitialState(second, config)] as const,
+        seed: RNG.hash(second)
+    };
+}
+
+/**
+ * Start a match.
+ * @param {number} seed - The seed of the match.
+ * @param {GameConfig} config - The rules both players play by.
+ * @param {MatchOptions} options - The length of the match and how pieces are dealt.
+ * @returns {Match} - The first round of the match.
+ */
+const createMatch = (seed: number, config: GameConfig, options: MatchOptions = defaultMatchOptions): Match => ({
+    ...dealRound(seed, config, options),
+    wins: [0, 0],
+    round: 1,
+    winner: null,
+    options,
+    config
+});
+
+/**
+ * Check whether the current round is over.
+ * @param {Match} m - The match.
+ * @returns {boolean} - True once a player has topped out.
+ */
+const roundOver = (m: Match): boolean => m.players.some(p => p.phase === Phase.GAME_OVER);
+
+/**
+ * Find the winner of the match.
+ * @param {Match} m - The match.
+ * @returns {(PlayerIndex|null)} - The player who has won more than half the rounds, null if nobody has yet.
+ */
+const matchWinner = (m: Match): PlayerIndex | null => {
+    const needed = Math.floor(m.options.rounds / 2) + 1;
+    return m.wins[0] >= needed ? 0 : m.wins[1] >= needed ? 1 : null;
+}
+
+/**
+ * Change what belongs to one player, e.g. their game or their number of wins.
+ * @param {T[]} pair - The values of both players.
+ * @param {PlayerIndex} player - The player.
+ * @param {function(T): T} update - The change to their value.
+ * @returns {T[]} - The values of both players.
+ */
+const updatePlayer = <T>(pair: readonly [T, T], player: PlayerIndex, update: (value: T) => T): readonly [T, T] =>
+    player === 0 ? [update(pair[0]), pair[1]] : [pair[0], update(pair[1])];
+
+/**
+ * Send the garbage of each player's last lock to the other, each batch with a random hole column.
+ * @param {Match} m - The match.
+ * @returns {Match} - The match with the garbage delivered.
+ */
+const exchangeGarbage = (m: Match): Match =>
+    ([0, 1] as const).reduce((acc, player) => {
+        const lines = acc.players[player].attack;
+        if (lines === 0) return acc;
+        const {value: hole, seed} = RNG.randomInt(acc.seed, 0, acc.config.width - 1);
+        const sent = updatePlayer(acc.players, player, s => ({...s, attack: 0}));
+        return {
+            ...acc,
+            seed,
+            players: updatePlayer(sent, player === 0 ? 1 : 0, s => new ReceiveGarbage(lines, hole).apply(s))
+        };
+    }, m);
+
+/**
+ * Deliver garbage, and end the round when a player tops out. The other player wins it and their game stops too;
+ * if both top out at once, the round is a draw.
+ * @param {Match} before - The match before the action.
+ * @param {Match} after - The match after the action.
+ * @returns {Match} - The settled match.
+ */
+const settle = (before: Match, after: Match): Match => {
+    const m = exchangeGarbage(after);
+    if (roundOver(before) || !roundOver(m)) return m;
+    const standing = ([0, 1] as const).filter(player => m.players[player].phase !== Phase.GAME_OVER);
+    if (standing.length !== 1) return {...m, winner: null};
+    const [winner] = standing;
+    return {
+        ...m,
+        players: updatePlayer(m.players, winner, s => endGame(s, true)),
+        wins: updatePlayer(m.wins, winner, wins => wins + 1),
+        winner
+    };
+}
+
+/**
+ * @interface MatchAction
+ * @method
+ * @param {Match} m - The current match.
+ * @return {Match} - The new match after the action is applied.
+ */
+interface MatchAction {
+    apply(m: Match): Match;
+}
+
+/**
+ * Class representing an action of one player.
+ * @implements {MatchAction}
+ */
+class ForPlayer implements MatchAction {
+    /**
+     * @param {PlayerIndex} player - The player.
+     * @param {Action} action - The action, applied to their game only.
+     */
+    constructor(public readonly player: PlayerIndex, public readonly action: Action) {}
+
+    /**
+     * Apply the action to the player's game.
+     * @param {Match} m - The current match.
+     * @return {Match} The new match.
+     */
+    apply(m: Match): Match {
+        return settle(m, {...m, players: updatePlayer(m.players, this.player, s => reduceState(s, this.action))});
+    }
+}
+
+/**
+ * Class representing an action applied to both games, such as the passing of a tick or a pause.
+ * @implements {MatchAction}
+ */
+class ForBoth implements MatchAction {
+    /**
+     * @param {Action} action - The action, applied to both games.
+     */
+    constructor(public readonly action: Action) {}
+
+    /**
+     * Apply the action to both games, the first player's first.
+     * @param {Match} m - The current match.
+     * @return {Match} The new match.
+     */
+    apply(m: Match): Match {
+        const [first, second] = m.players;
+        return settle(m, {...m, players: [reduceState(first, this.action), reduceState(second, this.action)]});
+    }
+}
+
+/**
+ * Class representing moving on once a round is over: to the next round, or to a new match once it is decided.
+ * @implements {MatchAction}
+ */
+class NextRound implements MatchAction {
+    /**
+     * Start the next round, or a new match.
+     * @param {Match} m - The current match.
+     * @return {Match} The new match, unchanged while the round is still being played.
+     */
+    apply(m: Match): Match {
+        if (!roundOver(m)) return m;
+        if (matchWinner(m) !== null) return createMatch(m.seed, m.config, m.options);
+        return {...m, ...dealRound(m.seed, m.config, m.options), round: m.round + 1, winner: null};
+    }
+}
+
+/**
+ * Turn an input of one player into a match action. Pausing and restarting act on the whole match.
+ * @param {PlayerIndex} player - The player.
+ * @param {Action} action - The input.
+ * @returns {MatchAction} - The match action.
+ */
+const playerAction = (player: PlayerIndex, action: Action): MatchAction =>
+    action instanceof Restart ? new NextRound()
+        : action instanceof Pause || action instanceof TogglePause ? new ForBoth(action)
+            : new ForPlayer(player, action);
+
+/**
+ * Reduce the current match by applying the specified action.
+ * @param {Match} m - The current match.
+ * @param {MatchAction} action - The action to apply.
+ * @return {Match} The new match.
+ */
+const reduceMatch = (m: Match, action: MatchAction): Match => action.apply(m);
+
+export {
+    defaultMatchOptions,
+    createMatch,
+    roundOver,
+    matchWinner,
+    exchangeGarbage,
+    playerAction,
+    reduceMatch,
+    ForPlayer,
+    ForBoth,
+    NextRound
+}
+export type {PlayerIndex, MatchOptions, Match, MatchAction}
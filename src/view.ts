@@ -1,5 +1,11 @@
 /** Rendering (side effects) */
-import {Block, GridCell, Tetromino} from "./types.ts";
+import {CellKind, PieceKind, Tetromino, Viewport} from "./types.ts";
+import type {GameEvent} from "./state.ts";
+import {Paint, PATTERN_SHAPES, patternId, Theme} from "./theme.ts";
+import type {GameConfig} from "./config.ts";
+import {LeaderboardEntry} from "./leaderboard.ts";
+import {GameMode, formatTicks} from "./modes.ts";
+import {Control, CONTROL_NAMES} from "./input.ts";
 
 /**
  * Displays a SVG element on the canvas. Brings to foreground.
@@ -44,17 +50,30 @@ const createSvgElement = (
  * @param {SVGElement} svg - The SVG canvas to render the Tetromino on.
  * @param {number} x_pos - The x-coordinate at which to render the Tetromino.
  * @param {number} y_pos - The y-coordinate at which to render the Tetromino.
+ * @param {number} blockSize - The size of a block, in pixels.
+ * @param {Paint} paint - How to paint each block.
+ * @param {Record<string, string>} props - Extra properties to set on each block, overriding the defaults.
  */
-const renderTetromino = (tetromino: Tetromino, svg: SVGElement, x_pos: number, y_pos: number) => {
+const renderTetromino = (
+    tetromino: Tetromino,
+    svg: SVGElement,
+    x_pos: number,
+    y_pos: number,
+    blockSize: number,
+    paint: Paint,
+    props: Record<string, string> = {}
+) => {
     tetromino.shapes[tetromino.rotation].forEach((row, rowIndex) => {
         row.forEach((cell, colIndex) => {
             if (cell === 1) {
                 const rect = createSvgElement(svg.namespaceURI, "rect", {
-                    x: `${(x_pos + colIndex) * Block.WIDTH}`,
-                    y: `${(y_pos + rowIndex) * Block.HEIGHT}`,
-                    width: `${Block.WIDTH}`,
-                    height: `${Block.HEIGHT}`,
-                    fill: tetromino.color
+                    x: `${(x_pos + colIndex) * blockSize}`,
+                    y: `${(y_pos + rowIndex) * blockSize}`,
+                    width: `${blockSize}`,
+                    height: `${blockSize}`,
+                    fill: paint.fill,
+                    stroke: paint.stroke,
+                    ...props
                 });
                 svg.appendChild(rect);
             }
@@ -62,41 +81,283 @@ const renderTetromino = (tetromino: Tetromino, svg: SVGElement, x_pos: number, y
     });
 }
 
+/** Size of the queued pieces after the first, relative to the first */
+const QUEUE_SCALE = 0.6;
+
 /**
- * Clears the SVG canvas and displays the game over screen.
- * @param {SVGElement} svg - The SVG canvas to clear.
- * @param {SVGGraphicsElement} gameOver - The game over screen to display.
+ * Renders the next queue as a vertical stack, the first piece larger than the others.
+ * Each piece gets a slot three blocks high, and the canvas is resized to fit the stack.
+ * @param {Tetromino[]} queue - The upcoming Tetrominos, next to spawn first.
+ * @param {SVGElement} svg - The SVG canvas to render the queue on.
+ * @param {number} blockSize - The size of a block of the first piece, in pixels.
+ * @param {function(CellKind): Paint} paint - How to paint each kind of block.
  */
-const clearSvgCanvas = (svg: SVGElement, gameOver: SVGGraphicsElement) => {
-    if (svg.lastChild) {
-        svg.removeChild(svg.lastChild);
-        clearSvgCanvas(svg, gameOver);
-    } else {
-        svg.appendChild(gameOver);
-    }
-};
+const renderQueue = (
+    queue: ReadonlyArray<Tetromino>,
+    svg: SVGElement,
+    blockSize: number,
+    paint: (kind: CellKind) => Paint
+) => {
+    const sizes = queue.map((_, i) => i === 0 ? blockSize : blockSize * QUEUE_SCALE);
+    const tops = sizes.reduce<number[]>((acc, _, i) =>
+        acc.concat(i === 0 ? 0 : acc[i - 1] + sizes[i - 1] * 3), []);
+
+    queue.forEach((tetromino, i) => {
+        const width = tetromino.shapes[0][0].length;
+        renderTetromino(tetromino, svg, (Viewport.PREVIEW_WIDTH / sizes[i] - width) / 2,
+            tops[i] / sizes[i] + 0.5, sizes[i], paint(tetromino.kind));
+    });
+
+    const height = queue.length ? tops[tops.length - 1] + sizes[sizes.length - 1] * 3 : 0;
+    svg.setAttribute("height", `${height}`);
+}
 
 /**
- * Renders the grid on the SVG canvas.
- * @param {GridCell[][]} grid - The grid to render.
- * @param {SVGElement} svg - The SVG canvas to render the grid on.
+ * The cells a Tetromino covers on the visible board.
+ * @param {Tetromino} tetromino - The Tetromino.
+ * @param {number} hiddenRows - The number of grid rows above the visible board.
+ * @returns {{x: number, y: number}[]} - The cells, in rows from the top of the visible board.
  */
-const renderGrid = (grid : GridCell[][], svg : SVGElement) => {
-    grid.forEach((row, rowIndex) => {
-        row.forEach((cell, colIndex) => {
-            if (cell) {
-                const rect = createSvgElement(svg.namespaceURI, "rect", {
-                    x: `${(colIndex) * Block.WIDTH}`,
-                    y: `${(rowIndex) * Block.HEIGHT}`,
-                    width: `${Block.WIDTH}`,
-                    height: `${Block.HEIGHT}`,
-                    fill: cell
+const cellsOf = (tetromino: Tetromino, hiddenRows: number) =>
+    tetromino.shapes[tetromino.rotation].flatMap((row, rowIndex) => row.flatMap((cell, colIndex) =>
+        cell === 1 ? [{x: tetromino.position.x + colIndex, y: tetromino.position.y + rowIndex - hiddenRows}] : []));
+
+/**
+ * A short animation played over a board. Positions are in cells from the top left of the visible board.
+ * @typedef Effect
+ * @type {object}
+ * @property {string} kind - "flash" lights up a cell of a piece that has just locked, "trail" streaks down
+ * a column a piece was hard dropped through, "popup" names a clear at the rows it cleared,
+ * "banner" announces a new level across the board.
+ */
+type Effect = Readonly<
+    | {kind: "flash", x: number, y: number}
+    | {kind: "trail", x: number, y: number, length: number, piece: PieceKind}
+    | {kind: "popup", y: number, text: string}
+    | {kind: "banner", text: string}
+>;
+
+/**
+ * Turn game events into the effects that show them.
+ * @param {GameEvent[]} events - The events, oldest first.
+ * @param {GameConfig} config - The rules of the game, for the size of the board.
+ * @returns {Effect[]} - The effects to play, in the order of the events.
+ */
+const effectsFor = (events: ReadonlyArray<GameEvent>, config: GameConfig): Effect[] =>
+    events.flatMap((event): Effect[] => {
+        switch (event.type) {
+            case "lock":
+                return cellsOf(event.tetromino, config.hiddenRows).filter(({y}) => y >= 0)
+                    .map(({x, y}) => ({kind: "flash", x, y}));
+            case "hardDrop": {
+                // Each column streaks from the top of the piece where it was dropped to the top of where it landed
+                const tops = (tetromino: Tetromino) => cellsOf(tetromino, config.hiddenRows)
+                    .reduce((acc, {x, y}) => acc.set(x, Math.min(y, acc.get(x) ?? y)), new Map<number, number>());
+                const from = tops(event.from);
+                return [...tops(event.to)].flatMap(([x, landed]) => {
+                    const y = Math.max(from.get(x) ?? landed, 0);
+                    return landed > y ? [{kind: "trail", x, y, length: landed - y, piece: event.to.kind}] : [];
                 });
-                svg.appendChild(rect);
             }
+            case "clear": {
+                // Spins that clear nothing have no rows to point at, so they show in the middle of the board
+                const y = event.rows.length === 0 ? config.height / 2
+                    : event.rows.reduce((sum, row) => sum + row, 0) / event.rows.length - config.hiddenRows;
+                return [{kind: "popup", y, text: event.clear.label}];
+            }
+            case "levelUp":
+                return [{kind: "banner", text: `Level ${event.level}`}];
+            case "move":
+            case "rotate":
+            case "hold":
+            case "spawn":
+            case "gameOver":
+                return [];
+        }
+    });
+
+/**
+ * Renders an effect on a board. The effect animates with CSS and removes itself when its animation ends.
+ * @param {Effect} effect - The effect.
+ * @param {SVGElement} svg - The layer of the board to render the effect on.
+ * @param {GameConfig} config - The rules of the game, for the size of the board.
+ * @param {function(CellKind): Paint} paint - How to paint each kind of block, for trails.
+ * @returns {SVGElement} - The element of the effect.
+ */
+const renderEffect = (
+    effect: Effect,
+    svg: SVGElement,
+    config: GameConfig,
+    paint: (kind: CellKind) => Paint
+): SVGElement => {
+    const {blockSize, width, height} = config;
+    const cell = (x: number, y: number, rows: number) => ({
+        x: `${x * blockSize}`,
+        y: `${y * blockSize}`,
+        width: `${blockSize}`,
+        height: `${rows * blockSize}`
+    });
+    const label = (y: number, text: string, className: string) => {
+        const elem = createSvgElement(svg.namespaceURI, "text", {
+            class: className,
+            x: `${width * blockSize / 2}`,
+            y: `${y * blockSize}`,
+            "text-anchor": "middle"
+        });
+        elem.textContent = text;
+        return elem;
+    };
+    const elem = effect.kind === "flash" ? createSvgElement(svg.namespaceURI, "rect", {class: "flash", ...cell(effect.x, effect.y, 1)})
+        : effect.kind === "trail" ? createSvgElement(svg.namespaceURI, "rect",
+            {class: "trail", fill: paint(effect.piece).fill, ...cell(effect.x, effect.y, effect.length)})
+        : effect.kind === "popup" ? label(effect.y + 0.5, effect.text, "popup")
+        : label(height / 3, effect.text, "banner");
+    elem.addEventListener("animationend", () => elem.remove());
+    svg.appendChild(elem);
+    return elem;
+}
+
+/**
+ * Renders the patterns of a theme, one per patterned kind of cell. Each pattern covers the cell it fills,
+ * whatever its size, so the same patterns serve the board, the next queue and the held piece.
+ * @param {Theme} theme - The theme.
+ * @param {SVGElement} defs - The definitions of a canvas, emptied first.
+ * @param {string} prefix - The prefix of the ids of the patterns, unique to the canvas.
+ */
+const renderPatterns = (theme: Theme, defs: SVGElement, prefix: string) => {
+    while (defs.lastChild) defs.removeChild(defs.lastChild);
+    (Object.keys(theme.cells) as CellKind[]).forEach(kind => {
+        const {fill, stroke, pattern} = theme.cells[kind];
+        if (pattern === null) return;
+        const elem = createSvgElement(defs.namespaceURI, "pattern", {
+            id: patternId(prefix, kind),
+            width: "1",
+            height: "1",
+            patternUnits: "objectBoundingBox",
+            patternContentUnits: "objectBoundingBox"
+        });
+        elem.appendChild(createSvgElement(defs.namespaceURI, "rect", {width: "1", height: "1", fill, stroke: "none"}));
+        PATTERN_SHAPES[pattern].forEach(({name, props}) =>
+            elem.appendChild(createSvgElement(defs.namespaceURI, name, {fill: stroke, stroke, "stroke-width": "0.08", ...props})));
+        defs.appendChild(elem);
+    });
+}
+
+/**
+ * Colours the page around the boards for a theme.
+ * @param {Theme} theme - The theme.
+ * @param {HTMLElement} root - The element the colours are set on, inherited by everything inside it.
+ */
+const applyTheme = (theme: Theme, root: HTMLElement) => {
+    root.style.setProperty("--board-background", theme.background);
+    root.style.setProperty("--panel-background", theme.panel);
+    root.dataset.theme = theme.id;
+}
+
+/**
+ * Renders the leaderboard of a mode as a table, one row per game.
+ * @param {LeaderboardEntry[]} entries - The best games of the mode, best first.
+ * @param {HTMLTableElement} table - The table to render the leaderboard in.
+ * @param {GameMode} mode - The mode the games were played in.
+ * @param {(LeaderboardEntry|null)} latest - The game just played, highlighted if it made the table.
+ */
+const renderLeaderboard = (
+    entries: ReadonlyArray<LeaderboardEntry>,
+    table: HTMLTableElement,
+    mode: GameMode,
+    latest: LeaderboardEntry | null
+) => {
+    const row = (cells: string[], header: boolean = false) => {
+        const tr = document.createElement("tr");
+        cells.forEach(text => {
+            const cell = document.createElement(header ? "th" : "td");
+            cell.textContent = text;
+            tr.appendChild(cell);
+        });
+        return tr;
+    };
+
+    table.replaceChildren(
+        row(["#", "Name", mode.resultLabel, "Lines"], true),
+        ...entries.map((entry, i) => {
+            const tr = row([String(i + 1), entry.name, mode.formatResult(entry.result), String(entry.lines)]);
+            tr.title = `Score ${entry.score}, level ${entry.level}, ${formatTicks(entry.duration)}, ` +
+                new Date(entry.date).toLocaleString();
+            if (entry === latest) tr.className = "latest";
+            return tr;
         })
-    })
+    );
 }
 
+/**
+ * Renders the stats of a game as a table, one row per stat. Rows are only rebuilt when the stats listed change,
+ * otherwise just the values that changed are written, since the stats are rendered every tick.
+ * @param {[string, string][]} rows - The label and value of each stat.
+ * @param {HTMLTableElement} table - The table to render the stats in.
+ */
+const renderStats = (rows: ReadonlyArray<readonly [string, string]>, table: HTMLTableElement) => {
+    if (table.rows.length !== rows.length || rows.some(([label], i) => table.rows[i].cells[0].textContent !== label))
+        table.replaceChildren(...rows.map(([label]) => {
+            const tr = document.createElement("tr");
+            const th = document.createElement("th");
+            th.textContent = label;
+            tr.append(th, document.createElement("td"));
+            return tr;
+        }));
+    rows.forEach(([, value], i) => {
+        const cell = table.rows[i].cells[1];
+        if (cell.textContent !== value) cell.textContent = value;
+    });
+}
 
-export {show, hide, createSvgElement, renderTetromino, clearSvgCanvas, renderGrid}
+/**
+ * Name a key for display, e.g. "A" for "KeyA".
+ * @param {string} key - The key.
+ * @returns {string} - The name of the key.
+ */
+const keyName = (key: string): string => key.replace(/^(Key|Digit)/, "");
+
+/**
+ * Renders key or button bindings as a table, one row per control, each with a button to rebind it.
+ * @param {Record<Control, T[]>} bindings - The bindings.
+ * @param {HTMLTableElement} table - The table to render the bindings in.
+ * @param {(Control|null)} listening - The control waiting for a key, if any.
+ * @param {function(T): string} name - Names a key or button for display.
+ */
+const renderBindings = <T>(
+    bindings: Readonly<Record<Control, ReadonlyArray<T>>>,
+    table: HTMLTableElement,
+    listening: Control | null,
+    name: (key: T) => string
+) =>
+    table.replaceChildren(...(Object.keys(CONTROL_NAMES) as Control[]).map(control => {
+        const tr = document.createElement("tr");
+        const label = document.createElement("td");
+        label.textContent = CONTROL_NAMES[control];
+        const button = document.createElement("button");
+        button.dataset.control = control;
+        button.textContent = control === listening ? "Press..."
+            : bindings[control].map(name).join(", ") || "-";
+        const keys = document.createElement("td");
+        keys.appendChild(button);
+        tr.append(label, keys);
+        return tr;
+    }));
+
+export {
+    show,
+    hide,
+    createSvgElement,
+    renderTetromino,
+    renderQueue,
+    cellsOf,
+    effectsFor,
+    renderEffect,
+    renderPatterns,
+    applyTheme,
+    renderLeaderboard,
+    renderStats,
+    keyName,
+    renderBindings
+}
+export type {Effect}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { announcementsFor, boardReadout, menuFocus, summarize } from "../src/accessibility";
+import { createConfig } from "../src/config";
+import { createInitialState, Drop, GameEvent, Hold } from "../src/state";
+import { GUIDELINE_SCORING, scoreLock, Spin } from "../src/scoring";
+
+const s = createInitialState(1, createConfig({ readyTicks: 0, clearDelay: 0, entryDelay: 0 }));
+const texts = (events: ReadonlyArray<GameEvent>, verbosity: "off" | "brief" | "full") =>
+  announcementsFor(events, verbosity).map(({ text }) => text);
+
+describe("accessibility", () => {
+  it("announces holds, clears, levels and game over, and spawns only when asked to", () => {
+    const held = new Hold().apply(s);
+    expect(texts(held.events, "brief")).toEqual([`Held ${s.currentTetromino.kind}`]);
+    expect(texts(held.events, "full")).toEqual([`Held ${s.currentTetromino.kind}`, `${held.currentTetromino.kind} piece`]);
+    expect(texts(held.events, "off")).toEqual([]);
+    const clear = scoreLock(GUIDELINE_SCORING, 1, 2, Spin.NONE, false, false, -1);
+    expect(texts([
+      { tick: 0, type: "clear", clear, rows: [], attack: 0 },
+      { tick: 0, type: "levelUp", level: 2 },
+      { tick: 0, type: "gameOver", completed: false }
+    ], "brief")).toEqual(["Double", "Level 2", "Game over"]);
+  });
+
+  it("keeps what matters most when there is too much to say, in order", () => {
+    const announcements = [
+      { text: "I piece", priority: 0 },
+      { text: "Tetris", priority: 2 },
+      { text: "O piece", priority: 0 },
+      { text: "Game over", priority: 3 }
+    ];
+    expect(summarize(announcements, 2)).toBe("Tetris. Game over");
+    expect(summarize(announcements, 3)).toBe("I piece. Tetris. Game over");
+  });
+
+  it("reads out the pieces, the column heights and the holes", () => {
+    const bottom = s.grid.length - 1;
+    const grid = s.grid.map((row, y) =>
+      y === bottom ? row.map((_, x) => (x === 2 ? null : "garbage" as const))
+        : y === bottom - 1 ? row.map((_, x) => (x === 2 ? "T" as const : null)) : row);
+    const readout = boardReadout({ ...s, grid });
+    expect(readout).toContain(`Next: ${s.nextQueue.map(t => t.kind).join(", ")}`);
+    expect(readout).toContain("Holding: nothing");
+    expect(readout).toContain("Column heights: 1, 1, 2, 1, 1, 1, 1, 1, 1, 1");
+    expect(readout).toContain("1 hole, in column 3");
+    expect(boardReadout(new Drop().apply(s))).toContain("No holes");
+  });
+
+  it("moves through menus with the arrow keys, wrapping around", () => {
+    expect(menuFocus("ArrowDown", 0, 3)).toBe(1);
+    expect(menuFocus("ArrowDown", 2, 3)).toBe(0);
+    expect(menuFocus("ArrowUp", 0, 3)).toBe(2);
+    expect(menuFocus("ArrowUp", -1, 3)).toBe(2);
+    expect(menuFocus("End", 0, 3)).toBe(2);
+    expect(menuFocus("Home", 2, 3)).toBe(0);
+    expect(menuFocus("Enter", 0, 3)).toBeNull();
+    expect(menuFocus("ArrowDown", -1, 0)).toBeNull();
+  });
+});
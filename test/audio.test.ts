@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import {
+  composeBar,
+  eventTracker,
+  musicTempo,
+  silentAudio,
+  SOUNDS,
+  soundsFor
+} from "../src/audio";
+import { createConfig } from "../src/config";
+import { createInitialState, Drop, GameEvent, Hold, Move, Rotate } from "../src/state";
+import { GUIDELINE_SCORING, scoreLock, Spin } from "../src/scoring";
+import { Direction } from "../src/util";
+
+const s = createInitialState(1, createConfig({ readyTicks: 0 }));
+const clearOf = (rows: number, spin: Spin = Spin.NONE): GameEvent =>
+  ({ tick: 0, type: "clear", clear: scoreLock(GUIDELINE_SCORING, 1, rows, spin, false, false, -1), rows: [], attack: 0 });
+
+describe("audio", () => {
+  it("hears moves, rotations, holds and locks", () => {
+    expect(soundsFor(new Move(Direction.LEFT).apply(s).events)).toEqual(["move"]);
+    expect(soundsFor(new Rotate().apply(s).events)).toEqual(["rotate"]);
+    expect(soundsFor(new Hold().apply(s).events)).toEqual(["hold"]);
+    expect(soundsFor(new Drop().apply(s).events)).toEqual(["lock"]);
+  });
+
+  it("picks a sound for each clear, T-spins over line counts", () => {
+    expect([1, 2, 3, 4].flatMap(rows => soundsFor([clearOf(rows)])))
+      .toEqual(["single", "double", "triple", "tetris"]);
+    expect(soundsFor([clearOf(2, Spin.FULL)])).toEqual(["tSpin"]);
+    expect(soundsFor([clearOf(0, Spin.MINI)])).toEqual(["tSpin"]);
+  });
+
+  it("hears level ups and top outs, but not a completed game", () => {
+    expect(soundsFor([
+      { tick: 0, type: "levelUp", level: 2 },
+      { tick: 0, type: "gameOver", completed: false },
+      { tick: 0, type: "gameOver", completed: true }
+    ])).toEqual(["levelUp", "topOut"]);
+  });
+
+  it("hears each event once", () => {
+    const hear = eventTracker();
+    const moved = new Move(Direction.LEFT).apply(s);
+    expect(hear(moved.events)).toHaveLength(1);
+    expect(hear(moved.events)).toEqual([]);
+    expect(hear(new Move(Direction.LEFT).apply(moved).events)).toHaveLength(1);
+  });
+
+  it("speeds the music up with the level, to a limit", () => {
+    expect(musicTempo(2)).toBeGreaterThan(musicTempo(1));
+    expect(musicTempo(100)).toBe(musicTempo(1000));
+  });
+
+  it("composes the same bars from the same seed, looping", () => {
+    expect(composeBar(7, 3)).toEqual(composeBar(7, 3));
+    expect(composeBar(7, 3)).toEqual(composeBar(7, 11));
+    expect(composeBar(7, 3)).not.toEqual(composeBar(8, 3));
+    expect(composeBar(7, 0).every(tone => tone.start >= 0 && tone.start < 4 && tone.frequency > 0)).toBe(true);
+  });
+
+  it("synthesizes every sound, and can stay silent", () => {
+    expect(Object.values(SOUNDS).every(tones => tones.length > 0)).toBe(true);
+    expect(() => {
+      silentAudio.play(["tetris"]);
+      silentAudio.music({ seed: 1, level: 1 });
+    }).not.toThrow();
+  });
+});
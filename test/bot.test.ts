@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { bestPlacement, botInputs, botMove, defaultBotConfig, evaluate, features } from "../src/bot";
+import { createConfig } from "../src/config";
+import { createGame } from "../src/engine";
+import { createInitialState, Drop, Hold, Move, reduceState, Rotate, State } from "../src/state";
+import { GridCell, Phase } from "../src/types";
+
+const config = createConfig({ readyTicks: 0, clearDelay: 0, entryDelay: 0 });
+
+// A 4x4 grid from rows of "#" (filled) and "." (empty)
+const gridOf = (...rows: string[]): GridCell[][] =>
+  rows.map(row => [...row].map(cell => (cell === "#" ? "Z" : null)));
+
+describe("board features", () => {
+  it("measures heights, holes, bumpiness and wells", () => {
+    const grid = gridOf(
+      "....",
+      "#...",
+      "#.#.",
+      "##.#"
+    );
+    expect(features(grid, 2)).toEqual({ height: 3 + 1 + 2 + 1, holes: 1, bumpiness: 2 + 1 + 1, wells: 1 + 1, lines: 2 });
+  });
+
+  it("weighs each feature", () => {
+    const grid = gridOf("....", "....", "....", "##..");
+    const weights = { height: -1, holes: 0, bumpiness: 0, wells: 0, lines: 10 };
+    expect(evaluate(grid, 1, weights)).toBe(-2 + 10);
+  });
+});
+
+describe("bot", () => {
+  it("places pieces with the real actions", () => {
+    const s = createInitialState(4, config);
+    const placement = bestPlacement(s)!;
+    expect(placement.inputs.at(-1)).toBeInstanceOf(Drop);
+    expect(placement.inputs.every(a => a instanceof Move || a instanceof Rotate || a instanceof Drop || a instanceof Hold))
+      .toBe(true);
+    const placed = placement.inputs.reduce(reduceState, s);
+    expect(placed.grid).not.toEqual(s.grid);
+    expect(botMove(s)).toEqual(placed);
+  });
+
+  it("suggests nothing when the game is not being played", () => {
+    expect(bestPlacement(createInitialState(4))).toBeNull();
+    expect(botInputs(createInitialState(4))).toEqual([]);
+  });
+
+  it("only holds when allowed to", () => {
+    const noHold = { ...defaultBotConfig, hold: false };
+    let s: State = createInitialState(9, config);
+    for (let i = 0; i < 20; i++) {
+      expect(bestPlacement(s, noHold)!.hold).toBe(false);
+      s = botMove(s, noHold);
+    }
+  });
+
+  it("survives and clears lines in a headless run", () => {
+    const game = createGame(config, 5);
+    for (let i = 0; i < 100 && game.getState().phase === Phase.PLAYING; i++)
+      game.step(botInputs(game.getState()));
+    expect(game.getState().phase).toBe(Phase.PLAYING);
+    expect(game.getState().rowsCleared).toBeGreaterThanOrEqual(30);
+  });
+
+  it("scores a placement by the best board the next pieces can reach", () => {
+    const s = createInitialState(6, config);
+    const deep = bestPlacement(s, { ...defaultBotConfig, depth: 2 })!;
+    const next = bestPlacement(deep.inputs.reduce(reduceState, s), { ...defaultBotConfig, depth: 1 })!;
+    expect(deep.score).toBeCloseTo(next.score);
+  });
+});
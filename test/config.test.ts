@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { createConfig, gravityFor } from "../src/config";
+import { createInitialState, Drop, reduceState } from "../src/state";
+
+describe("GameConfig", () => {
+  it("sizes the grid from the config, hidden rows included", () => {
+    const s = createInitialState(1, createConfig({ width: 12, height: 24, hiddenRows: 2 }));
+    expect(s.grid.length).toBe(26);
+    expect(s.grid[0].length).toBe(12);
+  });
+
+  it("plays on a four-wide board", () => {
+    const config = createConfig({ width: 4, spawn: { x: 0, y: 1 }, readyTicks: 0 });
+    const s = Array.from({ length: 30 }, () => new Drop()).reduce(reduceState, createInitialState(3, config));
+    expect(s.grid.every(row => row.length === 4)).toBe(true);
+  });
+
+  it("uses the last gravity entry past the end of the table", () => {
+    const config = createConfig({ gravity: [5, 3] });
+    expect(gravityFor(config, 1)).toBe(5);
+    expect(gravityFor(config, 9)).toBe(3);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { createConfig, createGame, Direction, Drop, GameFlow, Move, Phase, reduceState, stepState } from "../src/engine";
+import { createInitialState } from "../src/state";
+
+const config = createConfig({ readyTicks: 0 });
+
+const play = (seed: number) => {
+  const game = createGame(config, seed);
+  for (let i = 0; game.getState().phase !== Phase.GAME_OVER && i < 10000; i++)
+    game.step(i % 4 === 0 ? [new Move(i % 8 === 0 ? Direction.LEFT : Direction.RIGHT, i % 5), new Drop()] : []);
+  return game.getState();
+};
+
+describe("engine", () => {
+  it("applies the inputs of a step before the tick", () => {
+    const s = createInitialState(3, config);
+    const inputs = [new Move(Direction.LEFT), new Drop()];
+    expect(stepState(s, inputs)).toEqual(new GameFlow().apply(inputs.reduce(reduceState, s)));
+  });
+
+  it("keeps the state between steps", () => {
+    const game = createGame(config, 3);
+    const first = game.step();
+    expect(game.getState()).toBe(first);
+    expect(game.step([new Drop()]).ticks).toBe(2);
+  });
+
+  it("plays the same game from the same seed and inputs", () => {
+    expect(play(7)).toEqual(play(7));
+    expect(play(7).phase).toBe(Phase.GAME_OVER);
+  });
+
+  // Speed is measured by `npm run bench`, not here, so that a busy machine cannot fail the suite
+  it("plays whole games to the end on its own", () => {
+    const games = Array.from({ length: 20 }, (_, seed) => play(seed));
+    expect(games.every(s => s.phase === Phase.GAME_OVER)).toBe(true);
+    expect(games.every(s => s.ticks > 0 && s.ticks < 10000)).toBe(true);
+  });
+});
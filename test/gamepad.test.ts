@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { defaultHandling } from "../src/input";
+import {
+  Button,
+  buttonPresses,
+  defaultButtonBindings,
+  GamepadLike,
+  initialPad,
+  pollGamepads,
+  pollPad,
+  pressedControls,
+} from "../src/gamepad";
+import { Drop, Move, Rotate, SoftDrop } from "../src/state";
+import { Direction } from "../src/util";
+import { Turn } from "../src/rotation";
+import { toggleBinding } from "../src/settings";
+
+// A standard-mapping controller with the given buttons held
+const fakePad = (held: number[], axes: number[] = [0, 0], index = 0): GamepadLike => ({
+  id: "Fake Pad",
+  index,
+  buttons: Array.from({ length: 17 }, (_, i) => ({ pressed: held.includes(i) })),
+  axes,
+});
+
+const poll = (pads: (GamepadLike | null)[][], bindings = defaultButtonBindings, step = 50) =>
+  pads.reduce(
+    (r, connected, i) => {
+      const next = pollGamepads(r.states, connected, () => bindings, i * step, defaultHandling);
+      return { states: next.pads, actions: r.actions.concat([next.actions]) };
+    },
+    { states: {}, actions: [] as unknown[][] }
+  ).actions;
+
+describe("gamepad", () => {
+  it("maps buttons and the D-pad to controls", () => {
+    expect(pressedControls(fakePad([Button.A, Button.LEFT]), defaultButtonBindings))
+      .toEqual(["left", "rotateCounterClockwise"]);
+  });
+
+  it("treats the left stick as the D-pad", () => {
+    expect(pressedControls(fakePad([], [0.9, 0]), defaultButtonBindings)).toEqual(["right"]);
+  });
+
+  it("acts once per press, not while a button stays held", () => {
+    const [first, second] = poll([[fakePad([Button.UP])], [fakePad([Button.UP])]]);
+    expect(first).toEqual([new Drop()]);
+    expect(second).toEqual([]);
+  });
+
+  it("auto shifts a held direction with DAS and ARR", () => {
+    const held = Array.from({ length: 6 }, () => [fakePad([Button.RIGHT])]);
+    const moves = poll(held).flat().filter(a => a instanceof Move);
+    // One move on press, then repeats once DAS (167ms) is charged
+    expect(moves[0]).toEqual(new Move(Direction.RIGHT));
+    expect(moves.length).toBeGreaterThan(1);
+  });
+
+  it("uses the bindings of the controller", () => {
+    const bindings = toggleBinding(defaultButtonBindings, "rotateClockwise", Button.A);
+    const { actions } = pollPad(initialPad, fakePad([Button.A]), bindings, 0, defaultHandling);
+    expect(actions).toEqual([new Rotate(Turn.CLOCKWISE)]);
+  });
+
+  it("releases held controls when the controller is unplugged", () => {
+    const [, unplugged] = poll([[fakePad([Button.DOWN])], [null]]);
+    expect(unplugged).toEqual([new SoftDrop(null)]);
+  });
+
+  it("reports newly pressed buttons for rebinding", () => {
+    const first = buttonPresses({}, [fakePad([Button.X])]);
+    expect(first.presses).toEqual([{ id: "Fake Pad", button: Button.X }]);
+    expect(buttonPresses(first.held, [fakePad([Button.X])]).presses).toEqual([]);
+  });
+
+  it("keeps a button pressed for rebinding out of the game until it is let go", () => {
+    const polls = [[Button.UP], [Button.UP], [], [Button.UP]].map(held => fakePad(held));
+    const actions = polls.reduce(
+      (r, pad, i) => {
+        const next = pollPad(r.state, pad, defaultButtonBindings, i * 50, defaultHandling, i === 0);
+        return { state: next.pad, actions: r.actions.concat([next.actions]) };
+      },
+      { state: initialPad, actions: [] as unknown[][] }
+    ).actions;
+    expect(actions).toEqual([[], [], [], [new Drop()]]);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  attackFor,
+  cancelGarbage,
+  DEFAULT_DIG,
+  GARBAGE_CELL,
+  garbageRows,
+  generateCheese,
+  GUIDELINE_ATTACK,
+  insertGarbage
+} from "../src/garbage";
+import { createConfig } from "../src/config";
+import { createInitialState, Drop, reduceState, State } from "../src/state";
+import { scoreLock, GUIDELINE_SCORING, Spin } from "../src/scoring";
+import { GridCell } from "../src/types";
+
+const clear = (rows: number, spin = Spin.NONE, backToBack = false, combo = -1, perfectClear = false) =>
+  scoreLock(GUIDELINE_SCORING, 1, rows, spin, perfectClear, backToBack, combo);
+
+describe("attack", () => {
+  it("sends lines by clear type", () => {
+    expect(attackFor(GUIDELINE_ATTACK, clear(1))).toBe(0);
+    expect(attackFor(GUIDELINE_ATTACK, clear(4))).toBe(4);
+    expect(attackFor(GUIDELINE_ATTACK, clear(2, Spin.FULL))).toBe(4);
+    expect(attackFor(GUIDELINE_ATTACK, clear(4, Spin.NONE, true))).toBe(5);
+  });
+
+  it("adds combo and perfect clear bonuses", () => {
+    expect(attackFor(GUIDELINE_ATTACK, clear(1, Spin.NONE, false, 3))).toBe(1);
+    expect(attackFor(GUIDELINE_ATTACK, clear(1, Spin.NONE, false, 40))).toBe(5);
+    expect(attackFor(GUIDELINE_ATTACK, clear(2, Spin.NONE, false, -1, true))).toBe(11);
+  });
+
+  it("cancels the oldest garbage first", () => {
+    const pending = [{ lines: 2, hole: 0 }, { lines: 3, hole: 5 }];
+    expect(cancelGarbage(pending, 1)).toEqual({ pending: [{ lines: 1, hole: 0 }, { lines: 3, hole: 5 }], attack: 0 });
+    expect(cancelGarbage(pending, 3)).toEqual({ pending: [{ lines: 2, hole: 5 }], attack: 0 });
+    expect(cancelGarbage(pending, 7)).toEqual({ pending: [], attack: 2 });
+  });
+});
+
+describe("garbage rows", () => {
+  const empty = (): GridCell[][] => Array.from({ length: 4 }, () => Array(3).fill(null));
+
+  it("rises from the bottom with a hole in each row", () => {
+    const { grid, overflow } = insertGarbage(empty(), [{ lines: 1, hole: 0 }, { lines: 1, hole: 2 }]);
+    expect(overflow).toBe(false);
+    expect(grid[2]).toEqual([null, GARBAGE_CELL, GARBAGE_CELL]);
+    expect(grid[3]).toEqual([GARBAGE_CELL, GARBAGE_CELL, null]);
+  });
+
+  it("overflows when the stack is pushed off the top", () => {
+    const grid = empty();
+    grid[0][1] = "Z";
+    expect(insertGarbage(grid, [{ lines: 1, hole: 0 }]).overflow).toBe(true);
+  });
+
+  it("waits until a lock clears nothing", () => {
+    const s: State = { ...createInitialState(1, createConfig({ readyTicks: 0 })), garbage: [{ lines: 2, hole: 4 }] };
+    const dropped = reduceState(s, new Drop());
+    expect(dropped.garbage).toEqual([]);
+    const bottom = dropped.grid.slice(-2);
+    expect(bottom.every(row => row[4] === null && row.filter(cell => cell === GARBAGE_CELL).length === 9)).toBe(true);
+  });
+});
+
+describe("cheese", () => {
+  const holesOf = (row: GridCell[]) => row.flatMap((cell, x) => cell === null ? [x] : []);
+
+  it("generates the same rows from the same seed", () => {
+    const a = generateCheese(5, 10, 8, DEFAULT_DIG);
+    expect(generateCheese(5, 10, 8, DEFAULT_DIG)).toEqual(a);
+    expect(generateCheese(6, 10, 8, DEFAULT_DIG).rows).not.toEqual(a.rows);
+    expect(a.rows).toHaveLength(8);
+    expect(garbageRows(a.rows)).toBe(8);
+  });
+
+  it("never puts a messy hole right above the one below", () => {
+    const { rows, holes } = generateCheese(5, 10, 20, DEFAULT_DIG);
+    rows.slice(1).forEach((row, i) => expect(holesOf(row)).not.toEqual(holesOf(rows[i])));
+    expect(holesOf(rows[0])).toEqual(holes);
+  });
+
+  it("keeps clean holes in the same columns", () => {
+    const { rows } = generateCheese(5, 10, 6, { ...DEFAULT_DIG, style: "clean", holes: 2 });
+    expect(holesOf(rows[0])).toHaveLength(2);
+    expect(rows.every(row => holesOf(row).join() === holesOf(rows[0]).join())).toBe(true);
+  });
+});
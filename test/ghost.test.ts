@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { createInitialState, ghostTetromino, State } from "../src/state";
+import { GARBAGE_CELL, T_TETROMINO } from "../src/types";
+import { createConfig } from "../src/config";
+
+// A T piece at the top of the board, over a stack as many rows high as asked
+const falling = (stack: number): State => {
+  const s = createInitialState(7, createConfig({ readyTicks: 0 }));
+  return {
+    ...s,
+    grid: s.grid.map((row, y) => y >= s.grid.length - stack ? row.map(() => GARBAGE_CELL) : row),
+    currentTetromino: { ...T_TETROMINO, position: { x: 4, y: 0 } }
+  };
+};
+
+describe("ghost piece", () => {
+  it("lands on the floor of an empty board", () => {
+    const ghost = ghostTetromino(falling(0));
+    expect(ghost.position).toEqual({ x: 4, y: 20 });
+    expect(ghost.shapes).toBe(T_TETROMINO.shapes);
+  });
+
+  it("lands on top of the stack", () => {
+    expect(ghostTetromino(falling(4)).position).toEqual({ x: 4, y: 16 });
+  });
+
+  it("stays where it is when the piece is already resting", () => {
+    const s = falling(0);
+    const resting = { ...s, currentTetromino: { ...s.currentTetromino, position: { x: 4, y: 20 } } };
+    expect(ghostTetromino(resting)).toBe(resting.currentTetromino);
+  });
+});
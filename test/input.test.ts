@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { defaultBindings, frame, Handling, initialInput, InputState, press, pressKey, release } from "../src/input";
+import { loadSettings, saveSettings, defaultSettings, toggleBinding } from "../src/settings";
+import { createInitialState, GameFlow, Move, SoftDrop, State } from "../src/state";
+import { MemoryStore } from "../src/storage";
+import { createConfig } from "../src/config";
+import { Direction } from "../src/util";
+
+const handling: Handling = { das: 100, arr: 20, softDropFactor: 20 };
+
+const moves = (actions: ReadonlyArray<unknown>) =>
+  actions.filter((a): a is Move => a instanceof Move).map(m => [m.direction, m.distance]);
+
+const held = (control: "left" | "right", time = 0): InputState => press(initialInput, control, time, handling).input;
+
+describe("auto shift", () => {
+  it("moves once on press, then waits for DAS before repeating at ARR", () => {
+    expect(moves(press(initialInput, "left", 0, handling).actions)).toEqual([[Direction.LEFT, 1]]);
+    expect(frame(held("left"), 99, handling).actions).toHaveLength(0);
+    const charged = frame(held("left"), 100, handling);
+    expect(moves(charged.actions)).toEqual([[Direction.LEFT, 1]]);
+    expect(moves(frame(charged.input, 150, handling).actions)).toEqual([[Direction.LEFT, 2]]);
+  });
+
+  it("shifts to the wall with an ARR of 0", () => {
+    const [[direction, distance]] = moves(frame(held("right"), 100, { ...handling, arr: 0 }).actions);
+    expect(direction).toBe(Direction.RIGHT);
+    expect(distance).toBeGreaterThan(100);
+  });
+
+  it("lets the last direction pressed win, and falls back when it is released", () => {
+    const both = press(held("left"), "right", 50, handling).input;
+    expect(both.shift?.direction).toBe(Direction.RIGHT);
+    const back = release(both, "right", 80);
+    expect(back.input.shift).toEqual({ direction: Direction.LEFT, since: 80, repeats: 0 });
+    expect(moves(back.actions)).toEqual([[Direction.LEFT, 1]]);
+  });
+
+  it("presses every control bound to a key, arrows included", () => {
+    const { actions } = pressKey(initialInput, defaultBindings, "ArrowDown", 0, handling);
+    expect(actions).toEqual([new SoftDrop(20)]);
+  });
+});
+
+describe("game actions", () => {
+  const playing = (): State => createInitialState(1, createConfig({ readyTicks: 0 }));
+
+  it("moves several cells at once, stopping at the wall", () => {
+    const s = new Move(Direction.LEFT, 100).apply(playing());
+    expect(s.currentTetromino.position.x).toBe(0);
+  });
+
+  it("moves no further than the width of the board, and only sideways", () => {
+    const s = playing();
+    expect(new Move(Direction.RIGHT, 1e7).apply(s).currentTetromino.position.x)
+      .toBe(new Move(Direction.RIGHT, 100).apply(s).currentTetromino.position.x);
+    expect(new Move(Direction.DOWN, 1e7).apply(s)).toBe(s);
+  });
+
+  it("falls faster while soft drop is held", () => {
+    const tick = (s: State, count: number) =>
+      Array.from({ length: count }).reduce<State>(acc => new GameFlow().apply(acc), s);
+    const s = playing();
+    const y = s.currentTetromino.position.y;
+    expect(tick(s, 5).currentTetromino.position.y).toBe(y);
+    expect(tick(new SoftDrop(20).apply(s), 5).currentTetromino.position.y).toBeGreaterThan(y + 1);
+  });
+});
+
+describe("settings", () => {
+  it("moves a key from one control to another", () => {
+    const bindings = toggleBinding(defaultBindings, "hold", "KeyA");
+    expect(bindings.hold).toContain("KeyA");
+    expect(bindings.left).toEqual(["ArrowLeft"]);
+    expect(toggleBinding(bindings, "hold", "KeyA").hold).not.toContain("KeyA");
+  });
+
+  it("fills in settings missing from older saves", () => {
+    const store = new MemoryStore();
+    store.save("settings", JSON.stringify({ showGhost: false, handling: { das: 50 } }));
+    const settings = loadSettings(store);
+    expect(settings.showGhost).toBe(false);
+    expect(settings.handling).toEqual({ ...defaultSettings.handling, das: 50 });
+    saveSettings(store, settings);
+    expect(loadSettings(store)).toEqual(settings);
+  });
+});
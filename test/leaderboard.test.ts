@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { createConfig } from "../src/config";
+import {
+  addEntry,
+  bestOf,
+  emptyLeaderboard,
+  entryFor,
+  LEADERBOARD_VERSION,
+  LeaderboardEntry,
+  loadLeaderboard,
+  saveLeaderboard,
+  topEntries,
+} from "../src/leaderboard";
+import { createInitialState } from "../src/state";
+import { MemoryStore } from "../src/storage";
+import { Phase } from "../src/types";
+
+const entry = (result: number, name = "A"): LeaderboardEntry =>
+  ({ name, result, score: result, lines: 0, level: 1, duration: 0, date: 0 });
+
+describe("leaderboard", () => {
+  it("ranks higher scores first and keeps the top games", () => {
+    const board = [5, 9, 1, 7].reduce((b, result) => addEntry(b, "endless", entry(result), 3).board, emptyLeaderboard);
+    expect(topEntries(board, "endless").map(e => e.result)).toEqual([9, 7, 5]);
+    expect(addEntry(board, "endless", entry(2), 3).rank).toBeNull();
+  });
+
+  it("ranks lower times first in sprint, ties going to the earlier game", () => {
+    const board = [entry(700, "A"), entry(500, "B"), entry(500, "C")]
+      .reduce((b, e) => addEntry(b, "sprint", e).board, emptyLeaderboard);
+    expect(topEntries(board, "sprint").map(e => e.name)).toEqual(["B", "C", "A"]);
+    expect(bestOf(board, "sprint")).toBe(500);
+    expect(bestOf(board, "ultra")).toBeNull();
+  });
+
+  it("survives a save and load", () => {
+    const store = new MemoryStore();
+    const board = addEntry(emptyLeaderboard, "zen", entry(3)).board;
+    saveLeaderboard(store, board);
+    expect(loadLeaderboard(store)).toEqual(board);
+  });
+
+  it("starts empty on corrupt or newer data", () => {
+    const store = new MemoryStore();
+    store.save("leaderboard", "{not json");
+    expect(loadLeaderboard(store)).toEqual(emptyLeaderboard);
+    store.save("leaderboard", JSON.stringify({ version: LEADERBOARD_VERSION + 1, entries: {} }));
+    expect(loadLeaderboard(store)).toEqual(emptyLeaderboard);
+  });
+
+  it("migrates older schemas step by step", () => {
+    const store = new MemoryStore();
+    store.save("leaderboard", JSON.stringify({ version: LEADERBOARD_VERSION - 2, scores: [4] }));
+    const migrations = {
+      [LEADERBOARD_VERSION - 2]: (data: Record<string, unknown>) => ({ version: LEADERBOARD_VERSION - 1, list: data.scores }),
+      [LEADERBOARD_VERSION - 1]: (data: Record<string, unknown>) =>
+        ({ version: LEADERBOARD_VERSION, entries: { endless: (data.list as number[]).map(r => entry(r)) } }),
+    };
+    expect(bestOf(loadLeaderboard(store, migrations), "endless")).toBe(4);
+  });
+
+  it("leaves unfinished sprints off the board", () => {
+    const s = { ...createInitialState(1, createConfig({ mode: "sprint" })), phase: Phase.GAME_OVER };
+    expect(entryFor(s, "A", 0)).toBeNull();
+    expect(entryFor({ ...s, completed: true, ticks: 900 }, "A", 0)?.result).toBe(900);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { createInitialState, Down, GameFlow, Move, State } from "../src/state";
+import { Direction } from "../src/util";
+import { LockReset, T_TETROMINO } from "../src/types";
+import { createConfig } from "../src/config";
+
+// A T piece resting on the floor of an empty board
+const grounded = (reset: LockReset): State => {
+  const s = createInitialState(7, createConfig({ lockDelay: { ticks: 3, resetLimit: 2, reset }, readyTicks: 0 }));
+  return { ...s, currentTetromino: { ...T_TETROMINO, position: { x: 4, y: 20 } }, lowestRow: 20 };
+};
+
+const tick = (s: State, count: number): State =>
+  Array.from({ length: count }).reduce<State>(acc => new GameFlow().apply(acc), s);
+
+describe("lock delay", () => {
+  it("waits before locking a grounded piece", () => {
+    const s = grounded(LockReset.MOVE);
+    expect(tick(s, 3).grid.flat().every(cell => cell === null)).toBe(true);
+    expect(tick(s, 4).grid.flat().some(cell => cell !== null)).toBe(true);
+  });
+
+  it("does not lock on soft drop", () => {
+    const s = grounded(LockReset.MOVE);
+    expect(new Down().apply(s)).toBe(s);
+  });
+
+  it("restarts the delay on a move, up to the reset limit", () => {
+    const moved = new Move(Direction.LEFT).apply(tick(grounded(LockReset.MOVE), 2));
+    expect(moved.lockTicks).toBe(0);
+    expect(moved.lockResets).toBe(1);
+  });
+
+  it("keeps counting on a move with step reset", () => {
+    const moved = new Move(Direction.LEFT).apply(tick(grounded(LockReset.STEP), 2));
+    expect(moved.lockTicks).toBe(2);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { createConfig, gravityFor } from "../src/config";
+import { ModeId, bestResult, checkGoal, MODES } from "../src/modes";
+import { createInitialState, Drop, GameFlow, reduceState } from "../src/state";
+import { GARBAGE_CELL, Phase } from "../src/types";
+import { lineClear } from "../src/util";
+
+const start = (mode: ModeId, seed = 1) => createInitialState(seed, createConfig({ mode, readyTicks: 0, clearDelay: 0, entryDelay: 0 }));
+
+describe("Game modes", () => {
+  it("completes a sprint after 40 lines, with the time as its result", () => {
+    const s = checkGoal({ ...start("sprint"), rowsCleared: 40, ticks: 600 });
+    expect(s.phase).toBe(Phase.GAME_OVER);
+    expect(s.completed).toBe(true);
+    expect(MODES.sprint.result(s)).toBe(600);
+    expect(s.best).toBe(600);
+  });
+
+  it("does not count a sprint that topped out", () => {
+    const s = { ...start("sprint"), phase: Phase.GAME_OVER, best: 900 };
+    expect(bestResult(s)).toBe(900);
+  });
+
+  it("keeps the lower time as the best sprint", () => {
+    const s = { ...start("sprint"), phase: Phase.GAME_OVER, completed: true, ticks: 700, best: 900 };
+    expect(bestResult(s)).toBe(700);
+  });
+
+  it("ends ultra when the time runs out", () => {
+    const s = { ...start("ultra"), ticks: 2399 };
+    expect(reduceState(s, new GameFlow()).phase).toBe(Phase.GAME_OVER);
+  });
+
+  it("clears the board instead of topping out in zen", () => {
+    const drops = Array.from({ length: 40 }, () => new Drop());
+    const zen = drops.reduce(reduceState, start("zen", 2));
+    const endless = drops.reduce(reduceState, start("endless", 2));
+    expect(endless.phase).toBe(Phase.GAME_OVER);
+    expect(zen.phase).toBe(Phase.PLAYING);
+  });
+
+  it("levels marathon up every 10 lines, past the end of the gravity table", () => {
+    const config = createConfig({ mode: "marathon" });
+    expect(MODES.marathon.level(89)).toBe(9);
+    expect(MODES.marathon.level(140)).toBe(15);
+    expect(gravityFor(config, 15)).toBe(config.gravity[config.gravity.length - 1]);
+  });
+
+  it("starts a dig race on rows of cheese and ends it once they are cleared", () => {
+    const s = start("dig");
+    expect(s.grid.slice(-10).every(row => row.includes(GARBAGE_CELL))).toBe(true);
+    expect(s.grid.slice(0, -10).every(row => row.every(cell => cell === null))).toBe(true);
+    expect(MODES.dig.progress(s)).toBe("10 garbage lines left");
+
+    const cleared = checkGoal({ ...s, grid: s.grid.map(row => row.map(() => null)), ticks: 900 });
+    expect(cleared.completed).toBe(true);
+    expect(MODES.dig.result(cleared)).toBe(900);
+  });
+
+  it("lets garbage rise in a dig race on a timer", () => {
+    const s = createInitialState(1, createConfig({ mode: "dig", readyTicks: 0, dig: { rows: 4, holes: 1, style: "messy", riseTicks: 5 } }));
+    const risen = Array.from({ length: 10 }).reduce<typeof s>(acc => reduceState(acc, new GameFlow()), s);
+    expect(risen.garbage.map(batch => batch.lines)).toEqual([1, 1]);
+    expect(MODES.dig.progress(risen)).toBe("6 garbage lines left");
+    expect(start("endless").garbage).toEqual([]);
+  });
+
+  it("counts the garbage lines among the lines cleared", () => {
+    const full = (cell: string) => Array(4).fill(cell);
+    const { rowsCleared, garbageCleared } = lineClear([Array(4).fill(null), full(GARBAGE_CELL), full("T")]);
+    expect(rowsCleared).toBe(2);
+    expect(garbageCleared).toBe(1);
+  });
+});
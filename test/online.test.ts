@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { createConfig } from "../src/config";
+import {
+  Connected,
+  createOnline,
+  LocalInput,
+  LocalTick,
+  Online,
+  OnlineAction,
+  reduceOnline,
+  ServerEvent
+} from "../src/online";
+import { FRAME_INTERVAL, ServerMessage } from "../src/protocol";
+import { createRoom, joinRoom, readyUp, receiveFrame, receiveGarbage, receiveInput, Room, RoomUpdate } from "../src/room";
+import { Drop, Move, Pause, Restart } from "../src/state";
+import { Direction } from "../src/util";
+
+const config = createConfig({ mode: "versus", readyTicks: 0 });
+
+// Games start at time 0, and later messages arrive a minute in, when the clock allows every tick the tests send
+const LATER = 60_000;
+
+const event = (message: ServerMessage) => new ServerEvent(message);
+
+// Two clients and a room, passing every message along as it is sent
+type Table = { room: Room, clients: Online[], received: ServerMessage[][] };
+
+const deliver = (table: Table, { room, outbox }: RoomUpdate): Table =>
+  outbox.reduce((acc, { to, message }) => ({
+    ...acc,
+    clients: acc.clients.map((o, i) => i === to ? reduceOnline(o, event(message)) : o),
+    received: acc.received.map((messages, i) => i === to ? messages.concat(message) : messages)
+  }), { ...table, room });
+
+const act = (table: Table, player: number, action: OnlineAction): Table => {
+  const o = reduceOnline(table.clients[player], action);
+  const next = { ...table, clients: table.clients.map((c, i) => i === player ? o : c) };
+  return o.outbox.reduce((acc, message) => {
+    switch (message.type) {
+      case "ready": return deliver(acc, readyUp(acc.room, player, 0));
+      case "input": return deliver(acc, receiveInput(acc.room, player, message.tick, message.action, LATER));
+      case "garbage": return deliver(acc, receiveGarbage(acc.room, player, message.tick, LATER));
+      case "frame": return deliver(acc, receiveFrame(acc.room, player, message.tick, message.hash, LATER));
+      default: return acc;
+    }
+  }, next);
+};
+
+const table = (): Table => {
+  const empty: Table = {
+    room: createRoom("test", 1, config),
+    clients: [createOnline("test", "Ann"), createOnline("test", "Bob")],
+    received: [[], []]
+  };
+  const first = deliver(empty, joinRoom(empty.room, "Ann", null, "a"));
+  const second = deliver(first, joinRoom(first.room, "Bob", null, "b"));
+  return act(act(second, 0, new LocalInput(new Restart())), 1, new LocalInput(new Restart()));
+};
+
+describe("online", () => {
+  it("joins, and rejoins with the session it was given", () => {
+    const o = createOnline("room", "Ann");
+    expect(reduceOnline(o, new Connected()).outbox).toEqual([
+      { type: "join", version: 1, room: "room", name: "Ann", session: null }
+    ]);
+    const welcomed = reduceOnline(o, event({ type: "welcome", player: 1, session: "s" }));
+    expect(welcomed.player).toBe(1);
+    expect(reduceOnline(welcomed, new Connected()).outbox[0]).toMatchObject({ session: "s" });
+  });
+
+  it("starts playing when the server starts the game", () => {
+    const { clients } = table();
+    expect(clients.map(o => o.status)).toEqual(["playing", "playing"]);
+    expect(clients[0].timelines[0].state.nextQueue).toEqual(clients[1].timelines[0].state.nextQueue);
+  });
+
+  it("plays inputs locally and sends them, but never pauses", () => {
+    const { clients } = table();
+    const moved = reduceOnline(clients[0], new LocalInput(new Move(Direction.LEFT)));
+    expect(moved.outbox).toEqual([{ type: "input", tick: 0, action: { type: "move", direction: Direction.LEFT, distance: 1 } }]);
+    expect(moved.timelines[0].state.currentTetromino.position.x)
+      .toBe(clients[0].timelines[0].state.currentTetromino.position.x - 1);
+    expect(reduceOnline(clients[0], new LocalInput(new Pause()))).toMatchObject({ outbox: [], timelines: clients[0].timelines });
+  });
+
+  it("does not send inputs that change nothing", () => {
+    const walled = reduceOnline(table().clients[0], new LocalInput(new Move(Direction.LEFT, 100)));
+    expect(reduceOnline(walled, new LocalInput(new Move(Direction.LEFT, 100))).outbox).toEqual([]);
+  });
+
+  it("plays the garbage it is sent and tells the server the tick", () => {
+    const { clients } = table();
+    const hit = reduceOnline(clients[0], event({ type: "garbage", lines: 2, hole: 3 }));
+    expect(hit.outbox).toEqual([{ type: "garbage", tick: 0 }]);
+    expect(hit.timelines[0].state.garbage).toEqual([{ lines: 2, hole: 3 }]);
+  });
+
+  it("sends a frame every few ticks", () => {
+    let o = table().clients[0];
+    const frames = [];
+    for (let i = 0; i < FRAME_INTERVAL * 3; i++) {
+      o = reduceOnline(o, new LocalTick());
+      frames.push(...o.outbox);
+    }
+    expect(frames.map(frame => frame.type === "frame" && frame.tick)).toEqual([10, 20, 30]);
+  });
+
+  it("stays in step with the server through inputs and frames", () => {
+    let t = table();
+    // Player 0 stacks pieces in the middle until they top out, while player 1 only shifts theirs
+    for (let i = 0; i < 200 && t.room.game !== null; i++) {
+      t = act(t, 0, new LocalTick());
+      t = act(t, 1, new LocalTick());
+      if (i % 7 === 0) t = act(t, 0, new LocalInput(new Drop()));
+      if (i % 11 === 0) t = act(t, 1, new LocalInput(new Move(Direction.RIGHT)));
+    }
+    expect(t.received.flat().filter(message => message.type === "resume" || message.type === "error")).toEqual([]);
+    expect(t.received[1].some(message => message.type === "input")).toBe(true);
+    // Each client sees the other's game as far as the server has relayed it
+    const ownTick = t.clients[1].timelines[1].tick;
+    expect(t.clients[0].timelines[1].tick).toBe(ownTick - ownTick % FRAME_INTERVAL);
+  });
+
+  it("ends the game where the server says", () => {
+    const over = reduceOnline(table().clients[0], event({ type: "gameOver", winner: 1 }));
+    expect(over.status).toBe("over");
+    expect(over.winner).toBe(1);
+    expect(reduceOnline(over, new LocalInput(new Restart())).outbox).toEqual([{ type: "ready" }]);
+  });
+});
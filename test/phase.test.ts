@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { createConfig } from "../src/config";
+import { createInitialState, Drop, GameFlow, Move, Pause, reduceState, Restart, State, TogglePause } from "../src/state";
+import { I_TETROMINO, Phase } from "../src/types";
+import { Direction } from "../src/util";
+
+const tick = (s: State, count: number): State =>
+  Array.from({ length: count }).reduce<State>(acc => new GameFlow().apply(acc), s);
+
+const toppedOut = (): State =>
+  Array.from({ length: 40 }, () => new Drop()).reduce(reduceState, createInitialState(2, createConfig({ readyTicks: 0, clearDelay: 0, entryDelay: 0 })));
+
+// An I piece above a bottom row it completes, with delays after the lock
+const aboutToClear = (): State => {
+  const s = createInitialState(1, createConfig({ readyTicks: 0, clearDelay: 3, entryDelay: 2 }));
+  const bottom = s.grid.length - 1;
+  return {
+    ...s,
+    grid: s.grid.map((row, y) => y === bottom ? row.map((_, x) => x < 4 ? null : "garbage") : row),
+    currentTetromino: { ...I_TETROMINO, position: { x: 0, y: 0 } }
+  };
+};
+
+describe("phases", () => {
+  it("counts down before play starts, ignoring input", () => {
+    const s = createInitialState(1, createConfig({ readyTicks: 3 }));
+    expect(s.phase).toBe(Phase.READY);
+    expect(new Drop().apply(s)).toBe(s);
+    expect(tick(s, 2).phase).toBe(Phase.READY);
+    expect(tick(s, 3).phase).toBe(Phase.PLAYING);
+  });
+
+  it("freezes a paused game and counts down again on resume", () => {
+    const paused = new Pause().apply(createInitialState(1, createConfig({ readyTicks: 2 })));
+    expect(tick(paused, 50)).toEqual(paused);
+    const resumed = new TogglePause().apply(paused);
+    expect(resumed.phase).toBe(Phase.READY);
+    expect(resumed.countdown).toBe(2);
+  });
+
+  it("waits on the game over screen until restarted", () => {
+    const over = toppedOut();
+    expect(over.phase).toBe(Phase.GAME_OVER);
+    expect(tick(over, 100)).toBe(over);
+    expect(new TogglePause().apply(over)).toBe(over);
+  });
+
+  it("restarts with the best result carried over", () => {
+    const over = toppedOut();
+    const restarted = new Restart().apply(over);
+    expect(restarted.phase).toBe(Phase.PLAYING);
+    expect(restarted.best).toBe(over.score);
+    expect(restarted.grid.flat().every(cell => cell === null)).toBe(true);
+  });
+
+  it("keeps cleared rows on the board through the line clear delay, then waits for entry", () => {
+    const s = aboutToClear();
+    const locked = new Drop().apply(s);
+    expect(locked.phase).toBe(Phase.CLEARING);
+    expect(locked.clearing?.rows).toEqual([s.grid.length - 1]);
+    expect(locked.clearing?.grid.at(-1)?.every(cell => cell !== null)).toBe(true);
+    expect(locked.grid.flat().every(cell => cell === null)).toBe(true);
+    expect(new Move(Direction.LEFT).apply(locked)).toBe(locked);
+    expect(tick(locked, 2).phase).toBe(Phase.CLEARING);
+    expect(tick(locked, 3)).toMatchObject({ phase: Phase.ENTRY, clearing: null });
+    expect(tick(locked, 5)).toMatchObject({ phase: Phase.PLAYING, ticks: 5 });
+  });
+
+  it("only waits for entry after a lock that clears nothing", () => {
+    const locked = new Drop().apply(createInitialState(1, createConfig({ readyTicks: 0, clearDelay: 3, entryDelay: 2 })));
+    expect(locked.phase).toBe(Phase.ENTRY);
+    expect(tick(locked, 2).phase).toBe(Phase.PLAYING);
+  });
+
+  it("cuts the delays short when paused", () => {
+    const paused = new Pause().apply(new Drop().apply(aboutToClear()));
+    expect(paused).toMatchObject({ phase: Phase.PAUSED, delay: 0, clearing: null });
+    expect(new TogglePause().apply(paused).phase).toBe(Phase.PLAYING);
+  });
+
+  it("reports what a lock did as events that last until the tick after", () => {
+    const locked = new Drop().apply(aboutToClear());
+    expect(locked.events.map(event => event.type)).toEqual(["hardDrop", "lock", "clear", "spawn"]);
+    expect(locked.events[2]).toMatchObject({ tick: 0, rows: [locked.grid.length - 1], clear: { label: "Single Perfect Clear" } });
+    expect(tick(locked, 1).events).toEqual(locked.events);
+    expect(tick(locked, 2).events).toEqual([]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { createConfig } from "../src/config";
+import {
+  advanceTimeline,
+  hashState,
+  parseClientMessage,
+  playInput,
+  rebuildTimeline,
+  startTimeline
+} from "../src/protocol";
+import { decodeAction, encodeAction } from "../src/replay";
+import { ReceiveGarbage } from "../src/state";
+import { Direction } from "../src/util";
+
+const config = createConfig({ mode: "versus", readyTicks: 0 });
+
+describe("protocol", () => {
+  it("parses well-formed client messages", () => {
+    expect(parseClientMessage('{"type":"ready"}')).toEqual({ type: "ready" });
+    expect(parseClientMessage('{"type":"input","tick":3,"action":{"type":"move","direction":0,"distance":1}}'))
+      .toEqual({ type: "input", tick: 3, action: { type: "move", direction: Direction.LEFT, distance: 1 } });
+    expect(parseClientMessage('{"type":"garbage","tick":3}')).toEqual({ type: "garbage", tick: 3 });
+    expect(parseClientMessage('{"type":"join","version":1,"room":"a","name":"b","session":null}')).not.toBeNull();
+  });
+
+  it("rejects malformed client messages", () => {
+    expect(parseClientMessage("not json")).toBeNull();
+    expect(parseClientMessage("null")).toBeNull();
+    expect(parseClientMessage('{"type":"shout"}')).toBeNull();
+    expect(parseClientMessage('{"type":"frame","tick":"1","hash":2}')).toBeNull();
+    expect(parseClientMessage('{"type":"input","tick":1,"action":{"type":"teleport"}}')).toBeNull();
+    expect(parseClientMessage('{"type":"input","tick":1,"action":{"type":"garbage","lines":2}}')).toBeNull();
+    expect(parseClientMessage('{"type":"join","version":1,"room":"a","name":3,"session":null}')).toBeNull();
+  });
+
+  it("rejects inputs the game cannot play", () => {
+    const input = (action: object) => parseClientMessage(JSON.stringify({ type: "input", tick: 1, action }));
+    expect(input({ type: "rotate", turn: -1 })).toBeNull();
+    expect(input({ type: "rotate", turn: 4 })).toBeNull();
+    expect(input({ type: "move", direction: Direction.DOWN, distance: 1 })).toBeNull();
+    expect(input({ type: "move", direction: Direction.LEFT, distance: 0 })).toBeNull();
+    expect(input({ type: "move", direction: Direction.LEFT, distance: 1e300 })).toBeNull();
+    expect(input({ type: "softDrop", factor: -1 })).toBeNull();
+    expect(input({ type: "softDrop", factor: null })).not.toBeNull();
+  });
+
+  it("rejects garbage and pauses sent as inputs", () => {
+    const input = (action: object) => parseClientMessage(JSON.stringify({ type: "input", tick: 1, action }));
+    expect(input({ type: "garbage", lines: 2, hole: 3 })).toBeNull();
+    expect(input({ type: "pause" })).toBeNull();
+    expect(input({ type: "togglePause" })).toBeNull();
+  });
+
+  it("records garbage like any other input", () => {
+    const record = encodeAction(new ReceiveGarbage(3, 4));
+    expect(record).toEqual({ type: "garbage", lines: 3, hole: 4 });
+    expect(decodeAction(record)).toEqual(new ReceiveGarbage(3, 4));
+  });
+
+  it("hashes equal games equally and different games differently", () => {
+    const a = startTimeline(7, config);
+    const b = startTimeline(7, config);
+    expect(hashState(a.state)).toBe(hashState(b.state));
+    expect(hashState(playInput(a, { tick: 0, action: { type: "drop" } }).state)).not.toBe(hashState(b.state));
+    expect(hashState(startTimeline(8, config).state)).not.toBe(hashState(a.state));
+  });
+
+  it("plays the ticks before an input and never goes back", () => {
+    const t = playInput(startTimeline(7, config), { tick: 5, action: { type: "hold" } });
+    expect(t.tick).toBe(5);
+    expect(t.state.heldElement).not.toBeNull();
+    expect(advanceTimeline(t, 3)).toBe(t);
+  });
+
+  it("rebuilds a timeline from its log", () => {
+    const inputs = [
+      { tick: 2, action: { type: "move", direction: Direction.LEFT, distance: 2 } },
+      { tick: 4, action: { type: "drop" } },
+      { tick: 9, action: { type: "garbage", lines: 2, hole: 3 } },
+      { tick: 12, action: { type: "drop" } }
+    ] as const;
+    const played = advanceTimeline(inputs.reduce(playInput, startTimeline(7, config)), 30);
+    const rebuilt = rebuildTimeline(7, config, played.log, 30);
+    expect(rebuilt.log).toEqual(played.log);
+    expect(hashState(rebuilt.state)).toBe(hashState(played.state));
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { createGenerator, nextPiece, PieceGenerator, Randomizer } from "../src/randomizer";
+import { createConfig, defaultConfig } from "../src/config";
+import { createInitialState, Drop, Hold, reduceState } from "../src/state";
+import { Tetromino } from "../src/types";
+
+const Tetrominos = defaultConfig.pieces;
+
+const draw = (generator: PieceGenerator, count: number): Tetromino[] =>
+  count === 0 ? [] : (({ tetromino, generator: next }) => [tetromino, ...draw(next, count - 1)])(nextPiece(generator, Tetrominos));
+
+describe("randomizer", () => {
+  it("gives the same sequence for the same seed", () => {
+    [Randomizer.BAG, Randomizer.MEMORYLESS, Randomizer.NES, Randomizer.TGM].forEach(randomizer => {
+      const a = draw(createGenerator(randomizer, 1234, Tetrominos), 50);
+      const b = draw(createGenerator(randomizer, 1234, Tetrominos), 50);
+      expect(a).toEqual(b);
+    });
+  });
+
+  it("deals every piece once per bag of seven", () => {
+    const pieces = draw(createGenerator(Randomizer.BAG, 42, Tetrominos), 28);
+    [0, 7, 14, 21].forEach(start =>
+      expect(new Set(pieces.slice(start, start + 7)).size).toBe(Tetrominos.length));
+  });
+
+  it("deals I, J, L or T first with the TGM randomizer", () => {
+    const firsts = Array.from({ length: 200 }, (_, seed) => draw(createGenerator(Randomizer.TGM, seed, Tetrominos), 1)[0].kind);
+    expect(new Set(firsts)).toEqual(new Set(["I", "J", "L", "T"]));
+  });
+
+  it("replays a game identically from its seed", () => {
+    const play = () => [new Drop(), new Hold(), new Drop(), new Drop()].reduce(reduceState, createInitialState(99, createConfig({ readyTicks: 0 })));
+    expect(play()).toEqual(play());
+  });
+});
+
+describe("next queue", () => {
+  it("holds the configured number of pieces and spawns from the front", () => {
+    const config = createConfig({ previewLength: 3, readyTicks: 0 });
+    const s = createInitialState(5, config);
+    expect(s.nextQueue).toHaveLength(3);
+    const dropped = new Drop().apply(s);
+    expect(dropped.currentTetromino.kind).toBe(s.nextQueue[0].kind);
+    expect(dropped.nextQueue.slice(0, 2)).toEqual(s.nextQueue.slice(1));
+  });
+
+  it("draws directly from the randomizer with no preview", () => {
+    const s = createInitialState(5, createConfig({ previewLength: 0, readyTicks: 0 }));
+    expect(s.nextQueue).toHaveLength(0);
+    expect(new Hold().apply(s).nextQueue).toHaveLength(0);
+  });
+});
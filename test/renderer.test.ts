@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createConfig } from "../src/config";
+import { createSvgRenderer } from "../src/renderer";
+import { createInitialState, Drop, GameFlow, reduceState, State } from "../src/state";
+import { THEMES } from "../src/theme";
+import { I_TETROMINO } from "../src/types";
+
+// Just enough of the DOM for the renderer, counting attribute writes
+class FakeElement {
+  attributes = new Map<string, string>();
+  children: FakeElement[] = [];
+  parentNode: FakeElement | null = null;
+  namespaceURI = "http://www.w3.org/2000/svg";
+  textContent = "";
+
+  constructor(public tagName: string, private writes: { count: number }) {}
+
+  get lastChild() { return this.children[this.children.length - 1] ?? null; }
+  get childNodes() { return this.children; }
+  getAttribute(name: string) { return this.attributes.get(name) ?? null; }
+  setAttribute(name: string, value: string) {
+    this.writes.count++;
+    this.attributes.set(name, value);
+  }
+  appendChild(child: FakeElement) { return this.insertBefore(child, null); }
+  insertBefore(child: FakeElement, before: FakeElement | null) {
+    child.parentNode?.removeChild(child);
+    const index = before ? this.children.indexOf(before) : -1;
+    this.children.splice(index < 0 ? this.children.length : index, 0, child);
+    child.parentNode = this;
+    return child;
+  }
+  removeChild(child: FakeElement) {
+    this.children = this.children.filter(c => c !== child);
+    child.parentNode = null;
+    return child;
+  }
+  remove() { this.parentNode?.removeChild(this); }
+  addEventListener() {}
+}
+
+const writes = { count: 0 };
+const element = (tagName: string) => new FakeElement(tagName, writes);
+
+const setup = () => {
+  const svg = element("svg");
+  const overlay = svg.appendChild(element("g"));
+  const board = { svg, preview: element("svg"), hold: element("svg"), overlay };
+  const renderer = createSvgRenderer(board as unknown as Parameters<typeof createSvgRenderer>[0]);
+  return { ...board, renderer };
+};
+
+const visibleCells = (svg: FakeElement) =>
+  svg.children[0].children.filter(rect => rect.getAttribute("visibility") === "visible");
+
+const effects = (svg: FakeElement, className: string) =>
+  svg.children[4].children.filter(elem => elem.getAttribute("class") === className);
+
+const fallOneRow = (s: State) => {
+  let next = s;
+  while (next.currentTetromino.position.y === s.currentTetromino.position.y) next = reduceState(next, new GameFlow());
+  return next;
+};
+
+describe("SVG renderer", () => {
+  beforeEach(() => {
+    vi.stubGlobal("document", { createElementNS: (_: string, name: string) => element(name) });
+    writes.count = 0;
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const s = createInitialState(1, createConfig({ readyTicks: 0 }));
+  const theme = THEMES.classic;
+
+  it("keeps one node per cell, under the overlay", () => {
+    const { svg, overlay, renderer } = setup();
+    renderer.render({ state: s, showGhost: true, hint: null, theme });
+    expect(svg.children[0].children).toHaveLength(s.config.width * s.config.height);
+    expect(svg.lastChild).toBe(overlay);
+  });
+
+  it("skips a view it has just drawn", () => {
+    const { renderer } = setup();
+    const view = { state: s, showGhost: true, hint: null, theme };
+    expect(renderer.render(view)).toBeGreaterThan(0);
+    expect(renderer.render(view)).toBe(0);
+    expect(renderer.render({ ...view })).toBe(0);
+    expect(renderer.render({ ...view, showGhost: false })).toBeGreaterThan(0);
+  });
+
+  it("only moves the piece when it falls", () => {
+    const { svg, renderer } = setup();
+    renderer.render({ state: s, showGhost: true, hint: null, theme });
+    const cells = svg.children[0].children;
+    writes.count = 0;
+    const changes = renderer.render({ state: fallOneRow(s), showGhost: true, hint: null, theme });
+    // Four blocks each get a new y
+    expect(changes).toBe(4);
+    expect(writes.count).toBe(4);
+    expect(svg.children[0].children).toBe(cells);
+  });
+
+  it("fills the cells of a locked piece", () => {
+    const { svg, renderer } = setup();
+    renderer.render({ state: s, showGhost: false, hint: null, theme });
+    const locked = reduceState(s, new Drop());
+    renderer.render({ state: locked, showGhost: false, hint: null, theme });
+    const filled = visibleCells(svg);
+    expect(filled).toHaveLength(4);
+    expect(filled.every(rect => rect.getAttribute("fill") === theme.cells[s.currentTetromino.kind].fill)).toBe(true);
+  });
+
+  it("empties the board", () => {
+    const { svg, preview, renderer } = setup();
+    renderer.render({ state: reduceState(s, new Drop()), showGhost: true, hint: null, theme });
+    renderer.clear();
+    expect(visibleCells(svg)).toEqual([]);
+    expect(preview.children).toEqual([]);
+    expect(svg.children.slice(1, 4).every(layer =>
+      layer.children.every(rect => rect.getAttribute("visibility") === "hidden"))).toBe(true);
+  });
+
+  it("plays the effects of a lock once", () => {
+    const { svg, renderer } = setup();
+    renderer.render({ state: s, showGhost: false, hint: null, theme });
+    const locked = reduceState(s, new Drop());
+    renderer.render({ state: locked, showGhost: false, hint: null, theme });
+    expect(effects(svg, "flash")).toHaveLength(4);
+    expect(effects(svg, "trail").length).toBeGreaterThan(0);
+    renderer.render({ state: reduceState(locked, new GameFlow()), showGhost: false, hint: null, theme });
+    expect(effects(svg, "flash")).toHaveLength(4);
+  });
+
+  it("flashes cleared rows and hides the next piece until it enters", () => {
+    const { svg, renderer } = setup();
+    const bottom = s.grid.length - 1;
+    const locked = reduceState({
+      ...s,
+      grid: s.grid.map((row, y) => y === bottom ? row.map((_, x) => x < 4 ? null : "garbage") : row),
+      currentTetromino: { ...I_TETROMINO, position: { x: 0, y: 0 } }
+    }, new Drop());
+    renderer.render({ state: locked, showGhost: true, hint: null, theme });
+    expect(svg.children[0].children.slice(-s.config.width).every(rect => rect.getAttribute("fill") === "white")).toBe(true);
+    expect(svg.children[3].children.every(rect => rect.getAttribute("visibility") === "hidden")).toBe(true);
+    expect(effects(svg, "popup").map(popup => popup.textContent)).toEqual(["Single Perfect Clear"]);
+  });
+
+  it("repaints everything in a new theme, with patterns where it has them", () => {
+    const { svg, preview, renderer } = setup();
+    const locked = reduceState(s, new Drop());
+    renderer.render({ state: locked, showGhost: false, hint: null, theme });
+    const changes = renderer.render({ state: locked, showGhost: false, hint: null, theme: THEMES.colourBlind });
+    expect(changes).toBeGreaterThan(0);
+    const defs = svg.children[6];
+    expect(defs.tagName).toBe("defs");
+    expect(defs.children).toHaveLength(7);
+    const fill = visibleCells(svg)[0].getAttribute("fill")!;
+    expect(fill).toMatch(/^url\(#board\d+-[IOTSZJL]\)$/);
+    expect(defs.children.some(pattern => fill === `url(#${pattern.getAttribute("id")})`)).toBe(true);
+    expect(preview.children.every(rect => rect.getAttribute("fill")!.startsWith("url("))).toBe(true);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { createInitialState, Drop, GameEvent, GameFlow, Hold, Move, Rotate, TogglePause } from "../src/state";
+import { Action } from "../src/types";
+import { Direction } from "../src/util";
+import { Turn } from "../src/rotation";
+import {
+  parseReplay,
+  reduceRecording,
+  runReplay,
+  Seek,
+  serializeReplay,
+  startPlayback,
+  startRecording,
+  advancePlayback,
+  replayEvents,
+} from "../src/replay";
+import { EMPTY_TALLY, statsFor, tallyAt, tallyEvents, tallyTimeline } from "../src/stats";
+import { createConfig } from "../src/config";
+import { frame, initialInput, press } from "../src/input";
+
+// Ticks interleaved with inputs, including several inputs on the same tick and a pause
+const script: Action[] = Array.from({ length: 400 }, (_, i): Action[] =>
+  i === 150 || i === 180 ? [new TogglePause(), new GameFlow()]
+    : i % 7 === 0 ? [new Move(Direction.LEFT), new Rotate(Turn.CLOCKWISE), new GameFlow()]
+    : i % 11 === 0 ? [new Drop(), new GameFlow()]
+      : i % 29 === 0 ? [new Hold(), new Move(Direction.RIGHT), new GameFlow()]
+        : [new GameFlow()]
+).flat();
+
+const record = () =>
+  script.reduce((r, action, i) => reduceRecording(r, action, i * 10), startRecording(createInitialState(2023), 0));
+
+describe("replay", () => {
+  it("plays back to an identical state", () => {
+    const recording = record();
+    expect(runReplay(recording.replay)).toEqual(recording.state);
+  });
+
+  it("records a shift held against the wall once", () => {
+    const handling = { das: 100, arr: 0, softDropFactor: 20 };
+    const held = press(initialInput, "left", 0, handling).input;
+    const s = createInitialState(2023, createConfig({ readyTicks: 0 }));
+    const frames = Array.from({ length: 20 }, (_, i): Action[] =>
+      [...frame(held, 100 + i * 50, handling).actions, new GameFlow()]).flat();
+    expect(frames.filter(action => action instanceof Move)).toHaveLength(20);
+    const { replay } = frames.reduce((r, action, i) => reduceRecording(r, action, i * 10), startRecording(s, 0));
+    expect(replay.inputs).toHaveLength(1);
+    expect(replay.ticks).toBe(20);
+  });
+
+  it("survives a JSON round trip", () => {
+    const { replay, state } = record();
+    expect(runReplay(parseReplay(serializeReplay(replay)))).toEqual(state);
+  });
+
+  it("rejects replays from another format version", () => {
+    expect(() => parseReplay(JSON.stringify({ ...record().replay, version: 0 }))).toThrow();
+  });
+
+  it("seeks backwards to the same state as playing forwards", () => {
+    const { replay } = record();
+    const forward = advancePlayback(startPlayback(replay), 100);
+    const rewound = new Seek(100).apply(advancePlayback(startPlayback(replay), 300));
+    expect(rewound.state).toEqual(forward.state);
+  });
+
+  it("gathers every event once, for the same stats as counting them live", () => {
+    const recording = record();
+    const live = script.reduce(({ s, events }, action) => {
+      const next = action.apply(s);
+      return { s: next, events: events.concat(next.events.filter(event => !s.events.includes(event))) };
+    }, { s: createInitialState(2023), events: [] as GameEvent[] });
+    const events = replayEvents(recording.replay);
+    expect(events).toEqual(live.events);
+    expect(statsFor(events, recording.state.ticks).pieces).toBeGreaterThan(0);
+  });
+
+  it("looks up the tally at any tick the same as adding up the events so far", () => {
+    const events = replayEvents(record().replay);
+    const timeline = tallyTimeline(events);
+    expect(timeline.length).toBeLessThan(events.length);
+    [0, 1, 50, 150, 151, 399, 1000].forEach(tick =>
+      expect(tallyAt(timeline, tick)).toEqual(tallyEvents(EMPTY_TALLY, events.filter(event => event.tick <= tick))));
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import { createConfig } from "../src/config";
+import { FRAME_INTERVAL, hashState, MAX_TICKS_AHEAD } from "../src/protocol";
+import {
+  createRoom,
+  expireSeats,
+  joinRoom,
+  leaveRoom,
+  RECONNECT_GRACE_MS,
+  readyUp,
+  receiveFrame,
+  receiveGarbage,
+  receiveInput,
+  Room,
+  roomEmpty
+} from "../src/room";
+import { Phase } from "../src/types";
+
+const config = createConfig({ mode: "versus", readyTicks: 0 });
+
+// Games start at time 0, and later messages arrive a minute in, when the clock allows every tick the tests send
+const LATER = 60_000;
+
+const seated = (): Room => {
+  const first = joinRoom(createRoom("test", 1, config), "Ann", null, "a");
+  return joinRoom(first.room, "Bob", null, "b").room;
+};
+
+const started = (): Room => readyUp(readyUp(seated(), 0, 0).room, 1, 0).room;
+
+const types = (outbox: ReadonlyArray<{ to: number, message: { type: string } }>, to: number) =>
+  outbox.filter(envelope => envelope.to === to).map(({ message }) => message.type);
+
+describe("room", () => {
+  it("seats players until the room is full", () => {
+    const first = joinRoom(createRoom("test", 1, config), "Ann", null, "a");
+    expect(first.seat).toBe(0);
+    expect(first.outbox[0].message).toEqual({ type: "welcome", player: 0, session: "a" });
+    const second = joinRoom(first.room, "Bob", null, "b");
+    expect(second.seat).toBe(1);
+    expect(second.outbox.at(-1)?.message).toEqual({
+      type: "lobby",
+      players: [{ name: "Ann", ready: false, connected: true }, { name: "Bob", ready: false, connected: true }]
+    });
+    expect(joinRoom(second.room, "Cy", null, "c").seat).toBeNull();
+  });
+
+  it("starts a game with a shared seed once everyone is ready", () => {
+    const waiting = readyUp(seated(), 0, 0);
+    expect(waiting.room.game).toBeNull();
+    const { room, outbox } = readyUp(waiting.room, 1, 0);
+    expect(room.game).not.toBeNull();
+    const starts = outbox.filter(({ message }) => message.type === "start");
+    expect(starts.map(({ to }) => to)).toEqual([0, 1]);
+    expect(starts[0].message).toEqual(starts[1].message);
+    expect(room.seats.every(seat => seat.timeline !== null && !seat.ready)).toBe(true);
+  });
+
+  it("plays inputs and relays them to the other players", () => {
+    const { room, outbox } = receiveInput(started(), 0, 3, { type: "hold" }, LATER);
+    expect(room.seats[0].timeline?.tick).toBe(3);
+    expect(room.seats[0].timeline?.state.heldElement).not.toBeNull();
+    expect(outbox).toEqual([{ to: 1, message: { type: "input", player: 0, tick: 3, action: { type: "hold" } } }]);
+  });
+
+  it("refuses inputs out of order, pauses and garbage it did not send", () => {
+    const room = receiveInput(started(), 0, 5, { type: "hold" }, LATER).room;
+    expect(types(receiveInput(room, 0, 4, { type: "drop" }, LATER).outbox, 0)).toEqual(["error", "resume"]);
+    expect(types(receiveInput(room, 0, 6, { type: "togglePause" }, LATER).outbox, 0)).toEqual(["error", "resume"]);
+    expect(types(receiveInput(room, 0, 6, { type: "garbage", lines: 4, hole: 0 }, LATER).outbox, 0)).toEqual(["error", "resume"]);
+    expect(receiveInput(room, 0, 4, { type: "drop" }, LATER).room).toBe(room);
+    expect(types(receiveGarbage(room, 0, 6, LATER).outbox, 0)).toEqual(["error", "resume"]);
+  });
+
+  it("refuses inputs and frames too far ahead of its copy of the game", () => {
+    const room = started();
+    expect(types(receiveInput(room, 0, 1e15, { type: "drop" }, LATER).outbox, 0)).toEqual(["error", "resume"]);
+    expect(types(receiveFrame(room, 0, 1e15, 0, LATER).outbox, 0)).toEqual(["error", "resume"]);
+    expect(receiveFrame(room, 0, 1e8, 0, LATER).room).toBe(room);
+    expect(receiveFrame(room, 0, MAX_TICKS_AHEAD, 0, LATER).room.seats[0].timeline?.tick).toBe(MAX_TICKS_AHEAD);
+  });
+
+  it("refuses frames that come faster than the clock", () => {
+    // A second in, 20 ticks have gone by
+    const frames = Array.from({ length: 10 }, (_, i) => (i + 1) * FRAME_INTERVAL)
+      .reduce((acc, tick) => {
+        const { room, outbox } = receiveFrame(acc.room, 0, tick, 0, 1000);
+        return { room, refused: acc.refused.concat(types(outbox, 0).includes("error") ? [tick] : []) };
+      }, { room: started(), refused: [] as number[] });
+    expect(frames.refused[0]).toBe(20 + MAX_TICKS_AHEAD + FRAME_INTERVAL);
+    expect(frames.room.seats[0].timeline?.tick).toBe(20 + MAX_TICKS_AHEAD);
+  });
+
+  it("makes a player who does not come back in time forfeit", () => {
+    const left = leaveRoom(started(), 1, 1000).room;
+    expect(expireSeats(left, 1000 + RECONNECT_GRACE_MS - 1).room.game).not.toBeNull();
+    const { room, outbox } = expireSeats(left, 1000 + RECONNECT_GRACE_MS);
+    expect(room.game).toBeNull();
+    expect(outbox.map(({ message }) => message)).toContainEqual({ type: "gameOver", winner: 0 });
+  });
+
+  it("ends a game everyone has left, so the room can close", () => {
+    const gone = leaveRoom(leaveRoom(started(), 0, 1000).room, 1, 1000).room;
+    const { room } = expireSeats(gone, 1000 + RECONNECT_GRACE_MS);
+    expect(room.game).toBeNull();
+    expect(roomEmpty(room)).toBe(true);
+  });
+
+  it("sends garbage and expects it back as an input", () => {
+    const room = started();
+    const attacking: Room = {
+      ...room,
+      seats: room.seats.map((seat, i) => i === 0 && seat.timeline
+        ? { ...seat, timeline: { ...seat.timeline, state: { ...seat.timeline.state, attack: 2 } } }
+        : seat)
+    };
+    const hash = hashState(attacking.seats[0].timeline!.state);
+    const sent = receiveFrame(attacking, 0, 0, hash, LATER);
+    const garbage = sent.outbox.find(({ message }) => message.type === "garbage");
+    expect(garbage?.to).toBe(1);
+    expect(sent.room.seats[0].timeline?.state.attack).toBe(0);
+    expect(sent.room.seats[1].owed).toHaveLength(1);
+
+    const { lines, hole } = sent.room.seats[1].owed[0];
+    expect(garbage?.message).toEqual({ type: "garbage", lines, hole });
+    const played = receiveGarbage(sent.room, 1, 2, LATER);
+    expect(played.room.seats[1].owed).toEqual([]);
+    expect(played.room.seats[1].timeline?.state.garbage).toEqual([{ lines, hole }]);
+  });
+
+  it("sends its own game back when a frame does not match", () => {
+    const room = started();
+    const hash = hashState(room.seats[0].timeline!.state);
+    expect(types(receiveFrame(room, 0, 0, hash, LATER).outbox, 0)).toEqual([]);
+    expect(types(receiveFrame(room, 0, 0, hash + 1, LATER).outbox, 0)).toEqual(["resume"]);
+    expect(types(receiveFrame(room, 0, 10, 0, LATER).outbox, 1)).toEqual(["frame"]);
+  });
+
+  it("gives a seat back to a player who rejoins with its session", () => {
+    const room = receiveInput(started(), 1, 4, { type: "drop" }, LATER).room;
+    const left = leaveRoom(room, 1, LATER);
+    expect(left.room.seats[1].connected).toBe(false);
+    expect(roomEmpty(left.room)).toBe(false);
+    expect(roomEmpty(leaveRoom(left.room, 0, LATER).room)).toBe(true);
+
+    const back = joinRoom(left.room, "Bob", "b", "new");
+    expect(back.seat).toBe(1);
+    expect(expireSeats(back.room, LATER + RECONNECT_GRACE_MS).room.game).not.toBeNull();
+    const resume = back.outbox.find(({ message }) => message.type === "resume");
+    expect(resume?.to).toBe(1);
+    expect(resume?.message).toMatchObject({ logs: [[], [{ tick: 4, action: { type: "drop" } }]], ticks: [0, 4] });
+  });
+
+  it("ends the game when one player is left standing", () => {
+    let update = { room: started(), outbox: [] as ReadonlyArray<{ to: number, message: { type: string } }> };
+    for (let tick = 0; update.room.game !== null && tick < 100; tick++)
+      update = receiveInput(update.room, 0, tick, { type: "drop" }, LATER);
+    expect(update.room.game).toBeNull();
+    expect(update.outbox.filter(({ message }) => message.type === "gameOver").map(({ message }) => message))
+      .toEqual([{ type: "gameOver", winner: 1 }, { type: "gameOver", winner: 1 }]);
+    expect(readyUp(update.room, 0, 0).room.seats[0].ready).toBe(true);
+  });
+});
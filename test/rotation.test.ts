@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { createInitialState, Rotate, State } from "../src/state";
+import { RotationSystem, Turn } from "../src/rotation";
+import { createConfig } from "../src/config";
+import { I_TETROMINO, T_TETROMINO } from "../src/types";
+
+// A vertical I piece (state L) flush against the left wall
+const againstWall = (rotationSystem: RotationSystem): State => ({
+  ...createInitialState(1, createConfig({ rotationSystem, readyTicks: 0 })),
+  currentTetromino: { ...I_TETROMINO, rotation: 3, position: { x: -1, y: 5 } },
+});
+
+describe("Rotate", () => {
+  it("wall kicks the I piece away from the wall with SRS", () => {
+    const s = new Rotate(Turn.CLOCKWISE).apply(againstWall(RotationSystem.SRS));
+    expect(s.currentTetromino.rotation).toBe(0);
+    expect(s.currentTetromino.position.x).toBeGreaterThanOrEqual(0);
+  });
+
+  it("refuses to rotate against the wall without kicks", () => {
+    const before = againstWall(RotationSystem.CLASSIC);
+    expect(new Rotate(Turn.CLOCKWISE).apply(before)).toBe(before);
+  });
+
+  it("turns counter-clockwise and by 180 degrees", () => {
+    const s: State = { ...createInitialState(1, createConfig({ readyTicks: 0 })), currentTetromino: { ...T_TETROMINO, position: { x: 4, y: 5 } } };
+    expect(new Rotate(Turn.COUNTER_CLOCKWISE).apply(s).currentTetromino.rotation).toBe(3);
+    expect(new Rotate(Turn.HALF).apply(s).currentTetromino.rotation).toBe(2);
+  });
+});
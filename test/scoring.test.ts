@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { detectSpin, GUIDELINE_SCORING, scoreLock, Spin } from "../src/scoring";
+import { initialiseGrid } from "../src/util";
+import { T_TETROMINO, GridCell } from "../src/types";
+
+// A T slot at the bottom left, with an overhang at column 2 of row 17
+const tSlot = (): GridCell[][] =>
+  initialiseGrid(10, 20).map((row, y) =>
+    row.map((cell, x) =>
+      (y === 17 && x === 2) || (y === 18 && x > 2) || (y === 19 && x !== 1) ? "garbage" : cell));
+
+describe("detectSpin", () => {
+  const t = { ...T_TETROMINO, rotation: 2, position: { x: 0, y: 17 } };
+
+  it("detects a T-spin after a rotation with three corners occupied", () => {
+    expect(detectSpin(tSlot(), t, 0)).toBe(Spin.FULL);
+  });
+
+  it("ignores the corners if the last movement was not a rotation", () => {
+    expect(detectSpin(tSlot(), t, null)).toBe(Spin.NONE);
+  });
+});
+
+describe("scoreLock", () => {
+  it("scores a tetris", () => {
+    const clear = scoreLock(GUIDELINE_SCORING, 1, 4, Spin.NONE, false, false, -1);
+    expect(clear.points).toBe(800);
+    expect(clear.label).toBe("Tetris");
+  });
+
+  it("applies back-to-back and combo bonuses", () => {
+    const clear = scoreLock(GUIDELINE_SCORING, 2, 2, Spin.FULL, false, true, 1);
+    expect(clear.points).toBe(2 * (1200 * 1.5 + 50 * 2));
+    expect(clear.label).toBe("B2B T-Spin Double");
+    expect(clear.combo).toBe(2);
+  });
+
+  it("breaks the combo when no lines are cleared", () => {
+    expect(scoreLock(GUIDELINE_SCORING, 1, 0, Spin.NONE, false, false, 3).combo).toBe(-1);
+  });
+
+  it("adds the perfect clear bonus", () => {
+    const clear = scoreLock(GUIDELINE_SCORING, 1, 1, Spin.NONE, true, false, -1);
+    expect(clear.points).toBe(100 + 800);
+    expect(clear.label).toBe("Single Perfect Clear");
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { createConfig } from "../src/config";
+import { createInitialState, Drop, GameEvent, Hold, Move, State } from "../src/state";
+import { GUIDELINE_SCORING, scoreLock, Spin } from "../src/scoring";
+import { EMPTY_TALLY, formatRates, statRows, statsFor, statsOf, tallyEvents } from "../src/stats";
+import { Direction } from "../src/util";
+
+const s = createInitialState(1, createConfig({ readyTicks: 0, clearDelay: 0, entryDelay: 0 }));
+// The combo is the one before the clear
+const clearOf = (rows: number, spin: Spin, combo: number, attack: number, perfectClear = false): GameEvent =>
+  ({ tick: 0, type: "clear", clear: scoreLock(GUIDELINE_SCORING, 1, rows, spin, perfectClear, false, combo), rows: [], attack });
+
+// Every event of a game played through actions, each once
+const play = (actions: { apply: (s: State) => State }[]) =>
+  actions.reduce(({ state, events }, action) => {
+    const next = action.apply(state);
+    return { state: next, events: events.concat(next.events.filter(event => !state.events.includes(event))) };
+  }, { state: s, events: [] as GameEvent[] }).events;
+
+describe("stats", () => {
+  it("counts pieces, keys and each kind of piece placed", () => {
+    const events = play([new Move(Direction.LEFT), new Drop(), new Hold(), new Drop()]);
+    const stats = statsFor(events, 0);
+    expect(stats.pieces).toBe(2);
+    // The move, both hard drops and the hold
+    expect(stats.keys).toBe(4);
+    expect(Object.values(stats.placed).reduce((sum, n) => sum + n, 0)).toBe(2);
+    expect(stats.placed[s.currentTetromino.kind]).toBeGreaterThan(0);
+  });
+
+  it("counts clears by kind, lines, attack and the longest combo", () => {
+    const tally = tallyEvents(EMPTY_TALLY, [
+      clearOf(1, Spin.NONE, -1, 0),
+      clearOf(4, Spin.NONE, 0, 5),
+      clearOf(2, Spin.FULL, 1, 5, true),
+      clearOf(0, Spin.MINI, 2, 0)
+    ]);
+    expect(tally.clears).toEqual({ single: 1, double: 0, triple: 0, tetris: 1, tSpin: 2, perfectClear: 1 });
+    expect(tally.lines).toBe(7);
+    expect(tally.attack).toBe(10);
+    expect(tally.maxCombo).toBe(2);
+  });
+
+  it("works out the rates over the time played", () => {
+    const tally = { ...EMPTY_TALLY, pieces: 10, keys: 25, attack: 4 };
+    // 20 ticks a second
+    const stats = statsOf(tally, 200);
+    expect(stats.pps).toBeCloseTo(1);
+    expect(stats.kpp).toBeCloseTo(2.5);
+    expect(stats.apm).toBeCloseTo(24);
+    expect(formatRates(stats)).toBe("PPS 1.00  KPP 2.50  APM 24.0");
+    expect(statsOf(EMPTY_TALLY, 0)).toMatchObject({ pps: 0, kpp: 0, apm: 0 });
+  });
+
+  it("lists the rates first, leaving out clears and pieces that have not come up", () => {
+    const rows = statRows(statsFor(play([new Drop()]), 20));
+    expect(rows.slice(0, 3).map(([label]) => label)).toEqual(["PPS", "KPP", "APM"]);
+    expect(rows).toContainEqual([s.currentTetromino.kind, "1"]);
+    expect(rows.map(([label]) => label)).not.toContain("Singles");
+    expect(rows).toHaveLength(7);
+  });
+});
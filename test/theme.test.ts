@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_THEME, paintCell, themeFor, THEMES } from "../src/theme";
+
+const kinds = ["I", "O", "T", "S", "Z", "J", "L", "garbage"];
+
+describe("themes", () => {
+  it("style every kind of cell", () => {
+    Object.values(THEMES).forEach(theme => expect(Object.keys(theme.cells).sort()).toEqual([...kinds].sort()));
+  });
+
+  it("give every piece its own pattern in the colour-blind theme", () => {
+    const patterns = kinds.filter(kind => kind !== "garbage")
+      .map(kind => THEMES.colourBlind.cells[kind as keyof typeof THEMES.colourBlind.cells].pattern);
+    expect(patterns.every(pattern => pattern !== null)).toBe(true);
+    expect(new Set(patterns).size).toBe(patterns.length);
+  });
+
+  it("paint patterned cells with their pattern", () => {
+    expect(paintCell(THEMES.colourBlind, "board1", "T")).toEqual({ fill: "url(#board1-T)", stroke: "black" });
+    expect(paintCell(THEMES.classic, "board1", "T")).toEqual({ fill: "purple", stroke: "black" });
+  });
+
+  it("fall back to the default theme for unknown ids", () => {
+    expect(themeFor("dark")).toBe(THEMES.dark);
+    expect(themeFor("sepia")).toBe(THEMES[DEFAULT_THEME]);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { defaultGestureConfig, Gesture, initialGesture, touchEnd, touchMove, touchStart } from "../src/touch";
+import { Down, Drop, Hold, Move, Rotate } from "../src/state";
+import { Direction } from "../src/util";
+import { Turn } from "../src/rotation";
+
+const config = { ...defaultGestureConfig, cellSize: 20 };
+const at = (x: number, y: number, time: number) => ({ x, y, time });
+
+// Drag the first finger through the given points, then lift it at the last one
+const drag = (points: [number, number, number][], fingers = 1) => {
+  const [first, ...rest] = points.map(([x, y, t]) => at(x, y, t));
+  const started = touchStart(initialGesture, first, fingers);
+  const moved = rest.reduce(
+    (r, point) => {
+      const next = touchMove(r.gesture, point, config);
+      return { gesture: next.gesture, actions: r.actions.concat(next.actions) };
+    },
+    { gesture: started.gesture as Gesture, actions: [] as unknown[] }
+  );
+  const ended = touchEnd(moved.gesture, rest[rest.length - 1] ?? first, 0, config);
+  return moved.actions.concat(ended.actions);
+};
+
+describe("touch gestures", () => {
+  it("rotates on a tap", () => {
+    expect(drag([[100, 100, 0], [102, 101, 80]])).toEqual([new Rotate(Turn.CLOCKWISE)]);
+  });
+
+  it("holds on a two-finger tap", () => {
+    expect(drag([[100, 100, 0], [101, 100, 80]], 2)).toEqual([new Hold()]);
+  });
+
+  it("moves one cell per cell dragged sideways", () => {
+    expect(drag([[100, 100, 0], [125, 102, 100], [145, 103, 200], [75, 103, 400]])).toEqual([
+      new Move(Direction.RIGHT, 1),
+      new Move(Direction.RIGHT, 1),
+      new Move(Direction.LEFT, 3),
+    ]);
+  });
+
+  it("soft drops on a slow drag down", () => {
+    expect(drag([[100, 100, 0], [100, 125, 300], [100, 145, 600]])).toEqual([new Down(), new Down()]);
+  });
+
+  it("hard drops on a fast swipe down", () => {
+    const actions = drag([[100, 100, 0], [100, 200, 60]]);
+    expect(actions[actions.length - 1]).toEqual(new Drop());
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { createConfig } from "../src/config";
+import { Drop, GameFlow, Move, Pause, Restart } from "../src/state";
+import { Phase } from "../src/types";
+import { Direction } from "../src/util";
+import {
+  createMatch,
+  exchangeGarbage,
+  ForBoth,
+  ForPlayer,
+  Match,
+  matchWinner,
+  playerAction,
+  reduceMatch,
+  roundOver
+} from "../src/versus";
+
+const config = createConfig({ mode: "versus", readyTicks: 0, clearDelay: 0, entryDelay: 0 });
+
+// Player 0 hard drops until they top out
+const topOut = (m: Match): Match => {
+  let match = m;
+  for (let i = 0; i < 100 && !roundOver(match); i++) match = reduceMatch(match, new ForPlayer(0, new Drop()));
+  return match;
+};
+
+describe("versus", () => {
+  it("deals both players the same pieces with a shared seed", () => {
+    const shared = createMatch(1, config);
+    expect(shared.players[0].nextQueue).toEqual(shared.players[1].nextQueue);
+    const own = createMatch(1, config, { rounds: 3, sharedSeed: false });
+    expect(own.players[0].seed).not.toBe(own.players[1].seed);
+  });
+
+  it("applies a player's input to their board only", () => {
+    const m = reduceMatch(createMatch(1, config), new ForPlayer(1, new Move(Direction.LEFT)));
+    expect(m.players[1].currentTetromino.position.x).toBe(m.players[0].currentTetromino.position.x - 1);
+  });
+
+  it("pauses both boards whoever presses pause", () => {
+    const m = reduceMatch(createMatch(1, config), playerAction(1, new Pause()));
+    expect(m.players.map(s => s.phase)).toEqual([Phase.PAUSED, Phase.PAUSED]);
+  });
+
+  it("sends garbage to the opponent with a hole", () => {
+    const m = createMatch(1, config);
+    const sent = exchangeGarbage({ ...m, players: [{ ...m.players[0], attack: 4 }, m.players[1]] });
+    expect(sent.players[0].attack).toBe(0);
+    expect(sent.players[1].garbage).toHaveLength(1);
+    expect(sent.players[1].garbage[0].lines).toBe(4);
+    expect(sent.seed).not.toBe(m.seed);
+  });
+
+  it("gives the round to the player still standing", () => {
+    const m = topOut(createMatch(1, config));
+    expect(m.winner).toBe(1);
+    expect(m.wins).toEqual([0, 1]);
+    expect(m.players[1].phase).toBe(Phase.GAME_OVER);
+    // Nothing moves until the next round
+    expect(reduceMatch(m, new ForBoth(new GameFlow()))).toEqual(m);
+  });
+
+  it("plays rounds until a player wins the match", () => {
+    const first = topOut(createMatch(1, config));
+    const second = reduceMatch(first, playerAction(0, new Restart()));
+    expect(second.round).toBe(2);
+    expect(second.players[0].phase).toBe(Phase.PLAYING);
+    const decided = topOut(second);
+    expect(matchWinner(decided)).toBe(1);
+    const rematch = reduceMatch(decided, playerAction(1, new Restart()));
+    expect(rematch.round).toBe(1);
+    expect(rematch.wins).toEqual([0, 0]);
+  });
+
+  it("keeps playing the round when restart is pressed", () => {
+    const m = createMatch(1, config);
+    expect(reduceMatch(m, playerAction(0, new Restart()))).toBe(m);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { createConfig } from "../src/config";
+import { GameEvent } from "../src/state";
+import { GUIDELINE_SCORING, scoreLock, Spin } from "../src/scoring";
+import { O_TETROMINO } from "../src/types";
+import { effectsFor } from "../src/view";
+
+const config = createConfig();
+const atRow = (y: number) => ({ ...O_TETROMINO, position: { x: 4, y } });
+
+describe("effects", () => {
+  it("flashes the visible cells of a locked piece", () => {
+    const event: GameEvent = { tick: 0, type: "lock", tetromino: atRow(1) };
+    // The top row of the piece is still above the board
+    expect(effectsFor([event], config)).toEqual([
+      { kind: "flash", x: 4, y: 0 },
+      { kind: "flash", x: 5, y: 0 }
+    ]);
+  });
+
+  it("trails a hard drop down each column it fell through", () => {
+    const event: GameEvent = { tick: 0, type: "hardDrop", from: atRow(2), to: atRow(20) };
+    expect(effectsFor([event], config)).toEqual([4, 5].map(x =>
+      ({ kind: "trail", x, y: 0, length: 18, piece: "O" })));
+    expect(effectsFor([{ ...event, to: event.from }], config)).toEqual([]);
+  });
+
+  it("names clears where they happened, and announces levels", () => {
+    const clear = scoreLock(GUIDELINE_SCORING, 1, 2, Spin.NONE, false, false, -1);
+    const events: GameEvent[] = [
+      { tick: 3, type: "clear", clear, rows: [20, 21], attack: 1 },
+      { tick: 3, type: "levelUp", level: 2 }
+    ];
+    expect(effectsFor(events, config)).toEqual([
+      { kind: "popup", y: 18.5, text: "Double" },
+      { kind: "banner", text: "Level 2" }
+    ]);
+  });
+});